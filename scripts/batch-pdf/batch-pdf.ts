@@ -0,0 +1,220 @@
+/**
+ * Batch PDF Generation
+ * Opens every country profile through the ?country=XXX&period=YYYY URL entry
+ * point in headless Chrome, waits for the profile to report it is ready, runs
+ * the Print flow and saves one PDF per country plus a manifest.json listing
+ * successes and failures.
+ *
+ * Usage: npm run batch:pdf -- --base-url http://localhost:8090 [options]
+ *   --base-url      DHIS2 instance the profiles are loaded from (required)
+ *   --app-url       Running app to print from; a Vite dev server is started when omitted
+ *   --period        Data year of the WMR edition (default: latest published edition)
+ *   --countries     Comma separated ISO3 codes (default: all profile countries)
+ *   --locale        Locale of the chart and table labels, e.g. fr (default: en)
+ *   --out           Output folder (default: pdf-output)
+ *   --timeout       Seconds to wait for a single profile (default: 120)
+ *   --browser-path  Chrome/Chromium executable (default: $CHROME_PATH)
+ *
+ * Credentials are read from DHIS2_TOKEN or DHIS2_USERNAME/DHIS2_PASSWORD.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import puppeteer, { Browser } from 'puppeteer-core';
+import { createServer, ViteDevServer } from 'vite';
+import { COUNTRY_PROFILE_DATASET, SUBNATIONAL_COUNTRY_CODES, isExcludedCountry } from '../../src/config/countries';
+import { getDefaultEdition, getEditionByDataYear } from '../../src/config/wmrEditions';
+import type { ProfileReadyDetail } from '../../src/utils/useProfileReadiness';
+
+interface BatchCountry {
+  id: string;
+  code: string;
+  displayName: string;
+  level: number;
+}
+
+interface ManifestEntry {
+  code: string;
+  name: string;
+  file?: string;
+  error?: string;
+}
+
+const { values: options } = parseArgs({
+  options: {
+    'base-url': { type: 'string' },
+    'app-url': { type: 'string' },
+    period: { type: 'string', default: getDefaultEdition().dataYear },
+    countries: { type: 'string' },
+    locale: { type: 'string' },
+    out: { type: 'string', default: 'pdf-output' },
+    timeout: { type: 'string', default: '120' },
+    'browser-path': { type: 'string', default: process.env.CHROME_PATH },
+  },
+});
+
+const baseUrl = (options['base-url'] || process.env.DHIS2_BASE_URL || '').replace(/\/$/, '');
+const timeoutMs = Number(options.timeout) * 1000;
+const { DHIS2_TOKEN: token, DHIS2_USERNAME: username, DHIS2_PASSWORD: password } = process.env;
+
+function getAuthHeader(): string | null {
+  if (token) return `Bearer ${token}`;
+  if (username && password) return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+  return null;
+}
+
+/**
+ * Profile countries, using the same dataset and filtering as the country dropdown
+ */
+async function getCountries(authHeader: string | null): Promise<BatchCountry[]> {
+  const response = await fetch(
+    `${baseUrl}/api/dataSets/${COUNTRY_PROFILE_DATASET}?fields=organisationUnits[id,displayName,code,level]`,
+    { headers: authHeader ? { Authorization: authHeader } : {} }
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to fetch dataset organisation units: ${response.status} ${response.statusText}`);
+  }
+
+  const data: { organisationUnits?: BatchCountry[] } = await response.json();
+  return (data.organisationUnits || [])
+    .filter(unit => unit.level === 3 || SUBNATIONAL_COUNTRY_CODES.includes(unit.code))
+    .filter(unit => !isExcludedCountry(unit.code))
+    .sort((a, b) => a.code.localeCompare(b.code));
+}
+
+async function startDevServer(): Promise<ViteDevServer> {
+  // The app reads its DHIS2 connection from VITE_ variables in development
+  process.env.VITE_DHIS2_BASE_URL = baseUrl;
+  if (token) process.env.VITE_DHIS2_TOKEN = token;
+  if (username) process.env.VITE_DHIS2_USERNAME = username;
+  if (password) process.env.VITE_DHIS2_PASSWORD = password;
+
+  const server = await createServer({ server: { port: 5180 }, logLevel: 'warn' });
+  await server.listen();
+  return server;
+}
+
+async function printCountry(browser: Browser, appUrl: string, country: BatchCountry, file: string): Promise<void> {
+  const page = await browser.newPage();
+  try {
+    await page.setViewport({ width: 1280, height: 1800 });
+    // PrintButton calls window.print() once snapshots are ready; record it instead of opening a dialog
+    await page.evaluateOnNewDocument(() => {
+      (window as unknown as { __printRequested: boolean }).__printRequested = false;
+      window.print = () => {
+        (window as unknown as { __printRequested: boolean }).__printRequested = true;
+      };
+    });
+
+    const url = new URL(appUrl);
+    url.searchParams.set('country', country.code);
+    url.searchParams.set('period', options.period!);
+    // Always set, so the profiles do not follow the interface language of the DHIS2 user
+    url.searchParams.set('locale', options.locale || 'en');
+    await page.goto(url.toString(), { waitUntil: 'networkidle0', timeout: timeoutMs });
+
+    // CountryProfile publishes its readiness once data, charts, sources and map images have settled
+    await page.waitForSelector('html[data-profile-status="ready"], html[data-profile-status="error"]', { timeout: timeoutMs });
+    const detail: ProfileReadyDetail | undefined = await page.evaluate(() => window.wmrProfileReady);
+    if (!detail) {
+      throw new Error('Profile readiness was not published');
+    }
+    if (detail.status === 'error') {
+      throw new Error(detail.errors.map(error => `${error.section}: ${error.message}`).join('; '));
+    }
+
+    // Same flow as a user clicking Print: prepareSnapshots() then window.print()
+    // Matched by data-action, as the button text follows the profile language
+    await page.click('[data-action="print"]');
+    await page.waitForFunction(
+      () => (window as unknown as { __printRequested: boolean }).__printRequested,
+      { timeout: timeoutMs }
+    );
+    // Let React render the snapshot images before printing
+    await page.evaluate(() => new Promise(resolve => requestAnimationFrame(() => requestAnimationFrame(resolve))));
+    await page.waitForNetworkIdle({ idleTime: 500, timeout: timeoutMs });
+
+    await page.pdf({ path: file, format: 'A4', printBackground: true });
+  } finally {
+    await page.close();
+  }
+}
+
+async function main() {
+  if (!baseUrl) {
+    throw new Error('--base-url (or DHIS2_BASE_URL) is required');
+  }
+  if (!options['browser-path']) {
+    throw new Error('--browser-path (or CHROME_PATH) is required');
+  }
+  const edition = getEditionByDataYear(options.period!);
+  if (!edition) {
+    throw new Error(`No WMR edition publishes data year ${options.period}`);
+  }
+
+  const authHeader = getAuthHeader();
+  if (!authHeader && !options['app-url']) {
+    throw new Error('Set DHIS2_TOKEN or DHIS2_USERNAME/DHIS2_PASSWORD to connect the dev server to DHIS2');
+  }
+
+  let countries = await getCountries(authHeader);
+  if (options.countries) {
+    const requested = options.countries.split(',').map(code => code.trim().toUpperCase());
+    const unknown = requested.filter(code => !countries.some(country => country.code === code));
+    if (unknown.length > 0) {
+      throw new Error(`Countries not available for profiles: ${unknown.join(', ')}`);
+    }
+    countries = countries.filter(country => requested.includes(country.code));
+  }
+
+  const outDir = path.resolve(options.out!);
+  fs.mkdirSync(outDir, { recursive: true });
+
+  const devServer = options['app-url'] ? null : await startDevServer();
+  const appUrl = options['app-url'] || devServer!.resolvedUrls!.local[0];
+  const succeeded: ManifestEntry[] = [];
+  const failed: ManifestEntry[] = [];
+  let browser: Browser | null = null;
+  try {
+    browser = await puppeteer.launch({ executablePath: options['browser-path'], headless: true });
+    console.log(`Printing ${countries.length} ${edition.id} profiles from ${appUrl}`);
+    for (const [index, country] of countries.entries()) {
+      const fileName = `${edition.id}_${country.code}_profile${options.locale ? `_${options.locale}` : ''}.pdf`;
+      const progress = `[${index + 1}/${countries.length}] ${country.code}`;
+      try {
+        await printCountry(browser, appUrl, country, path.join(outDir, fileName));
+        succeeded.push({ code: country.code, name: country.displayName, file: fileName });
+        console.log(`${progress} ${fileName}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        failed.push({ code: country.code, name: country.displayName, error: message });
+        console.error(`${progress} failed: ${message}`);
+      }
+    }
+  } finally {
+    await browser?.close();
+    await devServer?.close();
+  }
+
+  const manifest = {
+    edition: edition.id,
+    period: edition.dataYear,
+    locale: options.locale || 'en',
+    baseUrl,
+    generatedAt: new Date().toISOString(),
+    succeeded,
+    failed,
+  };
+  fs.writeFileSync(path.join(outDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+
+  console.log(`${succeeded.length} profiles written to ${outDir}, ${failed.length} failed`);
+  if (failed.length > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error('Batch PDF generation failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
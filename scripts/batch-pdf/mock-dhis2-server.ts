@@ -0,0 +1,216 @@
+/**
+ * Mock DHIS2 Server
+ * Serves deterministic responses for the endpoints the app uses so batch
+ * PDF generation can be run without a real DHIS2 instance.
+ *
+ * Usage: npm run mock:dhis2 -- [--port 8090] [--fail-country MLI]
+ */
+
+import http from 'http';
+import { parseArgs } from 'util';
+import { COUNTRY_PROFILE_DATASET, SUBNATIONAL_COUNTRY_CODES } from '../../src/config/countries';
+
+interface MockOrgUnit {
+  id: string;
+  code: string;
+  displayName: string;
+  shortName: string;
+  level: number;
+  path: string;
+  parentId: string | null;
+}
+
+const GLOBAL_ID = 'mockGlobal1';
+const REGION_ID = 'mockAfro001';
+
+function orgUnit(id: string, code: string, name: string, level: number, parent: MockOrgUnit | null): MockOrgUnit {
+  return {
+    id,
+    code,
+    displayName: name,
+    shortName: name,
+    level,
+    path: `${parent ? parent.path : ''}/${id}`,
+    parentId: parent ? parent.id : null,
+  };
+}
+
+const globalUnit = orgUnit(GLOBAL_ID, 'GLOBAL', 'Global', 1, null);
+const regionUnit = orgUnit(REGION_ID, 'AFR', 'African Region', 2, globalUnit);
+const tanzania = orgUnit('mockTza0001', 'TZA', 'United Republic of Tanzania', 3, regionUnit);
+
+const ORG_UNITS: MockOrgUnit[] = [
+  globalUnit,
+  regionUnit,
+  orgUnit('mockBfa0001', 'BFA', 'Burkina Faso', 3, regionUnit),
+  orgUnit('mockGha0001', 'GHA', 'Ghana', 3, regionUnit),
+  orgUnit('mockMli0001', 'MLI', 'Mali', 3, regionUnit),
+  orgUnit('mockNga0001', 'NGA', 'Nigeria', 3, regionUnit),
+  // Excluded from the country list, only its level 4 entities are listed
+  tanzania,
+  orgUnit('mockTza0041', SUBNATIONAL_COUNTRY_CODES[0], 'Tanzania (Mainland)', 4, tanzania),
+  orgUnit('mockTza0042', SUBNATIONAL_COUNTRY_CODES[1], 'Tanzania (Zanzibar)', 4, tanzania),
+];
+
+const { values: options } = parseArgs({
+  options: {
+    port: { type: 'string', default: process.env.MOCK_DHIS2_PORT || '8090' },
+    'fail-country': { type: 'string', default: 'MLI' },
+  },
+});
+const port = Number(options.port);
+// Analytics requests for this country fail, to exercise the failure manifest
+const failCountry = ORG_UNITS.find(unit => unit.code === options['fail-country']);
+
+// Stable pseudo-random value per data element, org unit and period
+function mockValue(dx: string, ou: string, pe: string): string {
+  let hash = 0;
+  for (const char of `${dx}.${ou}.${pe}`) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  // Spread consecutive periods so chart series are not flat
+  hash = Math.imul(hash ^ (hash >>> 16), 0x45d9f3b) >>> 0;
+  return String(hash % 100000);
+}
+
+function getDimension(url: URL, name: string): string[] {
+  const dimension = url.searchParams.getAll('dimension').find(value => value.startsWith(`${name}:`));
+  return dimension ? dimension.slice(name.length + 1).split(';').filter(Boolean) : [];
+}
+
+function analytics(url: URL) {
+  const dx = getDimension(url, 'dx');
+  const ou = getDimension(url, 'ou');
+  const pe = getDimension(url, 'pe');
+  const rows: string[][] = [];
+  dx.forEach(dataElement => ou.forEach(unit => pe.forEach(period => {
+    rows.push([dataElement, unit, period, mockValue(dataElement, unit, period)]);
+  })));
+  return {
+    headers: [
+      { name: 'dx', column: 'Data', valueType: 'TEXT' },
+      { name: 'ou', column: 'Organisation unit', valueType: 'TEXT' },
+      { name: 'pe', column: 'Period', valueType: 'TEXT' },
+      { name: 'value', column: 'Value', valueType: 'NUMBER' },
+    ],
+    rows,
+    metaData: {
+      items: Object.fromEntries([
+        ...ou.map(id => [id, { name: ORG_UNITS.find(unit => unit.id === id)?.displayName || id }]),
+        ...pe.map(period => [period, { name: period }]),
+      ]),
+      dimensions: { dx, ou, pe },
+    },
+  };
+}
+
+function toApiOrgUnit(unit: MockOrgUnit) {
+  return {
+    id: unit.id,
+    code: unit.code,
+    displayName: unit.displayName,
+    shortName: unit.shortName,
+    level: unit.level,
+    path: unit.path,
+  };
+}
+
+// Returns [status, body]; a null body is sent as an empty 404
+function route(url: URL): [number, unknown] {
+  const path = url.pathname.replace(/^.*?\/api\//, '/api/');
+
+  if (path === '/api/me') {
+    return [200, {
+      id: 'mockUser001',
+      displayName: 'Mock User',
+      username: 'mock',
+      settings: { keyUiLocale: 'en', keyDbLocale: 'en' },
+      organisationUnits: [toApiOrgUnit(globalUnit)],
+    }];
+  }
+
+  if (path === `/api/dataSets/${COUNTRY_PROFILE_DATASET}`) {
+    return [200, { organisationUnits: ORG_UNITS.filter(unit => unit.level >= 3).map(toApiOrgUnit) }];
+  }
+
+  if (path === '/api/analytics') {
+    if (failCountry && getDimension(url, 'ou').includes(failCountry.id)) {
+      return [500, { httpStatus: 'Internal Server Error', message: 'Mock analytics failure' }];
+    }
+    return [200, analytics(url)];
+  }
+
+  const orgUnitMatch = path.match(/^\/api\/organisationUnits\/([^/]+)$/);
+  if (orgUnitMatch) {
+    const unit = ORG_UNITS.find(candidate => candidate.id === orgUnitMatch[1]);
+    if (!unit) return [404, null];
+    const parent = ORG_UNITS.find(candidate => candidate.id === unit.parentId);
+    return [200, {
+      code: unit.code,
+      ...(parent ? { parent: { id: parent.id, code: parent.code, displayName: parent.displayName } } : {}),
+    }];
+  }
+
+  // Every data element is numeric, so the conformance check reports the text elements.
+  // Names carry the requested locale so localized labels can be told apart.
+  if (path === '/api/dataElements') {
+    const ids = url.searchParams.get('filter')?.match(/^id:in:\[(.*)\]$/)?.[1].split(',') || [];
+    const locale = url.searchParams.get('locale') || 'en';
+    return [200, {
+      dataElements: ids.map(id => ({
+        id,
+        displayName: `Mock ${id} (${locale})`,
+        displayShortName: `${id} (${locale})`,
+        valueType: 'NUMBER',
+        aggregationType: 'SUM',
+      })),
+    }];
+  }
+
+  if (path.startsWith('/api/dataElements/')) {
+    return [200, { comment: 'Mock DHIS2 source' }];
+  }
+
+  const optionSetMatch = path.match(/^\/api\/optionSets\/([^/]+)$/);
+  if (optionSetMatch) {
+    return [200, { id: optionSetMatch[1], options: [] }];
+  }
+
+  if (path.startsWith('/api/sqlViews/')) {
+    return [200, { listGrid: { headers: [], rows: [] } }];
+  }
+
+  // No dataStore namespaces, so the app uses its built-in definitions
+  return [404, null];
+}
+
+const server = http.createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  const [status, body] = route(url);
+  console.log(`${status} ${req.method} ${url.pathname}${url.search}`);
+
+  if (body === null) {
+    res.writeHead(status);
+    res.end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+});
+
+server.listen(port, () => {
+  console.log(`Mock DHIS2 server listening on http://localhost:${port}`);
+  if (failCountry) {
+    console.log(`Analytics requests for ${failCountry.code} will fail with 500`);
+  }
+});
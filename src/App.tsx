@@ -1,40 +1,101 @@
 import React, { useState, useEffect } from 'react';
-import { DHIS2Provider } from './context/DHIS2Context';
+import { DHIS2Provider, useDHIS2 } from './context/DHIS2Context';
 import { Header } from './components/Header';
 import { CountrySelector } from './components/CountrySelector';
 import { CountryProfile } from './components/CountryProfile';
+import { ProfileComparison } from './components/ProfileComparison';
+import { RegionalDashboard } from './components/RegionalDashboard';
+import { CompletenessMatrix } from './components/CompletenessMatrix';
+import { MetadataConformancePanel } from './components/MetadataConformancePanel';
 import { Country } from './types/dhis2';
+import { dhis2Service } from './services/dhis2Service';
+import { SnapshotOpenButton } from './components/SnapshotOpenButton';
+import { ProfileSnapshot } from './types/snapshot';
+import { WifiOff, X } from 'lucide-react';
+import { getAvailableEditions, getDefaultEdition, isAvailablePeriod } from './config/wmrEditions';
+import { labelService } from './services/labelService';
+import { DEFAULT_LOCALE, matchSupportedLocale } from './config/locales';
+
+/**
+ * Locale chosen for the session (?locale= or the selector), else the DHIS2 user's UI language
+ */
+function getSessionLocale(uiLocale?: string): string {
+  return sessionStorage.getItem('locale') || matchSupportedLocale(uiLocale) || DEFAULT_LOCALE;
+}
 
 function AppContent() {
   const [selectedCountry, setSelectedCountry] = useState<Country | null>(null);
-  const [selectedYear, setSelectedYear] = useState<string>('2024');
+  const { isProduction, user } = useDHIS2();
+  const [selectedYear, setSelectedYear] = useState<string>(getDefaultEdition().dataYear);
   const [availableCountries, setAvailableCountries] = useState<Country[]>([]);
   const [urlParamsProcessed, setUrlParamsProcessed] = useState(false);
-  const [invalidYearMessage, setInvalidYearMessage] = useState<string>('');
+  // Supported years listed when the period parameter is not accepted
+  const [invalidYearOptions, setInvalidYearOptions] = useState<string>('');
+  const [comparePeriod, setComparePeriod] = useState<string | null>(null);
+  const [view, setView] = useState<'profile' | 'region' | 'completeness'>('profile');
+  // Bumped by "Refresh data" to remount the views so they reload from DHIS2
+  const [dataVersion, setDataVersion] = useState(0);
+  // Offline snapshot being viewed; DHIS2 is not used while one is open
+  const [snapshot, setSnapshot] = useState<ProfileSnapshot | null>(null);
+  const [locale, setLocale] = useState(DEFAULT_LOCALE);
+  // Views remount when the data is refreshed or the language is switched
+  const viewKey = `${dataVersion}-${locale}`;
 
   // Read URL parameters on mount
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
     const period = params.get('period');
 
-    // Check if period is provided and is not '2024'
-    if (period && period !== '2024') {
+    // Label locale, e.g. ?locale=fr; kept for the session like country and period
+    const localeParam = params.get('locale');
+    if (localeParam) {
+      sessionStorage.setItem('locale', localeParam);
+    }
+
+    // Check if period is provided and matches an available WMR edition
+    if (period && !isAvailablePeriod(period, isProduction)) {
       // Invalid year provided - clear country selection and show message
+      const supportedYears = getAvailableEditions(isProduction).map(edition => edition.dataYear).join(', ');
       setSelectedCountry(null);
-      setInvalidYearMessage('The year parameter is not accepted. Only 2024 is supported. Please select a country from the dropdown.');
+      setInvalidYearOptions(supportedYears);
       // Clear the invalid period from URL
       params.delete('period');
       const newURL = params.toString() 
         ? `${window.location.pathname}?${params.toString()}`
         : window.location.pathname;
       window.history.replaceState({}, '', newURL);
-    } else if (period === '2024') {
-      setSelectedYear('2024');
-      setInvalidYearMessage('');
+    } else if (period) {
+      setSelectedYear(period);
+      setInvalidYearOptions('');
     } else {
-      setInvalidYearMessage('');
+      setInvalidYearOptions('');
     }
-  }, []);
+  }, [isProduction]);
+
+  // The locale is applied before the views render, so they load their labels in it
+  const applyLocale = (code: string) => {
+    labelService.setLocale(code);
+    setLocale(code);
+  };
+
+  // Follow the DHIS2 user's UI language once signed in, unless a locale was chosen
+  useEffect(() => {
+    if (snapshot) return;
+    const code = getSessionLocale(user?.uiLocale);
+    labelService.setLocale(code);
+    setLocale(code);
+  }, [user, snapshot]);
+
+  // Language and text direction of the page, so Arabic is laid out right to left on screen and in print
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = labelService.getDirection();
+  }, [locale]);
+
+  const handleLocaleChange = (code: string) => {
+    sessionStorage.setItem('locale', code);
+    applyLocale(code);
+  };
 
   // Clean URL parameters from address bar
   const cleanURL = () => {
@@ -54,7 +115,7 @@ function AppContent() {
     const countryCode = params.get('country');
 
     // Don't auto-select country if there's an invalid year message
-    if (invalidYearMessage) {
+    if (invalidYearOptions) {
       setUrlParamsProcessed(true);
       // Clean URL after processing
       cleanURL();
@@ -69,13 +130,12 @@ function AppContent() {
         // Valid country code found, auto-select it
         setSelectedCountry(country);
         const period = params.get('period');
-        // Only accept period if it's '2024', ignore all other values
-        if (period === '2024') {
-          setSelectedYear('2024');
-        }
+        // Only accept periods of available editions, ignore all other values
+        const acceptedPeriod = period && isAvailablePeriod(period, isProduction) ? period : getDefaultEdition().dataYear;
+        setSelectedYear(acceptedPeriod);
         // Store in SessionStorage for consistency
         sessionStorage.setItem('country', country.code);
-        sessionStorage.setItem('period', period || '2024');
+        sessionStorage.setItem('period', acceptedPeriod);
       }
       // If country not found, ignore the parameter (user must select manually)
     } else {
@@ -83,7 +143,7 @@ function AppContent() {
       const storedCountry = sessionStorage.getItem('country');
       const storedPeriod = sessionStorage.getItem('period');
       
-      if (storedCountry && storedPeriod) {
+      if (storedCountry && storedPeriod && isAvailablePeriod(storedPeriod, isProduction)) {
         const country = availableCountries.find(c => c.code === storedCountry.toUpperCase());
         if (country) {
           setSelectedCountry(country);
@@ -95,12 +155,12 @@ function AppContent() {
     // Clean URL after processing (remove parameters from address bar)
     cleanURL();
     setUrlParamsProcessed(true);
-  }, [availableCountries, urlParamsProcessed, invalidYearMessage]);
+  }, [availableCountries, urlParamsProcessed, invalidYearOptions, isProduction]);
 
   // Handle country selection from dropdown (store in SessionStorage, don't update URL)
   const handleCountrySelect = (country: Country) => {
     setSelectedCountry(country);
-    setInvalidYearMessage(''); // Clear any error message when user selects
+    setInvalidYearOptions(''); // Clear any error message when user selects
     const currentYear = selectedYear;
     
     // Store in SessionStorage instead of URL
@@ -114,6 +174,10 @@ function AppContent() {
   // Handle year selection from dropdown (store in SessionStorage, don't update URL)
   const handleYearSelect = (year: string) => {
     setSelectedYear(year);
+    // Comparing an edition with itself is meaningless
+    if (comparePeriod === year) {
+      setComparePeriod(null);
+    }
     
     // Store in SessionStorage if a country is already selected
     if (selectedCountry) {
@@ -125,32 +189,140 @@ function AppContent() {
     cleanURL();
   };
 
+  const handleRefreshData = async () => {
+    await dhis2Service.refreshData();
+    setDataVersion(version => version + 1);
+  };
+
+  const handleSnapshotOpen = (openedSnapshot: ProfileSnapshot) => {
+    dhis2Service.setOfflineSnapshot(openedSnapshot);
+    applyLocale(openedSnapshot.labels?.locale || DEFAULT_LOCALE);
+    setSnapshot(openedSnapshot);
+    setSelectedCountry(openedSnapshot.country);
+    setSelectedYear(openedSnapshot.period);
+    setComparePeriod(null);
+    setView('profile');
+  };
+
+  const handleSnapshotClose = () => {
+    dhis2Service.setOfflineSnapshot(null);
+    applyLocale(getSessionLocale(user?.uiLocale));
+    setSnapshot(null);
+    setSelectedCountry(null);
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-blue-50 print:bg-white print:shadow-none print:m-0 print:p-0 print-exact">
-      <Header />
+      <Header
+        onRefreshData={snapshot ? undefined : handleRefreshData}
+        locale={locale}
+        onLocaleChange={snapshot ? undefined : handleLocaleChange}
+      />
       
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 print:max-w-full print:mx-0 print:px-0 print:py-4">
-        <CountrySelector
-          selectedCountry={selectedCountry}
-          onCountrySelect={handleCountrySelect}
-          selectedYear={selectedYear}
-          onYearSelect={handleYearSelect}
-          onCountriesLoaded={setAvailableCountries}
-        />
+        {snapshot ? (
+          <div className="flex items-center justify-between gap-4 bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6 print:hidden">
+            <div className="flex items-center gap-3 text-sm text-amber-800">
+              <WifiOff className="h-4 w-4 flex-shrink-0" />
+              <span>
+                {labelService.get('app.snapshotBanner', {
+                  country: snapshot.country.displayName,
+                  edition: snapshot.edition,
+                  date: new Date(snapshot.exportedAt).toLocaleString(labelService.getNumberLocale()),
+                })}
+              </span>
+            </div>
+            <button
+              onClick={handleSnapshotClose}
+              className="flex items-center gap-1 px-3 py-1 text-sm text-amber-800 hover:bg-amber-100 rounded-md transition-colors"
+            >
+              <X className="h-4 w-4" />
+              <span>{labelService.get('app.closeSnapshot')}</span>
+            </button>
+          </div>
+        ) : (
+          <CountrySelector
+            selectedCountry={selectedCountry}
+            onCountrySelect={handleCountrySelect}
+            selectedYear={selectedYear}
+            onYearSelect={handleYearSelect}
+            onCountriesLoaded={setAvailableCountries}
+            comparePeriod={comparePeriod}
+            onCompareSelect={setComparePeriod}
+          />
+        )}
         
-        {selectedCountry && (
+        {selectedCountry && !snapshot && (
+          <div className="flex bg-white rounded-lg shadow-sm border border-gray-200 p-1 mb-6 max-w-xl print:hidden">
+            {([['profile', 'app.viewProfile'], ['region', 'app.viewRegion'], ['completeness', 'profile.dataCompleteness']] as const).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setView(value)}
+                className={`flex-1 px-4 py-2 text-sm font-medium rounded-md transition-all ${
+                  view === value
+                    ? 'bg-blue-500 text-white shadow-sm'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+                }`}
+              >
+                {labelService.get(label)}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {selectedCountry && view === 'region' && (
+          <RegionalDashboard
+            key={viewKey}
+            country={selectedCountry}
+            countries={availableCountries}
+            period={selectedYear}
+            onCountrySelect={(country) => {
+              handleCountrySelect(country);
+              setView('profile');
+            }}
+          />
+        )}
+
+        {selectedCountry && view === 'completeness' && (
+          <div className="space-y-6">
+            <MetadataConformancePanel key={`${viewKey}-${selectedYear}`} period={selectedYear} />
+            <CompletenessMatrix
+              key={viewKey}
+              country={selectedCountry}
+              countries={availableCountries}
+              period={selectedYear}
+              onCountrySelect={(country) => {
+                handleCountrySelect(country);
+                setView('profile');
+              }}
+            />
+          </div>
+        )}
+
+        {selectedCountry && view === 'profile' && comparePeriod && (
+          <ProfileComparison
+            key={viewKey}
+            country={selectedCountry}
+            period={selectedYear}
+            comparePeriod={comparePeriod}
+          />
+        )}
+
+        {selectedCountry && view === 'profile' && !comparePeriod && (
           <CountryProfile 
+            key={snapshot ? snapshot.exportedAt : viewKey}
             country={selectedCountry} 
             period={selectedYear}
+            snapshot={snapshot || undefined}
           />
         )}
         
         {!selectedCountry && (
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
             <div className="max-w-md mx-auto">
-              {invalidYearMessage && (
+              {invalidYearOptions && (
                 <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
-                  <p className="text-sm text-amber-800">{invalidYearMessage}</p>
+                  <p className="text-sm text-amber-800">{labelService.get('app.invalidYear', { years: invalidYearOptions })}</p>
                 </div>
               )}
               <div className="bg-blue-500 w-32 h-32 rounded-full flex items-center justify-center mx-auto mb-6">
@@ -203,12 +375,18 @@ function AppContent() {
                 
               </div>
               <h3 className="text-xl font-semibold text-gray-900 mb-3">
-                Welcome to <br/>
-                World Malaria Report<br/>Country Profile
+                {labelService.get('app.welcome')}<br/>
+                {labelService.get('app.welcomeName')}
               </h3>
               <p className="text-gray-600 mb-6">
-                Select a country from the dropdown above to view the malaria epidemiological profile, intervention policies, and treatment guidelines.
+                {labelService.get('app.welcomeHint')}
               </p>
+              <p className="text-sm text-gray-500 mb-3">
+                {labelService.get('app.snapshotHint')}
+              </p>
+              <div className="flex justify-center">
+                <SnapshotOpenButton onOpen={handleSnapshotOpen} />
+              </div>
               
             </div>
           </div>
@@ -0,0 +1,205 @@
+import { useEffect, useState } from 'react';
+import { Grid3x3, AlertCircle, Download } from 'lucide-react';
+import { Country } from '../types/dhis2';
+import {
+  COMPLETENESS_STATUS_LABELS,
+  CompletenessMatrix as CompletenessMatrixData,
+  CompletenessStatus,
+  dataCompletenessService,
+} from '../services/dataCompletenessService';
+import { downloadCsv } from '../utils/csvExport';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface CompletenessMatrixProps {
+  country: Country;
+  countries: Country[];
+  period: string;
+  onCountrySelect?: (country: Country) => void;
+}
+
+const CELL_COLORS: Record<CompletenessStatus, string> = {
+  present: 'bg-green-500',
+  zero: 'bg-yellow-400',
+  invalid: 'bg-purple-500',
+  missing: 'bg-red-200',
+};
+
+const STATUSES: CompletenessStatus[] = ['present', 'zero', 'invalid', 'missing'];
+
+export function CompletenessMatrix({ country, countries, period, onCountrySelect }: CompletenessMatrixProps) {
+  const [matrix, setMatrix] = useState<CompletenessMatrixData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sectionId, setSectionId] = useState('all');
+  const [search, setSearch] = useState('');
+  const [incompleteOnly, setIncompleteOnly] = useState(false);
+
+  useEffect(() => {
+    setMatrix(null);
+    setError(null);
+    dataCompletenessService.getMatrix(countries, period)
+      .then(setMatrix)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load data completeness'));
+  }, [countries, period]);
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12">
+        <div className="text-center">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Failed to load data completeness</h3>
+          <p className="text-gray-600">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!matrix) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12">
+        <div className="text-center">
+          <LoadingSpinner size="lg" />
+          <p className="mt-4 text-gray-600">Loading data completeness for {countries.length} countries...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const sections = Array.from(new Map(matrix.columns.map(column => [column.sectionId, column.sectionLabel])).entries());
+  const missingCount = (statuses: CompletenessStatus[]) => statuses.filter(status => status === 'missing').length;
+
+  // Filters narrow the columns first, so totals and "incomplete only" follow the selected section
+  let columnIndexes = matrix.columns
+    .map((column, index) => ({ column, index }))
+    .filter(({ column }) => sectionId === 'all' || column.sectionId === sectionId)
+    .map(({ index }) => index);
+  let rows = matrix.rows
+    .filter(row => row.country.shortName.toLowerCase().includes(search.trim().toLowerCase()))
+    .map(row => ({ ...row, statuses: columnIndexes.map(index => row.statuses[index]) }));
+
+  if (incompleteOnly) {
+    const keptColumns = columnIndexes.map((_, position) => rows.some(row => row.statuses[position] === 'missing'));
+    columnIndexes = columnIndexes.filter((_, position) => keptColumns[position]);
+    rows = rows
+      .map(row => ({ ...row, statuses: row.statuses.filter((_, position) => keptColumns[position]) }))
+      .filter(row => missingCount(row.statuses) > 0);
+  }
+
+  const columns = columnIndexes.map(index => matrix.columns[index]);
+
+  const handleExport = () => {
+    downloadCsv(`WMR_${period}_completeness_matrix.csv`, dataCompletenessService.toMatrixCsvRows({ period, columns, rows }));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="bg-gradient-to-r from-blue-600 to-blue-700 px-6 py-4 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Grid3x3 className="h-6 w-6 text-white" />
+          <div>
+            <h2 className="text-xl font-bold text-white">Data completeness</h2>
+            <p className="text-blue-100 text-sm">
+              {matrix.rows.length} countries &middot; {matrix.columns.length} data elements &middot; {period}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={rows.length === 0}
+          className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-blue-700 bg-white rounded-md hover:bg-blue-50 disabled:opacity-50 transition-colors print:hidden"
+        >
+          <Download className="h-4 w-4" />
+          <span>Export CSV</span>
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 px-6 py-3 border-b border-gray-200 text-sm">
+        <select
+          value={sectionId}
+          onChange={event => setSectionId(event.target.value)}
+          className="px-3 py-1.5 border border-gray-300 rounded-md"
+        >
+          <option value="all">All sections</option>
+          {sections.map(([id, label]) => (
+            <option key={id} value={id}>{label}</option>
+          ))}
+        </select>
+        <input
+          type="search"
+          value={search}
+          onChange={event => setSearch(event.target.value)}
+          placeholder="Filter countries"
+          className="px-3 py-1.5 border border-gray-300 rounded-md"
+        />
+        <label className="flex items-center space-x-2 text-gray-700">
+          <input type="checkbox" checked={incompleteOnly} onChange={event => setIncompleteOnly(event.target.checked)} />
+          <span>Incomplete only</span>
+        </label>
+        <div className="flex items-center gap-3 ml-auto text-gray-600">
+          {STATUSES.map(status => (
+            <span key={status} className="flex items-center gap-1">
+              <span className={`inline-block h-3 w-3 rounded-sm ${CELL_COLORS[status]}`} />
+              {COMPLETENESS_STATUS_LABELS[status]}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="text-xs border-separate" style={{ borderSpacing: '1px' }}>
+          <thead>
+            <tr>
+              <th className="sticky left-0 bg-white text-left py-2 px-3 font-medium text-gray-700">Country</th>
+              <th className="text-right py-2 px-2 font-medium text-gray-700">Missing</th>
+              {columns.map(column => (
+                <th key={column.uid} className="w-3 p-0" title={`${column.sectionLabel}: ${column.label} (${column.uid})`} />
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.country.id} className={row.country.id === country.id ? 'bg-blue-50' : ''}>
+                <td className="sticky left-0 bg-inherit py-1 px-3 text-gray-900 whitespace-nowrap">
+                  {onCountrySelect ? (
+                    <button onClick={() => onCountrySelect(row.country)} className="text-left hover:text-blue-600 hover:underline">
+                      {row.country.shortName}
+                    </button>
+                  ) : row.country.shortName}
+                </td>
+                <td className="py-1 px-2 text-right text-gray-700">{missingCount(row.statuses)}</td>
+                {row.statuses.map((status, position) => (
+                  <td
+                    key={columns[position].uid}
+                    className={`w-3 h-4 p-0 ${CELL_COLORS[status]}`}
+                    title={`${row.country.shortName} - ${columns[position].label}: ${COMPLETENESS_STATUS_LABELS[status]}`}
+                  />
+                ))}
+              </tr>
+            ))}
+            {rows.length === 0 ? (
+              <tr>
+                <td colSpan={columns.length + 2} className="py-6 px-3 text-center text-gray-500">
+                  No countries match the filters
+                </td>
+              </tr>
+            ) : (
+              <tr>
+                <td className="sticky left-0 bg-white py-1 px-3 font-medium text-gray-700 whitespace-nowrap">Countries missing</td>
+                <td className="py-1 px-2 text-right font-medium text-gray-700">
+                  {rows.reduce((total, row) => total + missingCount(row.statuses), 0)}
+                </td>
+                {columns.map((column, position) => {
+                  const missing = rows.filter(row => row.statuses[position] === 'missing').length;
+                  return (
+                    <td key={column.uid} className="p-0 align-bottom" title={`${column.label}: missing for ${missing} of ${rows.length} countries`}>
+                      <div className="w-3 bg-red-400" style={{ height: `${Math.round((missing / rows.length) * 24)}px` }} />
+                    </td>
+                  );
+                })}
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,68 +1,171 @@
-import React, { useState, useEffect } from 'react';
-import { Country, CountryProfileData } from '../types/dhis2';
+import React, { useState, useEffect, useCallback } from 'react';
+import { flushSync } from 'react-dom';
+import { Country, CountryProfileData, MapData } from '../types/dhis2';
 import { dataProcessingService } from '../services/dataProcessingService';
 import { dhis2Service } from '../services/dhis2Service';
+import { profileDefinitionService } from '../services/profileDefinitionService';
 import { LoadingSpinner } from './LoadingSpinner';
-import { Chart1 } from './Chart1';
-import { Chart2 } from './Chart2';
-import { Chart3 } from './Chart3';
-import { Chart4 } from './Chart4';
-import { Chart5 } from './Chart5';
-import { Chart6 } from './Chart6';
-import { Chart7 } from './Chart7';
-import { Chart8 } from './Chart8';
-import { Chart9 } from './Chart9';
+import { NoData, ProfileNumber, ProfilePercentage } from './ProfileValue';
+import { ProfileChart } from './ProfileChart';
 import { getChartSource } from '../utils/chartSourceUtils';
 import { isE2025Country } from '../config/dhis2DataElements';
-import { MapPin, TrendingUp, TrendingDown, Users, Activity, Shield, Pill, AlertCircle, RefreshCw, Printer } from 'lucide-react';
+import { getEditionId, getMapImagePath } from '../config/wmrEditions';
+import { MAP_DATA_ELEMENTS } from '../config/dataElementTypes';
+import { CHART_SPECS, ChartContext } from '../config/chartSpecs';
+import { getRegionLabelKey } from '../config/whoRegions';
+import { MapPin, TrendingUp, TrendingDown, Users, Activity, Shield, Pill, AlertCircle, RefreshCw, Printer, ClipboardCheck } from 'lucide-react';
+import { useDHIS2 } from '../context/DHIS2Context';
 import { useSnapshots } from '../utils/useSnapshots';
+import { useProfileReadiness, useSectionStatus } from '../utils/useProfileReadiness';
 import { PrintButton } from './PrintButton';
+import { PdfDownloadButton } from './PdfDownloadButton';
+import { downloadProfilePdf } from '../utils/profilePdf';
+import { WorkbookDownloadButton } from './WorkbookDownloadButton';
+import { profileWorkbookService } from '../services/profileWorkbookService';
+import { downloadXlsx } from '../utils/xlsxExport';
+import { SnapshotExportButton } from './SnapshotExportButton';
+import { profileSnapshotService } from '../services/profileSnapshotService';
+import { ProfileSnapshot } from '../types/snapshot';
+import { DataCompletenessPanel } from './DataCompletenessPanel';
+import { ValidationFlag } from './ValidationFlag';
+import { ValidationWarning, validationService } from '../services/validationService';
+import { ProfileValuePath } from '../config/validationRules';
+import { labelService } from '../services/labelService';
+import { numberFormatService } from '../services/numberFormatService';
+import { getLabelKeys } from '../config/labels';
 
 interface CountryProfileProps {
   country: Country;
   period: string;
+  snapshot?: ProfileSnapshot; // Render from an offline snapshot instead of DHIS2
 }
 
-interface MapData {
-  map1Name: string;
-  map2Name: string;
-  map1Legend: string;
-  map2Legend: string;
-  map1Year: string;
-  map2Year: string;
+// Readiness sections of the map images, named after the MapData field holding their file name
+const MAP_IMAGE_SECTIONS = ['map1Name', 'map1Legend', 'map2Name', 'map2Legend'];
+
+// Modelled estimates and their bounds are rounded to significant figures
+const formatEstimate = (value: number) => numberFormatService.estimate(value);
+
+// Italicise genus and species names, which are kept in Latin in every locale. The text
+// can come from the dataStore or DHIS2, so it is rendered as text nodes, never as HTML.
+function italicizeSpecies(text: string): React.ReactNode[] {
+  // The capturing group keeps the names at the odd indexes of the split
+  return text.split(/\b(Plasmodium|Anopheles|P\. falciparum|P\. vivax)\b/g)
+    .map((part, index) => index % 2 === 1 ? <em key={index}>{part}</em> : part);
 }
 
-export function CountryProfile({ country, period }: CountryProfileProps) {
+export function CountryProfile({ country, period, snapshot }: CountryProfileProps) {
   const [data, setData] = useState<CountryProfileData | null>(null);
   const [mapData, setMapData] = useState<MapData | null>(null);
   const [regionHeader, setRegionHeader] = useState<string>('');
   const [orgUnitDetails, setOrgUnitDetails] = useState<any>(null);
-  const [chart9HasData, setChart9HasData] = useState<boolean>(true);
+  // Charts left out because they have nothing to show (see ChartSpec.hideWhenEmpty)
+  const [emptyCharts, setEmptyCharts] = useState<Record<string, boolean>>({});
+  // Start years chosen on screen, by chart id
+  const [chartStartYears, setChartStartYears] = useState<Record<string, number>>({});
+  // Charts print from the start year of their spec, whatever was chosen on screen
+  const [printLayout, setPrintLayout] = useState(false);
+  const [showCompleteness, setShowCompleteness] = useState(false);
+  // The completeness check is a review tool: shown in development, and to admins in production
+  const { isProduction, isAdmin } = useDHIS2();
+  const canCheckCompleteness = !isProduction || isAdmin;
+  // Series validation warnings by chart id, checked once every chart has loaded
+  const [chartWarnings, setChartWarnings] = useState<Record<string, ValidationWarning[]>>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { setChartRef, getChartPng, prepareSnapshots } = useSnapshots();
-  const { setContainerRef } = useSnapshots();
+  const { setChartRef, getChartPng, getChartCanvas, prepareSnapshots } = useSnapshots();
+  const { reportSection, status: profileStatus } = useProfileReadiness(country.code, period);
+  // Profile data is still pending until the first load has finished
+  useSectionStatus('profile', loading || (!data && !error), error, reportSection);
   
   // Chart source states
  
-  const [chart1Source, setChart1Source] = useState<string>('');
   const [chart2Source, setChart2Source] = useState<string>('');
-  const [chart3Source, setChart3Source] = useState<string>('');
-  const [chart4Source, setChart4Source] = useState<string>('');
-  const [chart5Source, setChart5Source] = useState<string>('');
-  const [chart6Source, setChart6Source] = useState<string>('');
-  const [chart7Source, setChart7Source] = useState<string>('');
-  const [chart8Source, setChart8Source] = useState<string>('');
-  const [chart9Source, setChart9Source] = useState<string>('');
   const [combinedChartSource, setCombinedChartSource] = useState<string>('');
 
+  // Source lines under single charts, by chart id
+  const chartSources: Record<string, string> = { chart2: chart2Source };
+
+  const handleChartDataAvailability = useCallback((chartId: string, hasData: boolean) => {
+    setEmptyCharts(current => (current[chartId] ?? false) === !hasData ? current : { ...current, [chartId]: !hasData });
+  }, []);
+
+  const handleChartStartYearChange = useCallback((chartId: string, startYear: number) => {
+    setChartStartYears(current => ({ ...current, [chartId]: startYear }));
+  }, []);
+
+  // Rendered synchronously, so the charts are redrawn before the page is printed or captured
+  const showPrintLayout = () => flushSync(() => setPrintLayout(true));
+
+  useEffect(() => {
+    // Also covers printing from the browser menu
+    const handleBeforePrint = () => flushSync(() => setPrintLayout(true));
+    const handleAfterPrint = () => setPrintLayout(false);
+    window.addEventListener('beforeprint', handleBeforePrint);
+    window.addEventListener('afterprint', handleAfterPrint);
+    return () => {
+      window.removeEventListener('beforeprint', handleBeforePrint);
+      window.removeEventListener('afterprint', handleAfterPrint);
+    };
+  }, []);
+
   const handlePrintPrepare = async () => {
+    // Reset by afterprint once the print dialog closes
+    showPrintLayout();
     await prepareSnapshots();
   };
 
+  const handlePdfDownload = async () => {
+    const content = document.getElementById('country-profile-content');
+    if (!content) return;
+
+    showPrintLayout();
+    try {
+      const chartPngs = await prepareSnapshots();
+      const snapshots = new Map<HTMLCanvasElement, string>();
+      chartPngs.forEach((png, chartId) => {
+        const canvas = getChartCanvas(chartId);
+        if (canvas) snapshots.set(canvas, png);
+      });
+
+      const editionId = getEditionId(period);
+      await downloadProfilePdf(content, snapshots, `${editionId}_${country.code}_profile.pdf`);
+    } finally {
+      setPrintLayout(false);
+    }
+  };
+
+  const handleWorkbookDownload = async () => {
+    if (!data) return;
+    const entry = await profileWorkbookService.loadEntry(country, period, { profile: data, region: orgUnitDetails?.parent?.code || '' });
+    downloadXlsx(`${profileWorkbookService.getFileName(country.code, period)}.xlsx`, await profileWorkbookService.toSheets(entry, period));
+  };
+
+  const handleSnapshotExport = async () => {
+    if (!data || !orgUnitDetails || !mapData) return;
+    profileSnapshotService.downloadSnapshot(await profileSnapshotService.createSnapshot({
+      country,
+      period,
+      profile: data,
+      orgUnit: orgUnitDetails,
+      maps: mapData,
+      sources: { chart2: chart2Source, survey: combinedChartSource },
+      labels: labelService.getSnapshotLabels(),
+    }));
+  };
+
+  useEffect(() => {
+    if (profileStatus === 'ready') {
+      setChartWarnings(validationService.validateRecordedCharts(country.id, period));
+    }
+  }, [profileStatus, country.id, period]);
+
+  const profileWarnings = data ? validationService.validateProfile(data) : [];
+  const warningsFor = (path: ProfileValuePath) => profileWarnings.filter(warning => warning.refs.includes(path));
+
   useEffect(() => {
-    // Reset chart9HasData when country or period changes
-    setChart9HasData(true);
+    // Give every chart another chance when country or period changes
+    setEmptyCharts({});
     loadCountryData();
     loadMapData();
     loadChart2Source();
@@ -73,40 +176,17 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
     setLoading(true);
     setError(null);
     try {
-      const profileData = await dataProcessingService.processCountryData(country.id, period);
+      const profileData = snapshot ? snapshot.profile : await dataProcessingService.processCountryData(country.id, period);
+      await labelService.load(getLabelKeys('profile'));
       setData(profileData);
       
       // Get organization unit details to determine region
-      const orgDetails = await dhis2Service.getOrganisationUnit(country.id);
+      const orgDetails = snapshot ? snapshot.orgUnit : await dhis2Service.getOrganisationUnit(country.id);
       setOrgUnitDetails(orgDetails);
       const currentRegion = orgDetails.parent?.code || '';
       
-      // Map region codes to full names
-      let mappedRegionHeader = '';
-      switch (currentRegion) {
-        case 'AFR':
-          mappedRegionHeader = 'African Region';
-          break;
-        case 'EMR':
-          mappedRegionHeader = 'Eastern Mediterranean Region';
-          break;
-        case 'EUR':
-          mappedRegionHeader = 'European Region';
-          break;
-        case 'AMR':
-          mappedRegionHeader = 'Region of the Americas';
-          break;
-        case 'SEAR':
-          mappedRegionHeader = 'South-East Asia Region';
-          break;
-        case 'WPR':
-          mappedRegionHeader = 'Western Pacific Region';
-          break;
-        default:
-          mappedRegionHeader = '';
-      }
-      
-      setRegionHeader(mappedRegionHeader);
+      const regionLabel = getRegionLabelKey(currentRegion);
+      setRegionHeader(regionLabel ? labelService.get(regionLabel) : '');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load country data');
     } finally {
@@ -114,77 +194,69 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
     }
   };
 
-  const loadMapData = async () => {
-    try {
-      // Map data elements
-      const mapElements = [
-        'f2u7VciFSDC', // Map1Year
-        'JEPMG4n2TIN', // Map2Year
-        'PJKhyoOd4C7', // Map1Name
-        'FYt2o1zbOwm', // Map2Name
-        'INwlclks0KQ', // Map1Legend
-        'lnsHnhqAaTj'  // Map2Legend
-      ];
+  // Map file names and years for the profile period
+  const fetchMapData = async (): Promise<MapData> => {
+    const mapElements = Object.values(MAP_DATA_ELEMENTS);
 
-      // Use period-1 for map data elements
-      const mapPeriod = (parseInt(period)).toString();
-      
-      console.log('🗺️ Loading map data:', {
-        period,
-        mapPeriod,
-        countryId: country.id,
-        countryName: country.displayName
-      });
+    // Use period-1 for map data elements
+    const mapPeriod = (parseInt(period)).toString();
+    
+    console.log('🗺️ Loading map data:', {
+      period,
+      mapPeriod,
+      countryId: country.id,
+      countryName: country.displayName
+    });
 
-      const analyticsData = await dhis2Service.getAnalyticsData(
-        mapElements,
-        country.id,
-        mapPeriod
-      );
+    const analyticsData = await dhis2Service.getAnalyticsData(
+      mapElements,
+      country.id,
+      mapPeriod
+    );
 
-      console.log('🗺️ Map analytics data received:', analyticsData);
+    console.log('🗺️ Map analytics data received:', analyticsData.response);
 
-      // Create text data map for map data
-      const textDataMap = new Map<string, string>();
-      analyticsData.rows.forEach(row => {
-        const dataElement = row[0];
-        const rawValue = row[3];
-        textDataMap.set(dataElement, rawValue);
-      });
+    // Get map names and years directly from DHIS2
+    const map1Name = analyticsData.getValue(MAP_DATA_ELEMENTS.map1Name, mapPeriod) || '';
+    const map2Name = analyticsData.getValue(MAP_DATA_ELEMENTS.map2Name, mapPeriod) || '';
+    const map1Legend = analyticsData.getValue(MAP_DATA_ELEMENTS.map1Legend, mapPeriod) || '';
+    const map2Legend = analyticsData.getValue(MAP_DATA_ELEMENTS.map2Legend, mapPeriod) || '';
+    const map1Year = analyticsData.getValue(MAP_DATA_ELEMENTS.map1Year, mapPeriod) || '';
+    const map2Year = analyticsData.getValue(MAP_DATA_ELEMENTS.map2Year, mapPeriod) || '';
 
-      // Get map names and years directly from DHIS2
-      const map1Name = textDataMap.get('PJKhyoOd4C7') || '';
-      const map2Name = textDataMap.get('FYt2o1zbOwm') || '';
-      const map1Legend = textDataMap.get('INwlclks0KQ') || '';
-      const map2Legend = textDataMap.get('lnsHnhqAaTj') || '';
-      const map1Year = textDataMap.get('f2u7VciFSDC') || '';
-      const map2Year = textDataMap.get('JEPMG4n2TIN') || '';
+    console.log('🗺️ Map data extracted:', {
+      map1Name,
+      map2Name,
+      map1Legend,
+      map2Legend,
+      map1Year,
+      map2Year
+    });
 
-      console.log('🗺️ Map data extracted:', {
-        map1Name,
-        map2Name,
-        map1Legend,
-        map2Legend,
-        map1Year,
-        map2Year
-      });
+    return {
+      map1Name,
+      map2Name,
+      map1Legend,
+      map2Legend,
+      map1Year,
+      map2Year
+    };
+  };
 
-      const mapDataObj = {
-        map1Name,
-        map2Name,
-        map1Legend,
-        map2Legend,
-        map1Year,
-        map2Year
-      };
+  const loadMapData = async () => {
+    reportSection('maps', 'loading');
+    // Images are reported again once the new map names are known
+    MAP_IMAGE_SECTIONS.forEach(section => reportSection(section, null));
+    try {
+      const mapDataObj = snapshot ? snapshot.maps : await fetchMapData();
+      const { map1Name, map2Name, map1Legend, map2Legend } = mapDataObj;
 
-      // Log the image paths that will be used (always use period for path)
+      // Log the image paths that will be used (folder comes from the edition registry)
       // Using relative paths for DHIS2 app deployment
-      const basePath = './img';
       const currentLocation = typeof window !== 'undefined' ? window.location.href : 'unknown';
       
       if (map1Name) {
-        const relativePath = `${basePath}/${period}/${map1Name}`;
+        const relativePath = getMapImagePath(period, map1Name);
         const fullUrl = typeof window !== 'undefined' ? new URL(relativePath, window.location.href).href : relativePath;
         console.log('🗺️ Map 1 image path:', {
           relativePath,
@@ -195,7 +267,7 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
         });
       }
       if (map2Name) {
-        const relativePath = `${basePath}/${period}/${map2Name}`;
+        const relativePath = getMapImagePath(period, map2Name);
         const fullUrl = typeof window !== 'undefined' ? new URL(relativePath, window.location.href).href : relativePath;
         console.log('🗺️ Map 2 image path:', {
           relativePath,
@@ -206,7 +278,7 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
         });
       }
       if (map1Legend) {
-        const relativePath = `${basePath}/${period}/${map1Legend}`;
+        const relativePath = getMapImagePath(period, map1Legend);
         const fullUrl = typeof window !== 'undefined' ? new URL(relativePath, window.location.href).href : relativePath;
         console.log('🗺️ Map 1 legend path:', {
           relativePath,
@@ -217,7 +289,7 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
         });
       }
       if (map2Legend) {
-        const relativePath = `${basePath}/${period}/${map2Legend}`;
+        const relativePath = getMapImagePath(period, map2Legend);
         const fullUrl = typeof window !== 'undefined' ? new URL(relativePath, window.location.href).href : relativePath;
         console.log('🗺️ Map 2 legend path:', {
           relativePath,
@@ -228,49 +300,63 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
         });
       }
 
+      // Each rendered image reports when it has loaded or failed (legends are only shown with their map)
+      const renderedImages = [
+        map1Name ? 'map1Name' : '',
+        map1Name && map1Legend ? 'map1Legend' : '',
+        map2Name ? 'map2Name' : '',
+        map2Name && map2Legend ? 'map2Legend' : '',
+      ].filter(Boolean);
+      renderedImages.forEach(section => reportSection(section, 'loading'));
       setMapData(mapDataObj);
+      reportSection('maps', 'ready');
     } catch (err) {
       console.error('Failed to load map data:', err);
+      reportSection('maps', 'error', err instanceof Error ? err.message : 'Failed to load map data');
     }
   };
 
   const loadChart2Source = async () => {
+    reportSection('chart2Source', 'loading');
     try {
-      const source = await getChartSource(["nvqnQcEbuPA", "o4iFtiN0YZh"], country.id);
+      let source = snapshot?.sources.chart2;
+      if (source === undefined) {
+        const { charts } = await profileDefinitionService.getDefinitions();
+        source = await getChartSource(charts.chartSources.chart2 || [], country.id);
+      }
       setChart2Source(source);
+      reportSection('chart2Source', 'ready');
     } catch (error) {
       console.error('Failed to load Chart 2 source:', error);
       setChart2Source('');
+      reportSection('chart2Source', 'error', error instanceof Error ? error.message : 'Failed to load Chart 2 source');
     }
   };
 
   const loadChartSurveySources = async () => {
+    reportSection('surveySources', 'loading');
+    if (snapshot) {
+      setCombinedChartSource(snapshot.sources.survey);
+      reportSection('surveySources', 'ready');
+      return;
+    }
     try {
       // Collect survey data element UIDs
-      const surveyDataElementUIDs = new Set<string>();
-      
-      // Add the survey data element UIDs
-      surveyDataElementUIDs.add('nvqnQcEbuPA');
-      surveyDataElementUIDs.add('o4iFtiN0YZh');
-      surveyDataElementUIDs.add('IGQENa04DFm');
-      surveyDataElementUIDs.add('heI5NQZqZRW');
-      surveyDataElementUIDs.add('ZnSwOwcQt52');
-      surveyDataElementUIDs.add('gZrHErmb74i');
+      const { charts } = await profileDefinitionService.getDefinitions();
+      const surveyDataElementUIDs = new Set<string>(charts.surveySources.common);
       
       // Check if this is an E2025 country
       const isE2025 = isE2025Country(country.code);
       
-      if (isE2025) {
-        surveyDataElementUIDs.add('LSlfr3VzLCp');
-      } else {
-        surveyDataElementUIDs.add('SQWZ8POEhMI');
-      }
+      const variantUIDs = isE2025 ? charts.surveySources.e2025 : charts.surveySources.nonE2025;
+      variantUIDs.forEach(uid => surveyDataElementUIDs.add(uid));
       
       // Convert Set to Array
       const uniqueUIDs = Array.from(surveyDataElementUIDs);
       
       // Aggregate sources from multiple calls (in pairs)
       const allSources: string[] = [];
+      const failedPairs: string[] = [];
       
       // Call getChartSource for pairs of UIDs
       for (let i = 0; i < uniqueUIDs.length; i += 2) {
@@ -282,6 +368,7 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
           }
         } catch (error) {
           console.error(`Failed to load source for pair ${i}:`, error);
+          failedPairs.push(pair.join(', '));
         }
       }
       
@@ -292,9 +379,15 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
         .join('; ');
       
       setCombinedChartSource(combinedSource);
+      if (failedPairs.length > 0) {
+        reportSection('surveySources', 'error', `Failed to load sources for ${failedPairs.join('; ')}`);
+      } else {
+        reportSection('surveySources', 'ready');
+      }
     } catch (error) {
       console.error('Failed to load combined chart survey sources:', error);
       setCombinedChartSource('');
+      reportSection('surveySources', 'error', error instanceof Error ? error.message : 'Failed to load survey sources');
     }
   };
 
@@ -307,7 +400,7 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12">
         <div className="text-center">
           <LoadingSpinner size="lg" />
-          <p className="mt-4 text-gray-600">Loading country profile for {country.displayName}...</p>
+          <p className="mt-4 text-gray-600">{labelService.get('profile.loading', { country: country.displayName })}</p>
         </div>
       </div>
     );
@@ -318,14 +411,14 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12">
         <div className="text-center">
           <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
-          <h3 className="text-lg font-semibold text-gray-900 mb-2">Error Loading Data</h3>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">{labelService.get('profile.loadError')}</h3>
           <p className="text-gray-600 mb-6">{error}</p>
           <button
             onClick={loadCountryData}
-            className="inline-flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+            className="inline-flex items-center space-x-2 rtl:space-x-reverse px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
           >
             <RefreshCw className="h-4 w-4" />
-            <span>Retry</span>
+            <span>{labelService.get('profile.retry')}</span>
           </button>
         </div>
       </div>
@@ -334,6 +427,13 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
 
   if (!data) return null;
 
+  const chartContext: ChartContext = {
+    countryCode: country.code,
+    region: orgUnitDetails?.parent?.code || '',
+    paramEpiDisplay: data.cases.paramEpiDisplay,
+  };
+  const visibleCharts = CHART_SPECS.filter(spec => !emptyCharts[spec.id]);
+
   return (
     <div id="country-profile-content" className="space-y-8 print:space-y-3 print-exact">
       {/* Country Header */}
@@ -345,8 +445,25 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
               <p className="text-blue-100 text-lg mt-1 print:text-sm print:text-black print:opacity-75 avoid-break keep-with-next">{regionHeader}</p>
             )}
           </div>
-          <div className="print:hidden">
+          <div className="flex items-center gap-2 print:hidden">
+            {!snapshot && (
+              <SnapshotExportButton onExport={handleSnapshotExport} disabled={profileStatus !== 'ready'} />
+            )}
+            <PdfDownloadButton onDownload={handlePdfDownload} />
+            <WorkbookDownloadButton onDownload={handleWorkbookDownload} disabled={profileStatus !== 'ready'} />
             <PrintButton onPrepare={handlePrintPrepare} />
+            {canCheckCompleteness && (
+              <button
+                onClick={() => setShowCompleteness(show => !show)}
+                disabled={profileStatus !== 'ready'}
+                aria-pressed={showCompleteness}
+                className="inline-flex items-center gap-2 rounded-xl border px-3 py-2 text-sm shadow-sm hover:bg-neutral-50 disabled:opacity-60 print:hidden"
+                title={labelService.get(profileStatus !== 'ready' ? 'profile.availableWhenLoaded' : 'profile.dataCompletenessHint')}
+              >
+                <ClipboardCheck size={16} />
+                {labelService.get('profile.dataCompleteness')}
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -361,7 +478,7 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
         }`}>
           {/* Map 1 and Legend 1 - Only show if map1Name exists */}
           {mapData?.map1Name && (() => {
-            const map1Path = `./img/${period}/${mapData.map1Name}`;
+            const map1Path = getMapImagePath(period, mapData.map1Name);
             const map1FullUrl = typeof window !== 'undefined' ? new URL(map1Path, window.location.href).href : map1Path;
             console.log('🖼️ Constructing Map 1 path:', {
               relativePath: map1Path,
@@ -380,6 +497,7 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
                       src={map1Path}
                       alt={`Map 1: ${mapData.map1Name.replace('.png', '')} for ${country.displayName} in ${mapData.map1Year || period}`}
                       onLoad={() => {
+                        reportSection('map1Name', 'ready');
                         console.log('✅ Map 1 loaded successfully:', {
                           relativePath: map1Path,
                           fullUrl: map1FullUrl,
@@ -391,6 +509,7 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
                       onError={(e) => {
                         const target = e.target as HTMLImageElement;
                         const failedPath = target.src;
+                        reportSection('map1Name', 'error', `Map image not found: ${map1Path}`);
                         console.error('❌ Map 1 image failed to load:', {
                           failedPath,
                           relativePath: map1Path,
@@ -408,7 +527,7 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
                               <svg class="h-8 w-8 mx-auto mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 10v4 M12 18h.01 M21 12a9 9 0 1 1-18 0 9 9 0 0 1 18 0Z" />
                               </svg>
-                              <p class="text-sm">Map not available</p>
+                              <p class="text-sm">${labelService.get('profile.mapNotAvailable')}</p>
                             </div>
                           `;
                         }
@@ -416,7 +535,7 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
                     />
                   </div>
                   {mapData?.map1Legend && (() => {
-                    const legend1Path = `./img/${period}/${mapData.map1Legend}`;
+                    const legend1Path = getMapImagePath(period, mapData.map1Legend);
                     const legend1FullUrl = typeof window !== 'undefined' ? new URL(legend1Path, window.location.href).href : legend1Path;
                     console.log('🖼️ Constructing Map 1 Legend path:', {
                       relativePath: legend1Path,
@@ -433,7 +552,9 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
                           alt={`Legend for Map 1: ${mapData.map1Name.replace('.png', '')}`}
                           className="max-w-full max-h-full object-contain"
                           style={{ height: '200px' }}
+                          onLoad={() => reportSection('map1Legend', 'ready')}
                           onError={(e) => {
+                            reportSection('map1Legend', 'error', `Map legend not found: ${legend1Path}`);
                             const target = e.target as HTMLImageElement;
                             const failedPath = target.src;
                             console.error('❌ Map 1 legend failed to load:', {
@@ -452,7 +573,7 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
                                   <svg class="h-8 w-8 mx-auto mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                     <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 10v4 M12 18h.01 M21 12a9 9 0 1 1-18 0 9 9 0 0 1 18 0Z" />
                                   </svg>
-                                  <p class="text-sm">Legend not available</p>
+                                  <p class="text-sm">${labelService.get('profile.legendNotAvailable')}</p>
                                 </div>
                               `;
                             }
@@ -463,7 +584,7 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
                   })()}
                 </div>
                 {mapData?.map1Year && mapData.map1Year !== period && (
-                  <p className="text-sm text-gray-600 mb-2 print:text-xs">Year: {mapData.map1Year}</p>
+                  <p className="text-sm text-gray-600 mb-2 print:text-xs">{labelService.get('profile.year')}: {mapData.map1Year}</p>
                 )}
               </div>
             );
@@ -471,7 +592,7 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
 
           {/* Map 2 and Legend 2 - Only show if map2Name exists */}
           {mapData?.map2Name && (() => {
-            const map2Path = `./img/${period}/${mapData.map2Name}`;
+            const map2Path = getMapImagePath(period, mapData.map2Name);
             const map2FullUrl = typeof window !== 'undefined' ? new URL(map2Path, window.location.href).href : map2Path;
             console.log('🖼️ Constructing Map 2 path:', {
               relativePath: map2Path,
@@ -492,6 +613,7 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
                       className="max-w-full max-h-full object-contain"
                       style={{ width: '410px', height: '260px' }}
                       onLoad={() => {
+                        reportSection('map2Name', 'ready');
                         console.log('✅ Map 2 loaded successfully:', {
                           relativePath: map2Path,
                           fullUrl: map2FullUrl,
@@ -501,6 +623,7 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
                       onError={(e) => {
                         const target = e.target as HTMLImageElement;
                         const failedPath = target.src;
+                        reportSection('map2Name', 'error', `Map image not found: ${map2Path}`);
                         console.error('❌ Map 2 image failed to load:', {
                           failedPath,
                           relativePath: map2Path,
@@ -518,7 +641,7 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
                               <svg class="h-8 w-8 mx-auto mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 10v4 M12 18h.01 M21 12a9 9 0 1 1-18 0 9 9 0 0 1 18 0Z" />
                               </svg>
-                              <p class="text-sm">Map not available</p>
+                              <p class="text-sm">${labelService.get('profile.mapNotAvailable')}</p>
                             </div>
                           `;
                         }
@@ -526,7 +649,7 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
                     />
                   </div>
                   {mapData?.map2Legend && (() => {
-                    const legend2Path = `./img/${period}/${mapData.map2Legend}`;
+                    const legend2Path = getMapImagePath(period, mapData.map2Legend);
                     const legend2FullUrl = typeof window !== 'undefined' ? new URL(legend2Path, window.location.href).href : legend2Path;
                     console.log('🖼️ Constructing Map 2 Legend path:', {
                       relativePath: legend2Path,
@@ -543,7 +666,9 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
                           alt={`Legend for Map 2: ${mapData.map2Name.replace('.png', '')}`}
                           className="max-w-full max-h-full object-contain"
                           style={{ height: '200px' }}
+                          onLoad={() => reportSection('map2Legend', 'ready')}
                           onError={(e) => {
+                            reportSection('map2Legend', 'error', `Map legend not found: ${legend2Path}`);
                             const target = e.target as HTMLImageElement;
                             const failedPath = target.src;
                             console.error('❌ Map 2 legend failed to load:', {
@@ -562,7 +687,7 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
                                   <svg class="h-8 w-8 mx-auto mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                     <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 10v4 M12 18h.01 M21 12a9 9 0 1 1-18 0 9 9 0 0 1 18 0Z" />
                                   </svg>
-                                  <p class="text-sm">Legend not available</p>
+                                  <p class="text-sm">${labelService.get('profile.legendNotAvailable')}</p>
                                 </div>
                               `;
                             }
@@ -573,7 +698,7 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
                   })()}
                 </div>
                 {mapData?.map2Year && mapData.map2Year !== period && (
-                  <p className="text-sm text-gray-600 mb-2 print:text-xs">Year: {mapData.map2Year}</p>
+                  <p className="text-sm text-gray-600 mb-2 print:text-xs">{labelService.get('profile.year')}: {mapData.map2Year}</p>
                 )}
               </div>
             );
@@ -584,62 +709,62 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
       {/* Epidemiological Profile Section */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden avoid-break print:shadow-none print:border print-panel-b">
         <div className="bg-green-500 px-6 py-4 print:bg-white print:border-b print:border-gray-300">
-          <h2 className="text-xl font-bold text-white flex items-center space-x-3 print:text-base print:text-black print:leading-snug">
+          <h2 className="text-xl font-bold text-white flex items-center space-x-3 rtl:space-x-reverse print:text-base print:text-black print:leading-snug">
             <TrendingUp className="h-6 w-6 print:h-5 print:w-5" />
-            <span>I. Epidemiological Profile</span>
+            <span>{labelService.get('profile.epidemiologicalProfile')}</span>
           </h2>
         </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 divide-y lg:divide-y-0 lg:divide-x divide-gray-200 print:grid-cols-2">
+        <div className="grid grid-cols-1 lg:grid-cols-2 divide-y lg:divide-y-0 lg:divide-x rtl:lg:divide-x-reverse divide-gray-200 print:grid-cols-2">
           {/* Population Distribution */}
           <div className="p-6 print:p-3">
-            <div className="flex items-center space-x-2 mb-4 print:mb-2">
+            <div className="flex items-center space-x-2 rtl:space-x-reverse mb-4 print:mb-2">
               <Users className="h-5 w-5 text-blue-500 print:h-4 print:w-4" />
-              <h3 className="font-semibold text-gray-900 print:text-xs print:leading-snug">Population Distribution (Country reported)</h3>
+              <h3 className="font-semibold text-gray-900 print:text-xs print:leading-snug">{labelService.get('profile.populationDistribution')}</h3>
             </div>
             <div className="overflow-x-auto avoid-break">
               <table className="w-full text-sm print:text-xs">
                 <thead>
                   <tr className="bg-gray-50 avoid-break">
-                    <th className="text-left py-2 px-3 font-medium text-gray-700 print:py-1 print:px-2">Population</th>
-                    <th className="text-right py-2 px-3 font-medium text-gray-700 print:py-1 print:px-2">{period}</th>
-                    <th className="text-right py-2 px-3 font-medium text-gray-700 print:py-1 print:px-2">%</th>
+                    <th className="text-start py-2 px-3 font-medium text-gray-700 print:py-1 print:px-2">{labelService.get('profile.population')}</th>
+                    <th className="text-end py-2 px-3 font-medium text-gray-700 print:py-1 print:px-2">{period}</th>
+                    <th className="text-end py-2 px-3 font-medium text-gray-700 print:py-1 print:px-2">%</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200 avoid-break">
                   <tr className="avoid-break">
-                    <td className="py-2 px-3 text-gray-700 print:py-1 print:px-2">High transmission ({'>'}1 case per 1000 population)</td>
-                    <td className="py-2 px-3 text-right font-medium print:py-1 print:px-2">
-                      {data.population.highTransmission > 0 ? dataProcessingService.formatNumber(data.population.highTransmission) : '-'}
+                    <td className="py-2 px-3 text-gray-700 print:py-1 print:px-2">{labelService.get('profile.highTransmission')}</td>
+                    <td className="py-2 px-3 text-end font-medium print:py-1 print:px-2">
+                      <ProfileNumber value={data.population.highTransmission} warnings={warningsFor('population.highTransmission')} />
                     </td>
-                    <td className="py-2 px-3 text-right font-medium text-blue-600 print:py-1 print:px-2">
-                      {data.population.total > 0 ? dataProcessingService.calculatePercentage(data.population.highTransmission, data.population.total) : '-'}
+                    <td className="py-2 px-3 text-end font-medium text-blue-600 print:py-1 print:px-2">
+                      <ProfilePercentage part={data.population.highTransmission} total={data.population.total} />
                     </td>
                   </tr>
                   <tr className="avoid-break">
-                    <td className="py-2 px-3 text-gray-700 print:py-1 print:px-2">Low transmission (0-1 case per 1000 population)</td>
-                    <td className="py-2 px-3 text-right font-medium print:py-1 print:px-2">
-                      {data.population.lowTransmission > 0 ? dataProcessingService.formatNumber(data.population.lowTransmission) : '-'}
+                    <td className="py-2 px-3 text-gray-700 print:py-1 print:px-2">{labelService.get('profile.lowTransmission')}</td>
+                    <td className="py-2 px-3 text-end font-medium print:py-1 print:px-2">
+                      <ProfileNumber value={data.population.lowTransmission} warnings={warningsFor('population.lowTransmission')} />
                     </td>
-                    <td className="py-2 px-3 text-right font-medium text-green-600 print:py-1 print:px-2">
-                      {data.population.total > 0 ? dataProcessingService.calculatePercentage(data.population.lowTransmission, data.population.total) : '-'}
+                    <td className="py-2 px-3 text-end font-medium text-green-600 print:py-1 print:px-2">
+                      <ProfilePercentage part={data.population.lowTransmission} total={data.population.total} />
                     </td>
                   </tr>
                   <tr className="avoid-break">
-                    <td className="py-2 px-3 text-gray-700 print:py-1 print:px-2">Malaria free (0 cases)</td>
-                    <td className="py-2 px-3 text-right font-medium print:py-1 print:px-2">
-                      {data.population.malariaFree > 0 ? dataProcessingService.formatNumber(data.population.malariaFree) : '-'}
+                    <td className="py-2 px-3 text-gray-700 print:py-1 print:px-2">{labelService.get('profile.malariaFree')}</td>
+                    <td className="py-2 px-3 text-end font-medium print:py-1 print:px-2">
+                      <ProfileNumber value={data.population.malariaFree} warnings={warningsFor('population.malariaFree')} />
                     </td>
-                    <td className="py-2 px-3 text-right font-medium text-emerald-600 print:py-1 print:px-2">
-                      {data.population.total > 0 ? dataProcessingService.calculatePercentage(data.population.malariaFree, data.population.total) : '-'}
+                    <td className="py-2 px-3 text-end font-medium text-emerald-600 print:py-1 print:px-2">
+                      <ProfilePercentage part={data.population.malariaFree} total={data.population.total} />
                     </td>
                   </tr>
                   <tr className="bg-gray-50 font-semibold avoid-break">
-                    <td className="py-2 px-3 text-gray-900 print:py-1 print:px-2">Total</td>
-                    <td className="py-2 px-3 text-right print:py-1 print:px-2">
-                      {data.population.total > 0 ? dataProcessingService.formatNumber(data.population.total) : '-'}
+                    <td className="py-2 px-3 text-gray-900 print:py-1 print:px-2">{labelService.get('profile.populationTotal')}</td>
+                    <td className="py-2 px-3 text-end print:py-1 print:px-2">
+                      <ProfileNumber value={data.population.total} warnings={warningsFor('population.total')} />
                     </td>
-                    <td className="py-2 px-3 text-right print:py-1 print:px-2">{data.population.total > 0 ? '100%' : '-'}</td>
+                    <td className="py-2 px-3 text-end print:py-1 print:px-2">{data.population.total ? numberFormatService.percent(100, { minimumFractionDigits: 0 }) : <NoData />}</td>
                   </tr>
                 </tbody>
               </table>
@@ -648,22 +773,22 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
 
           {/* Parasites and Vectors */}
           <div className="p-6 print:p-3">
-            <div className="flex items-center space-x-2 mb-4 print:mb-2">
+            <div className="flex items-center space-x-2 rtl:space-x-reverse mb-4 print:mb-2">
               <Activity className="h-5 w-5 text-red-500 print:h-4 print:w-4" />
-              <h3 className="font-semibold text-gray-900 print:text-xs print:leading-snug">Parasites and Vectors</h3>
+              <h3 className="font-semibold text-gray-900 print:text-xs print:leading-snug">{labelService.get('profile.parasitesAndVectors')}</h3>
             </div>
             <div className="space-y-4 print:space-y-2">
               <div className="bg-red-50 rounded-lg p-4 print:p-2 avoid-break">
-                <h4 className="font-medium text-gray-900 mb-2 print:text-xs print:mb-1">Major <em>Plasmodium Species</em></h4>
+                <h4 className="font-medium text-gray-900 mb-2 print:text-xs print:mb-1">{italicizeSpecies(labelService.get('profile.majorPlasmodiumSpecies'))}</h4>
                 <div className="text-sm text-gray-700 print:text-xs">
-                  <p><em>P. falciparum</em><sup>*</sup>: <span className="font-semibold text-amber-600">{data.parasites.pFalciparum > 0 ? `${data.parasites.pFalciparum}%` : '-'}</span></p>
-                  <p><em>P. vivax</em>: <span className="font-semibold text-orange-600">{data.parasites.pVivax > 0 ? `${data.parasites.pVivax}%` : '-'}</span></p>
+                  <p><em>P. falciparum</em><sup>*</sup>: <span className="font-semibold text-amber-600"><ProfileNumber value={data.parasites.pFalciparum} warnings={warningsFor('parasites.pFalciparum')} format={value => numberFormatService.percent(value, { minimumFractionDigits: 0 })} /></span></p>
+                  <p><em>P. vivax</em>: <span className="font-semibold text-orange-600"><ProfileNumber value={data.parasites.pVivax} warnings={warningsFor('parasites.pVivax')} format={value => numberFormatService.percent(value, { minimumFractionDigits: 0 })} /></span></p>
                 </div>
                 <div className="mt-3 pt-2 border-t border-red-200 print:mt-1 print:pt-1">
-                <p className="text-xs text-gray-600 italic print:text-[10px]"><sup>*</sup>Includes mixed infections and other species of <span className="not-italic">Plasmodium</span></p>                </div>
+                <p className="text-xs text-gray-600 italic print:text-[10px]"><sup>*</sup>{labelService.get('profile.plasmodiumFootnote')}</p>                </div>
               </div>
               <div className="bg-blue-50 rounded-lg p-4 print:p-2 avoid-break">
-                <h4 className="font-medium text-gray-900 mb-2 print:text-xs print:mb-1">Major <em>Anopheles</em> Species</h4>
+                <h4 className="font-medium text-gray-900 mb-2 print:text-xs print:mb-1">{italicizeSpecies(labelService.get('profile.majorAnophelesSpecies'))}</h4>
                 <div className="flex flex-wrap gap-2 min-h-[24px] print:min-h-[16px]">
                   {data.parasites.anophelesSpecies.length > 0 ? (
                     <span className="text-xs text-gray-700 print:text-[10px]">
@@ -678,33 +803,33 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
           </div>
         </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 divide-y lg:divide-y-0 lg:divide-x divide-gray-200 border-t border-gray-200 print:grid-cols-2">
+        <div className="grid grid-cols-1 lg:grid-cols-2 divide-y lg:divide-y-0 lg:divide-x rtl:lg:divide-x-reverse divide-gray-200 border-t border-gray-200 print:grid-cols-2">
           {/* Reported Cases and Deaths */}
           <div className="p-6 print:p-3">
-            <div className="flex items-center space-x-2 mb-4 print:mb-2">
+            <div className="flex items-center space-x-2 rtl:space-x-reverse mb-4 print:mb-2">
               <AlertCircle className="h-5 w-5 text-orange-500 print:h-4 print:w-4" />
-              <h3 className="font-semibold text-gray-900 print:text-xs print:leading-snug">Reported Cases and Deaths</h3>
+              <h3 className="font-semibold text-gray-900 print:text-xs print:leading-snug">{labelService.get('profile.reportedCasesAndDeaths')}</h3>
             </div>
             <div className="space-y-3 print:space-y-2">
               {/* Always show: Total cases (presumed + confirmed) */}
               <div className="flex justify-between items-center p-3 bg-orange-50 rounded-lg print:p-2 avoid-break">
-                <span className="text-sm text-gray-700 print:text-xs">Total cases (presumed + confirmed)</span>
-                <span className="font-semibold text-orange-600 print:text-xs">{dataProcessingService.formatNumber(data.cases.totalCases)}</span>
+                <span className="text-sm text-gray-700 print:text-xs">{labelService.get('profile.totalCases')}</span>
+                <span className="font-semibold text-orange-600 print:text-xs"><ProfileNumber value={data.cases.totalCases} warnings={warningsFor('cases.totalCases')} /></span>
               </div>
               
               {/* If param_EPI_DISPLAY=1, show Total confirmed cases */}
               {data.cases.paramEpiDisplay === 1 && (
                 <div className="flex justify-between items-center p-3 bg-blue-50 rounded-lg print:p-2 avoid-break">
-                  <span className="text-sm text-gray-700 print:text-xs">Total confirmed cases</span>
-                  <span className="font-semibold text-blue-600 print:text-xs">{dataProcessingService.formatNumber(data.cases.totalConfirmedCases)}</span>
+                  <span className="text-sm text-gray-700 print:text-xs">{labelService.get('profile.totalConfirmedCases')}</span>
+                  <span className="font-semibold text-blue-600 print:text-xs"><ProfileNumber value={data.cases.totalConfirmedCases} warnings={warningsFor('cases.totalConfirmedCases')} /></span>
                 </div>
               )}
               
               {/* If param_EPI_DISPLAY=2 OR 3, show Reported indigenous confirmed cases */}
               {(data.cases.paramEpiDisplay === 2 || data.cases.paramEpiDisplay === 3) && (
                 <div className="flex justify-between items-center p-3 bg-indigo-50 rounded-lg print:p-2 avoid-break">
-                  <span className="text-sm text-gray-700 print:text-xs">Reported indigenous confirmed cases</span>
-                  <span className="font-semibold text-indigo-600 print:text-xs">{dataProcessingService.formatNumber(data.cases.reportedIndigenousConfirmedCases)}</span>
+                  <span className="text-sm text-gray-700 print:text-xs">{labelService.get('profile.reportedIndigenousConfirmedCases')}</span>
+                  <span className="font-semibold text-indigo-600 print:text-xs"><ProfileNumber value={data.cases.reportedIndigenousConfirmedCases} warnings={warningsFor('cases.reportedIndigenousConfirmedCases')} /></span>
                 </div>
               )}
               
@@ -713,17 +838,17 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
                 <>
                   <div className="flex justify-between items-center p-3 bg-blue-50 rounded-lg print:p-2 avoid-break">
                     <span className="text-sm text-gray-700 print:text-xs">
-                      Confirmed cases from public sector (health facility){data.cases.footnoteText ? '*' : ''}
+                      {labelService.get('profile.confirmedHealthFacility')}{data.cases.footnoteText ? '*' : ''}
                     </span>
-                    <span className="font-semibold text-blue-600 print:text-xs">{dataProcessingService.formatNumber(data.cases.confirmedHealthFacility)}</span>
+                    <span className="font-semibold text-blue-600 print:text-xs"><ProfileNumber value={data.cases.confirmedHealthFacility} warnings={warningsFor('cases.confirmedHealthFacility')} /></span>
                   </div>
                   <div className="flex justify-between items-center p-3 bg-green-50 rounded-lg print:p-2 avoid-break">
-                    <span className="text-sm text-gray-700 print:text-xs">Confirmed cases at community level</span>
-                    <span className="font-semibold text-green-600 print:text-xs">{dataProcessingService.formatNumber(data.cases.confirmedCommunity)}</span>
+                    <span className="text-sm text-gray-700 print:text-xs">{labelService.get('profile.confirmedCommunity')}</span>
+                    <span className="font-semibold text-green-600 print:text-xs"><ProfileNumber value={data.cases.confirmedCommunity} warnings={warningsFor('cases.confirmedCommunity')} /></span>
                   </div>
                   <div className="flex justify-between items-center p-3 bg-purple-50 rounded-lg print:p-2 avoid-break">
-                    <span className="text-sm text-gray-700 print:text-xs">Confirmed cases from private sector</span>
-                    <span className="font-semibold text-purple-600 print:text-xs">{dataProcessingService.formatNumber(data.cases.confirmedPrivateSector)}</span>
+                    <span className="text-sm text-gray-700 print:text-xs">{labelService.get('profile.confirmedPrivateSector')}</span>
+                    <span className="font-semibold text-purple-600 print:text-xs"><ProfileNumber value={data.cases.confirmedPrivateSector} warnings={warningsFor('cases.confirmedPrivateSector')} /></span>
                   </div>
                 </>
               )}
@@ -731,15 +856,15 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
               {/* Deaths section */}
               {data.cases.paramEpiDisplay === 1 && (
                 <div className="flex justify-between items-center p-3 bg-red-50 rounded-lg print:p-2 avoid-break">
-                  <span className="text-sm text-gray-700 print:text-xs">Reported deaths</span>
-                  <span className="font-semibold text-red-600 print:text-xs">{dataProcessingService.formatNumber(data.cases.reportedDeaths)}</span>
+                  <span className="text-sm text-gray-700 print:text-xs">{labelService.get('profile.reportedDeaths')}</span>
+                  <span className="font-semibold text-red-600 print:text-xs"><ProfileNumber value={data.cases.reportedDeaths} warnings={warningsFor('cases.reportedDeaths')} /></span>
                 </div>
               )}
               
               {(data.cases.paramEpiDisplay === 2 || data.cases.paramEpiDisplay === 3) && (
                 <div className="flex justify-between items-center p-3 bg-red-50 rounded-lg print:p-2 avoid-break">
-                  <span className="text-sm text-gray-700 print:text-xs">Indigenous deaths</span>
-                  <span className="font-semibold text-red-600 print:text-xs">{dataProcessingService.formatNumber(data.cases.indigenousDeaths)}</span>
+                  <span className="text-sm text-gray-700 print:text-xs">{labelService.get('profile.indigenousDeaths')}</span>
+                  <span className="font-semibold text-red-600 print:text-xs"><ProfileNumber value={data.cases.indigenousDeaths} warnings={warningsFor('cases.indigenousDeaths')} /></span>
                 </div>
               )}
             </div>
@@ -748,21 +873,21 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
           {/* Estimates - conditionally shown */}
           {data.showEstimates && (
             <div className="p-6 print:p-3">
-              <div className="flex items-center space-x-2 mb-4 print:mb-2">
+              <div className="flex items-center space-x-2 rtl:space-x-reverse mb-4 print:mb-2">
                 <TrendingDown className="h-5 w-5 text-indigo-500 print:h-4 print:w-4" />
-                <h3 className="font-semibold text-gray-900 print:text-xs print:leading-snug">WHO Estimates</h3>
+                <h3 className="font-semibold text-gray-900 print:text-xs print:leading-snug">{labelService.get('profile.whoEstimates')}</h3>
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 print:gap-2">
                 {/* Estimated Cases */}
                 <div className="bg-indigo-50 rounded-lg p-6 text-center print:p-3 avoid-break">
                   <div className="text-2xl font-bold text-indigo-600 mb-2 print:text-lg print:mb-1">
-                    {data.estimates.estimatedCases > 0 ? dataProcessingService.formatNumber(data.estimates.estimatedCases) : '-'}
+                    <ProfileNumber value={data.estimates.estimatedCases} warnings={warningsFor('estimates.estimatedCases')} format={formatEstimate} />
                   </div>
-                  <div className="text-sm text-gray-700 mb-3 print:text-xs print:mb-1">Estimated Cases</div>
+                  <div className="text-sm text-gray-700 mb-3 print:text-xs print:mb-1">{labelService.get('profile.estimatedCases')}</div>
                   <div className="text-xs text-gray-600 print:text-[10px]">
-                    Confidence Interval: [
-                    {data.estimates.casesLowerBound > 0 ? dataProcessingService.formatNumber(data.estimates.casesLowerBound) : '-'}, 
-                    {data.estimates.casesUpperBound > 0 ? dataProcessingService.formatNumber(data.estimates.casesUpperBound) : '-'}
+                    {labelService.get('profile.confidenceInterval')}: [
+                    <ProfileNumber value={data.estimates.casesLowerBound} warnings={warningsFor('estimates.casesLowerBound')} format={formatEstimate} />, 
+                    <ProfileNumber value={data.estimates.casesUpperBound} warnings={warningsFor('estimates.casesUpperBound')} format={formatEstimate} />
                     ]
                   </div>
                 </div>
@@ -770,13 +895,13 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
                 {/* Estimated Deaths */}
                 <div className="bg-red-50 rounded-lg p-6 text-center print:p-3 avoid-break">
                   <div className="text-2xl font-bold text-red-600 mb-2 print:text-lg print:mb-1">
-                    {data.estimates.estimatedDeaths > 0 ? dataProcessingService.formatNumber(data.estimates.estimatedDeaths) : '-'}
+                    <ProfileNumber value={data.estimates.estimatedDeaths} warnings={warningsFor('estimates.estimatedDeaths')} format={formatEstimate} />
                   </div>
-                  <div className="text-sm text-gray-700 mb-3 print:text-xs print:mb-1">Estimated Deaths</div>
+                  <div className="text-sm text-gray-700 mb-3 print:text-xs print:mb-1">{labelService.get('profile.estimatedDeaths')}</div>
                   <div className="text-xs text-gray-600 print:text-[10px]">
-                    Confidence Interval: [
-                    {data.estimates.deathsLowerBound > 0 ? dataProcessingService.formatNumber(data.estimates.deathsLowerBound) : '-'}, 
-                    {data.estimates.deathsUpperBound > 0 ? dataProcessingService.formatNumber(data.estimates.deathsUpperBound) : '-'}
+                    {labelService.get('profile.confidenceInterval')}: [
+                    <ProfileNumber value={data.estimates.deathsLowerBound} warnings={warningsFor('estimates.deathsLowerBound')} format={formatEstimate} />, 
+                    <ProfileNumber value={data.estimates.deathsUpperBound} warnings={warningsFor('estimates.deathsUpperBound')} format={formatEstimate} />
                     ]
                   </div>
                 </div>
@@ -788,25 +913,25 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
         {/* Section Header for Panel C - Print Page Break Before */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6 avoid-break keep-with-next print-panel-c-header">
           <h2 className="text-2xl font-bold text-gray-900 mb-2 print:text-xl">
-            II. Intervention policies and strategies
+            {labelService.get('profile.interventionPolicies')}
           </h2>
         </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 divide-y lg:divide-y-0 lg:divide-x divide-gray-200 border-t border-gray-200 print:grid-cols-2">
+        <div className="grid grid-cols-1 lg:grid-cols-2 divide-y lg:divide-y-0 lg:divide-x rtl:lg:divide-x-reverse divide-gray-200 border-t border-gray-200 print:grid-cols-2">
           {/* Interventions and Policies */}
           <div className="p-6 print:p-3">
-            <div className="flex items-center space-x-2 mb-4 print:mb-2">
+            <div className="flex items-center space-x-2 rtl:space-x-reverse mb-4 print:mb-2">
               <Shield className="h-5 w-5 text-green-500 print:h-4 print:w-4" />
-              <h3 className="font-semibold text-gray-900 print:text-xs print:leading-snug">Interventions and Policies</h3>
+              <h3 className="font-semibold text-gray-900 print:text-xs print:leading-snug">{labelService.get('profile.interventionsAndPolicies')}</h3>
             </div>
             <div className="overflow-x-auto avoid-break">
               <table className="w-full text-xs print:text-[10px]">
                 <thead>
                   <tr className="bg-gray-50 avoid-break">
-                    <th className="text-left py-2 px-2 font-medium text-gray-700 print:py-1 print:px-1">Intervention</th>
-                    <th className="text-left py-2 px-2 font-medium text-gray-700 print:py-1 print:px-1">Policies/Strategies</th>
-                    <th className="text-center py-2 px-2 font-medium text-gray-700 print:py-1 print:px-1">Policy</th>
-                    <th className="text-center py-2 px-2 font-medium text-gray-700 print:py-1 print:px-1">Year</th>
+                    <th className="text-start py-2 px-2 font-medium text-gray-700 print:py-1 print:px-1">{labelService.get('profile.intervention')}</th>
+                    <th className="text-start py-2 px-2 font-medium text-gray-700 print:py-1 print:px-1">{labelService.get('profile.policiesStrategies')}</th>
+                    <th className="text-center py-2 px-2 font-medium text-gray-700 print:py-1 print:px-1">{labelService.get('profile.policy')}</th>
+                    <th className="text-center py-2 px-2 font-medium text-gray-700 print:py-1 print:px-1">{labelService.get('profile.year')}</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200 avoid-break">
@@ -839,9 +964,9 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
             {/* Policy Footnotes */}
             <div className="mt-4 pt-3 border-t border-gray-200 print:mt-2 print:pt-1 avoid-break">
               <div className="space-y-1 text-xs text-gray-600 print:text-[10px] print:space-y-0">
-                <p><strong>Yes*</strong> = Policy adopted, but not implemented in {period}, or no data exist to support implementation</p>
-                <p><strong>No</strong> = Policy does not exist or policy has been discontinued</p>
-                <p>Earliest year that policy is adopted was adjusted based on the earliest year that the WHO policy was recommended</p>
+                <p><strong>{labelService.get('profile.yesNotImplemented')}</strong> = {labelService.get('profile.notImplementedFootnote', { period })}</p>
+                <p><strong>{labelService.get('profile.no')}</strong> = {labelService.get('profile.noPolicyFootnote')}</p>
+                <p>{labelService.get('profile.yearAdoptedFootnote')}</p>
               </div>
             </div>
           </div>
@@ -850,30 +975,24 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
           <div className="p-6 space-y-6 print:p-3 print:space-y-3">
             {/* Antimalarial Treatment Policy */}
             <div className="avoid-break">
-              <div className="flex items-center space-x-2 mb-4 print:mb-2">
+              <div className="flex items-center space-x-2 rtl:space-x-reverse mb-4 print:mb-2">
                 <Pill className="h-5 w-5 text-purple-500 print:h-4 print:w-4" />
-                <h3 className="font-semibold text-gray-900 print:text-xs print:leading-snug">Antimalarial Treatment Policy</h3>
+                <h3 className="font-semibold text-gray-900 print:text-xs print:leading-snug">{labelService.get('profile.treatmentPolicy')}</h3>
               </div>
               <div className="overflow-x-auto">
                 <table className="w-full text-xs print:text-[9px]">
                   <thead>
                     <tr className="bg-gray-50 avoid-break">
-                      <th className="text-left py-2 px-2 font-medium text-gray-700 print:text-[9px] print:py-1 print:px-1">Antimalaria treatment policy</th>
-                      <th className="text-left py-2 px-2 font-medium text-gray-700 print:text-[9px] print:py-1 print:px-1">Medicine</th>
-                      <th className="text-center py-2 px-2 font-medium text-gray-700 print:text-[9px] print:py-1 print:px-1">Year adopted</th>
+                      <th className="text-start py-2 px-2 font-medium text-gray-700 print:text-[9px] print:py-1 print:px-1">{labelService.get('profile.treatmentPolicyColumn')}</th>
+                      <th className="text-start py-2 px-2 font-medium text-gray-700 print:text-[9px] print:py-1 print:px-1">{labelService.get('profile.medicine')}</th>
+                      <th className="text-center py-2 px-2 font-medium text-gray-700 print:text-[9px] print:py-1 print:px-1">{labelService.get('profile.yearAdopted')}</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-200 avoid-break">
                     {data.treatment.map((treatment, index) => {
-                      // Format category text to italicize P. falciparum and P. vivax
-                      const formatCategory = (text: string) => {
-                        return text
-                          .replace(/P\. falciparum/g, '<em>P. falciparum</em>')
-                          .replace(/P\. vivax/g, '<em>P. vivax</em>');
-                      };
                       return (
                       <tr key={index} className="avoid-break">
-                        <td className="py-2 px-2 text-gray-700 print:text-[9px] print:py-1 print:px-1" dangerouslySetInnerHTML={{ __html: formatCategory(treatment.category) }}></td>
+                        <td className="py-2 px-2 text-gray-700 print:text-[9px] print:py-1 print:px-1">{italicizeSpecies(treatment.category)}</td>
                         {treatment.yearAdopted ? (
                           <>
                             <td className="py-2 px-2 text-gray-700 print:text-[9px] print:py-1 print:px-1">{treatment.medicine}</td>
@@ -896,9 +1015,9 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
 
             {/* Type of RDT used (public) */}
             <div className="avoid-break">
-              <div className="flex items-center space-x-2 mb-4 print:mb-2">
+              <div className="flex items-center space-x-2 rtl:space-x-reverse mb-4 print:mb-2">
                 <Activity className="h-5 w-5 text-blue-500 print:h-4 print:w-4" />
-                <h3 className="font-semibold text-gray-900 print:text-xs print:leading-snug">Type of RDT used (public)</h3>
+                <h3 className="font-semibold text-gray-900 print:text-xs print:leading-snug">{labelService.get('profile.rdtType')}</h3>
               </div>
               <div className="bg-blue-50 rounded-lg p-4 print:p-2">
                 <p className="text-xs text-gray-700 print:text-[10px]">{data.rdtType}</p>
@@ -907,22 +1026,22 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
 
             {/* Therapeutic Efficacy Tests */}
             <div className="avoid-break">
-              <div className="flex items-center space-x-2 mb-4 print:mb-2">
+              <div className="flex items-center space-x-2 rtl:space-x-reverse mb-4 print:mb-2">
                 <Activity className="h-5 w-5 text-orange-500 print:h-4 print:w-4" />
-                <h3 className="font-semibold text-gray-900 print:text-xs print:leading-snug">Therapeutic efficacy tests (clinical and parasitological failure, %)</h3>
+                <h3 className="font-semibold text-gray-900 print:text-xs print:leading-snug">{labelService.get('profile.therapeuticEfficacy')}</h3>
               </div>
               <div className="overflow-x-auto">
                 <table className="w-full text-[10px] print:text-[9px]">
                   <thead>
                     <tr className="bg-gray-50 avoid-break">
-                      <th className="text-left py-1 px-1 font-medium text-gray-700 text-[10px] print:text-[10px] print:py-0.5 print:px-0.5">Medicine</th>
-                      <th className="text-center py-1 px-1 font-medium text-gray-700 text-[10px] print:text-[10px] print:py-0.5 print:px-0.5">Year</th>
-                      <th className="text-center py-1 px-1 font-medium text-gray-700 text-[10px] print:text-[10px] print:py-0.5 print:px-0.5">Min</th>
-                      <th className="text-center py-1 px-1 font-medium text-gray-700 text-[10px] print:text-[10px] print:py-0.5 print:px-0.5">Median</th>
-                      <th className="text-center py-1 px-1 font-medium text-gray-700 text-[10px] print:text-[10px] print:py-0.5 print:px-0.5">Max</th>
-                      <th className="text-center py-1 px-1 font-medium text-gray-700 text-[10px] print:text-[10px] print:py-0.5 print:px-0.5">Follow-up</th>
-                      <th className="text-center py-1 px-1 font-medium text-gray-700 text-[10px] print:text-[10px] print:py-0.5 print:px-0.5">No.&nbsp;of<br />studies</th>
-                      <th className="text-center py-1 px-1 font-medium text-gray-700 text-[10px] print:text-[10px] print:py-0.5 print:px-0.5">Species</th>
+                      <th className="text-start py-1 px-1 font-medium text-gray-700 text-[10px] print:text-[10px] print:py-0.5 print:px-0.5">{labelService.get('profile.medicine')}</th>
+                      <th className="text-center py-1 px-1 font-medium text-gray-700 text-[10px] print:text-[10px] print:py-0.5 print:px-0.5">{labelService.get('profile.year')}</th>
+                      <th className="text-center py-1 px-1 font-medium text-gray-700 text-[10px] print:text-[10px] print:py-0.5 print:px-0.5">{labelService.get('profile.min')}</th>
+                      <th className="text-center py-1 px-1 font-medium text-gray-700 text-[10px] print:text-[10px] print:py-0.5 print:px-0.5">{labelService.get('profile.median')}</th>
+                      <th className="text-center py-1 px-1 font-medium text-gray-700 text-[10px] print:text-[10px] print:py-0.5 print:px-0.5">{labelService.get('profile.max')}</th>
+                      <th className="text-center py-1 px-1 font-medium text-gray-700 text-[10px] print:text-[10px] print:py-0.5 print:px-0.5">{labelService.get('profile.followUp')}</th>
+                      <th className="text-center py-1 px-1 font-medium text-gray-700 text-[10px] print:text-[10px] print:py-0.5 print:px-0.5">{labelService.get('profile.numberOfStudies')}</th>
+                      <th className="text-center py-1 px-1 font-medium text-gray-700 text-[10px] print:text-[10px] print:py-0.5 print:px-0.5">{labelService.get('profile.species')}</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-200 avoid-break">
@@ -940,11 +1059,11 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
                       <tr key={index} className="avoid-break">
                         <td className="py-1 px-1 text-gray-700 font-normal text-[10px] print:text-[9px] print:py-0.5 print:px-0.5">{efficacy.medicine}</td>
                         <td className="py-1 px-1 text-center font-normal text-[10px] print:text-[9px] print:py-0.5 print:px-0.5 whitespace-nowrap">{efficacy.year || '-'}</td>
-                        <td className="py-1 px-1 text-center font-normal text-[10px] print:text-[9px] print:py-0.5 print:px-0.5">{efficacy.min !== null ? efficacy.min : '-'}</td>
-                        <td className="py-1 px-1 text-center font-normal text-[10px] print:text-[9px] print:py-0.5 print:px-0.5">{efficacy.median !== null ? efficacy.median : '-'}</td>
-                        <td className="py-1 px-1 text-center font-normal text-[10px] print:text-[9px] print:py-0.5 print:px-0.5">{efficacy.max !== null ? efficacy.max : '-'}</td>
+                        <td className="py-1 px-1 text-center font-normal text-[10px] print:text-[9px] print:py-0.5 print:px-0.5"><ProfileNumber value={efficacy.min} format={value => numberFormatService.full(value, 1)} /></td>
+                        <td className="py-1 px-1 text-center font-normal text-[10px] print:text-[9px] print:py-0.5 print:px-0.5"><ProfileNumber value={efficacy.median} format={value => numberFormatService.full(value, 1)} /></td>
+                        <td className="py-1 px-1 text-center font-normal text-[10px] print:text-[9px] print:py-0.5 print:px-0.5"><ProfileNumber value={efficacy.max} format={value => numberFormatService.full(value, 1)} /></td>
                         <td className="py-1 px-1 text-center font-normal text-[10px] print:text-[9px] print:py-0.5 print:px-0.5">{efficacy.followUp}</td>
-                        <td className="py-1 px-1 text-center font-normal text-[10px] print:text-[9px] print:py-0.5 print:px-0.5">{efficacy.numberOfStudies !== null ? efficacy.numberOfStudies : '-'}</td>
+                        <td className="py-1 px-1 text-center font-normal text-[10px] print:text-[9px] print:py-0.5 print:px-0.5"><ProfileNumber value={efficacy.numberOfStudies} format={value => numberFormatService.full(value)} /></td>
                         <td className="py-1 px-1 text-center font-normal text-[10px] print:text-[9px] print:py-0.5 print:px-0.5" dangerouslySetInnerHTML={{ __html: formatSpecies(efficacy.species) }}></td>
                       </tr>
                       );
@@ -956,18 +1075,18 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
 
             {/* Resistance Status */}
             <div className="avoid-break">
-              <div className="flex items-center space-x-2 mb-4 print:mb-2">
+              <div className="flex items-center space-x-2 rtl:space-x-reverse mb-4 print:mb-2">
                 <Shield className="h-5 w-5 text-red-500 print:h-4 print:w-4" />
-                <h3 className="font-semibold text-gray-900 print:text-xs print:leading-snug">Resistance status by insecticide class (2020-2024) and use of class for malaria vector control (2024)</h3>
+                <h3 className="font-semibold text-gray-900 print:text-xs print:leading-snug">{labelService.get('profile.resistanceStatus')}</h3>
               </div>
               <div className="overflow-x-auto">
                 <table className="w-full text-xs print:text-[10px]">
                   <thead>
                     <tr className="bg-gray-50 avoid-break">
-                      <th className="text-left py-2 px-2 font-medium text-gray-700 print:py-1 print:px-1">Insecticide class</th>
-                      <th className="text-center py-2 px-2 font-medium text-gray-700 print:py-1 print:px-1">(%) sites¹</th>
-                      <th className="text-center py-2 px-2 font-medium text-gray-700 print:py-1 print:px-1">Vectors²</th>
-                      <th className="text-center py-2 px-2 font-medium text-gray-700 print:py-1 print:px-1">Used³</th>
+                      <th className="text-start py-2 px-2 font-medium text-gray-700 print:py-1 print:px-1">{labelService.get('profile.insecticideClass')}</th>
+                      <th className="text-center py-2 px-2 font-medium text-gray-700 print:py-1 print:px-1">{labelService.get('profile.sites')}¹</th>
+                      <th className="text-center py-2 px-2 font-medium text-gray-700 print:py-1 print:px-1">{labelService.get('profile.vectors')}²</th>
+                      <th className="text-center py-2 px-2 font-medium text-gray-700 print:py-1 print:px-1">{labelService.get('profile.used')}³</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-200 avoid-break">
@@ -978,166 +1097,85 @@ export function CountryProfile({ country, period }: CountryProfileProps) {
                           <td className="py-2 px-2 text-gray-700 text-[11px] print:text-[9px] print:py-1 print:px-1">{resistance.insecticideClass}</td>
                           <td className="py-2 px-2 text-center text-[11px] print:text-[9px] print:py-1 print:px-1">{resistance.sites !== null ? resistance.sites : '-'}</td>
                           <td className="py-2 px-2 text-center text-[11px] print:text-[9px] italic print:py-1 print:px-1">{resistance.vectors}</td>
-                          <td className="py-2 px-2 text-center text-[11px] print:text-[9px] print:py-1 print:px-1">{resistance.used !== null ? (resistance.used ? 'Yes' : 'No') : '-'}</td>
+                          <td className="py-2 px-2 text-center text-[11px] print:text-[9px] print:py-1 print:px-1">{resistance.used !== null ? labelService.get(resistance.used ? 'profile.yes' : 'profile.no') : '-'}</td>
                         </tr>
                       ))}
                   </tbody>
                 </table>
               </div>
               <div className="mt-3 text-xs text-gray-600 print:text-[9px] print:mt-2 space-y-1">
-                <p><sup>1</sup> Percent of sites for which resistance is confirmed and total number of sites that reported data</p>
-                <p><sup>2</sup> Vectors reported to exhibit resistance to insecticide class</p>
-                <p><sup>3</sup> Class reported as used for malaria control in 2024</p>
+                <p><sup>1</sup> {labelService.get('profile.sitesFootnote')}</p>
+                <p><sup>2</sup> {labelService.get('profile.vectorsFootnote')}</p>
+                <p><sup>3</sup> {labelService.get('profile.usedFootnote')}</p>
               </div>
             </div>
           </div>
         </div>
 
         {/* Print Container - Keep charts and footnotes together */}
-        <div className="print-charts-footnotes-container">
+        <div className="print-charts-footnotes-container" data-pdf-page="2">
           {/* Charts Section - Panel D */}
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6 avoid-break print:shadow-none print:border print-panel-d print-charts-section">
-          <div className="flex items-center space-x-2 mb-6 print:mb-3">
+          <div className="flex items-center space-x-2 rtl:space-x-reverse mb-6 print:mb-3">
             <TrendingUp className="h-5 w-5 text-blue-500 print:h-4 print:w-4" />
-            <h3 className="font-semibold text-gray-900 print:text-base print:leading-snug keep-with-next">III. Data Visualization</h3>
+            <h3 className="font-semibold text-gray-900 print:text-base print:leading-snug keep-with-next">{labelService.get('profile.dataVisualization')}</h3>
           </div>
           
           {/* Charts Grid */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8 print:grid-cols-2 print:gap-2">
-            {/* Chart 1 - Estimated and reported cases */}
-            <div className="bg-white rounded-lg border border-gray-200 p-4 avoid-break print:shadow-none print:border" style={{ height: '420px' }}>
-              {/* Interactive chart (screen) */}
-                <Chart1
-                  chartId="chart1"
-                  setChartRef={setChartRef}
-                  setContainerRef={setContainerRef}
-                  orgUnit={country.id}
-                  period={period}
-                  showEstimates={data.showEstimates}
-                  paramEpiDisplay={data.cases.paramEpiDisplay}
-                  showEstForIndigCountry={data.showEstForIndigCountry}
-                />
-              </div>
-            
-            {/* Chart 2 - Treatment seeking and reporting completeness */}
-            <div className="bg-white rounded-lg border border-gray-200 p-4 avoid-break print:shadow-none print:border" style={{ height: '420px' }}>
-              <Chart2
-                chartId="chart2"
-                setChartRef={setChartRef}
-                orgUnit={country.id}
-                period={period}
-                chartSource={chart2Source}
-              />
-            </div>
-            
-            {/* Chart 3 - Cases tested and treated */}
-            <div className="bg-white rounded-lg border border-gray-200 p-4 avoid-break print:shadow-none print:border" style={{ height: '420px' }}>
-              <Chart3
-                chartId="chart3"
-                setChartRef={setChartRef}
-                orgUnit={country.id}
-                period={period}
-                chartSource={chart3Source}
-              />
-            </div>
-            
-            {/* Chart 4 - Test positivity */}
-            <div className="bg-white rounded-lg border border-gray-200 p-4 avoid-break print:shadow-none print:border" style={{ height: '420px' }}>
-              <Chart4
-                chartId="chart4"
-                setChartRef={setChartRef}
-                orgUnit={country.id}
-                period={period}
-                chartSource={chart4Source}
-              />
-            </div>
-            
-            {/* Chart 5 - Confirmed malaria cases per 1000 population at risk and ABER */}
-            <div className="bg-white rounded-lg border border-gray-200 p-4 avoid-break print:shadow-none print:border" style={{ height: '420px' }}>
-              <Chart5
-                chartId="chart5"
-                setChartRef={setChartRef}
-                orgUnit={country.id}
-                countryCode={country.code}
-                period={period}
-                chartSource={chart5Source}
-              />
-            </div>
-            
-            {/* Chart 6 - Cases by classification OR Malaria inpatients and deaths */}
-            <div className="bg-white rounded-lg border border-gray-200 p-4 avoid-break print:shadow-none print:border" style={{ height: '420px' }}>
-              <Chart6
-                chartId="chart6"
-                setChartRef={setChartRef}
-                orgUnit={country.id}
-                countryCode={country.code}
-                period={period}
-                chartSource={chart6Source}
-              />
-            </div>
-            
-            {/* Chart 7 - Coverage of ITN and IRS */}
-            <div className="bg-white rounded-lg border border-gray-200 p-4 avoid-break print:shadow-none print:border" style={{ height: '420px' }}>
-              <Chart7
-                chartId="chart7"
-                setChartRef={setChartRef}
-                orgUnit={country.id}
-                countryCode={country.code}
-                currentRegion={orgUnitDetails?.parent?.code || ''}
-                period={period}
-                chartSource={chart7Source}
-              />
-            </div>
-            
-            {/* Chart 8 - Sources of financing */}
-            <div className="bg-white rounded-lg border border-gray-200 p-4 avoid-break print:shadow-none print:border" style={{ height: '420px' }}>
-              <Chart8
-                chartId="chart8"
-                setChartRef={setChartRef}
-                orgUnit={country.id}
-                period={period}
-                chartSource={chart8Source}
-              />
-            </div>
-            
-            {/* Chart 9 - Government expenditure by intervention (conditional) */}
-            {chart9HasData && (
-              <div className="bg-white rounded-lg border border-gray-200 p-4 avoid-break keep-with-next print:shadow-none print:border" style={{ height: '420px' }}>
-                <Chart9
-                  chartId="chart9"
+            {visibleCharts.map((spec, index) => (
+              <div
+                key={spec.id}
+                className={`relative bg-white rounded-lg border border-gray-200 p-4 avoid-break print:shadow-none print:border${index === visibleCharts.length - 1 ? ' keep-with-next' : ''}`}
+                style={{ height: '420px' }}
+              >
+                <ValidationFlag warnings={chartWarnings[spec.id]} className="absolute top-2 end-2 z-10" />
+                <ProfileChart
+                  spec={spec}
+                  context={chartContext}
+                  reportStatus={reportSection}
                   setChartRef={setChartRef}
-                  setContainerRef={setContainerRef}
                   orgUnit={country.id}
                   period={period}
-                  onDataAvailabilityChange={setChart9HasData}
-                  chartSource={chart9Source}
+                  onDataAvailabilityChange={spec.hideWhenEmpty ? handleChartDataAvailability : undefined}
+                  chartSource={chartSources[spec.id]}
+                  startYear={chartStartYears[spec.id]}
+                  // A snapshot only holds the years of its charts as exported
+                  onStartYearChange={snapshot ? undefined : handleChartStartYearChange}
+                  printLayout={printLayout}
                 />
               </div>
-            )}
+            ))}
           </div>
         </div>
       </div>
 
         {/* Footnotes Section */}
-        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mt-8 avoid-break keep-with-prev page-break-inside-avoid print:shadow-none print:border print:mt-4 footnotes">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mt-8 avoid-break keep-with-prev page-break-inside-avoid print:shadow-none print:border print:mt-4 footnotes" data-pdf-page="2">
         {/* Add the combined survey source at the top */}
 
-        <p className="text-small font-bold text-gray-900 mb-4 print:text-xs print:mb-2">Footnotes</p>
+        <p className="text-small font-bold text-gray-900 mb-4 print:text-xs print:mb-2">{labelService.get('profile.footnotes')}</p>
         <hr className="border-gray-300 mb-4 print:mb-2" />
         <div className="space-y-3 text-xs text-gray-700 print:text-xs print:space-y-2">
-          <p className="space-y-3 text-xs text-gray-700 print:text-xs print:space-y-2">Country profiles are generated automatically based on data reported by countries. They are available for all current malaria endemic countries and areas asked to report to the Malaria and Neglected Tropical Diseases Programme annually. Country profiles are based on data validated by the countries as of 15 October 2025.</p>
+          <p className="space-y-3 text-xs text-gray-700 print:text-xs print:space-y-2">{labelService.get('profile.aboutProfiles')}</p>
           {combinedChartSource && (
             <p className="text-xs text-gray-700 print:text-xs">
-              Survey sources: {combinedChartSource}
+              {labelService.get('profile.surveySources')}: {combinedChartSource}
             </p>
         )}
-          <p className="space-y-3 text-xs text-gray-700 print:text-xs print:space-y-2">Further information on the methods used to estimate malaria cases and an explanation for the gap between estimated and reported confirmed indigenous cases is provided 
+          <p className="space-y-3 text-xs text-gray-700 print:text-xs print:space-y-2">{labelService.get('profile.estimationMethods')}
             &nbsp;<span className="text-blue-600 underline hover:text-blue-800 text-xs print:text-xs print:space-y-2">
               <a href="https://cdn.who.int/media/docs/default-source/malaria/mpac-documentation/mpac-april2018-erg-report-malaria-burden-session6.pdf?sfvrsn=44e72782_2" target="blank">mpac-april2018-erg-report-malaria-burden-session6.pdf (who.int)</a></span></p>
-          <p className="text-xs font-bold text-gray-900 mb-4 print:text-xs print:mb-2">World Malaria Report {parseInt(period) + 1}</p>
+          <p className="text-xs text-gray-700 print:text-xs"><NoData />: {labelService.get('profile.noDataFootnote')}</p>
+          <p className="text-xs font-bold text-gray-900 mb-4 print:text-xs print:mb-2">{labelService.get('profile.worldMalariaReport', { year: parseInt(period) + 1 })}</p>
         </div>
       </div>
+
       </div>
+
+      {canCheckCompleteness && showCompleteness && (
+        <DataCompletenessPanel orgUnit={country.id} countryCode={country.code} period={period} />
+      )}
     </div>
   );
 }
\ No newline at end of file
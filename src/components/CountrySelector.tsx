@@ -3,6 +3,9 @@ import { Search, ChevronDown } from 'lucide-react';
 import { Country } from '../types/dhis2';
 import { dhis2Service } from '../services/dhis2Service';
 import { useDHIS2 } from '../context/DHIS2Context';
+import { getAvailableEditions, getComparableEditions } from '../config/wmrEditions';
+import { isExcludedCountry } from '../config/countries';
+import { labelService } from '../services/labelService';
 
 interface CountrySelectorProps {
   selectedCountry: Country | null;
@@ -10,18 +13,17 @@ interface CountrySelectorProps {
   selectedYear: string;
   onYearSelect: (year: string) => void;
   onCountriesLoaded?: (countries: Country[]) => void;
+  comparePeriod?: string | null;
+  onCompareSelect?: (period: string | null) => void;
 }
 
-export function CountrySelector({ selectedCountry, onCountrySelect, selectedYear, onYearSelect, onCountriesLoaded }: CountrySelectorProps) {
+export function CountrySelector({ selectedCountry, onCountrySelect, selectedYear, onYearSelect, onCountriesLoaded, comparePeriod, onCompareSelect }: CountrySelectorProps) {
   const [countries, setCountries] = useState<Country[]>([]);
   const [loading, setLoading] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [isOpen, setIsOpen] = useState(false);
   const { isAuthenticated, isProduction } = useDHIS2();
 
-  // Countries to remove from the dropdown list
-  const countriesToRemove = ['BLZ','BTN','CPV','MYT','MYS','SAU','SUR','TLS','TZA'];
-
   useEffect(() => {
     if (isAuthenticated) {
       loadCountries();
@@ -32,9 +34,9 @@ export function CountrySelector({ selectedCountry, onCountrySelect, selectedYear
     setLoading(true);
     try {
       const countriesData = await dhis2Service.getCountries();
-      // Filter out countries with ISO codes in the countriesToRemove array
+      // Filter out countries with ISO codes in the excluded list
       const filteredCountries = countriesData.filter(
-        country => !countriesToRemove.includes(country.code)
+        country => !isExcludedCountry(country.code)
       );
       // Countries are already sorted in the service
       setCountries(filteredCountries);
@@ -54,52 +56,74 @@ export function CountrySelector({ selectedCountry, onCountrySelect, selectedYear
     country.displayName.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  const years = [
-    { value: '2023', display: 'WMR2024 (2023)' },
-    { value: '2024', display: 'WMR2025 (2024)' }
-  ];
+  const editions = getAvailableEditions(isProduction);
+  // Year selector is only useful when more than one edition can be picked
+  const showYearSelector = editions.length > 1;
+  // Comparison needs no map images, so unpublished editions can be compared in production too
+  const compareEditions = onCompareSelect ? getComparableEditions().filter(edition => edition.dataYear !== selectedYear) : [];
+  const showEditionColumn = showYearSelector || compareEditions.length > 0;
 
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6 country-selector print:hidden avoid-break">
-      <div className={`grid gap-6 ${!isProduction ? 'grid-cols-1 md:grid-cols-2' : 'grid-cols-1'}`}>
-        {/* Year Selector - Only show in development mode */}
-        {!isProduction && (
+      <div className={`grid gap-6 ${showEditionColumn ? 'grid-cols-1 md:grid-cols-2' : 'grid-cols-1'}`}>
+        {showEditionColumn && (
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-3">
-              Select Year
-            </label>
-            <div className="flex bg-gray-100 rounded-lg p-1">
-              {years.map((year) => (
-                <button
-                  key={year.value}
-                  onClick={() => onYearSelect(year.value)}
-                  className={`flex-1 px-4 py-2 text-sm font-medium rounded-md transition-all ${
-                    selectedYear === year.value
-                      ? 'bg-blue-500 text-white shadow-sm'
-                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-200'
-                  }`}
+            {/* Year Selector - Published editions, plus unpublished ones in development mode */}
+            {showYearSelector && (
+              <>
+                <label className="block text-sm font-medium text-gray-700 mb-3">
+                  {labelService.get('app.selectYear')}
+                </label>
+                <div className="flex bg-gray-100 rounded-lg p-1">
+                  {editions.map((edition) => (
+                    <button
+                      key={edition.id}
+                      onClick={() => onYearSelect(edition.dataYear)}
+                      className={`flex-1 px-4 py-2 text-sm font-medium rounded-md transition-all ${
+                        selectedYear === edition.dataYear
+                          ? 'bg-blue-500 text-white shadow-sm'
+                          : 'text-gray-600 hover:text-gray-900 hover:bg-gray-200'
+                      }`}
+                    >
+                      {edition.label}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+            {onCompareSelect && compareEditions.length > 0 && (
+              <div className={`${showYearSelector ? 'mt-3 ' : ''}flex items-center space-x-2 rtl:space-x-reverse`}>
+                <label htmlFor="compare-edition" className="text-sm text-gray-600 whitespace-nowrap">{labelService.get('app.compareWith')}</label>
+                <select
+                  id="compare-edition"
+                  value={comparePeriod || ''}
+                  onChange={(e) => onCompareSelect(e.target.value || null)}
+                  className="flex-1 px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 >
-                  {year.display}
-                </button>
-              ))}
-            </div>
+                  <option value="">{labelService.get('app.noComparison')}</option>
+                  {compareEditions.map(edition => (
+                    <option key={edition.id} value={edition.dataYear}>{edition.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
           </div>
         )}
 
         {/* Country Selector */}
         <div className="relative">
           <label className="block text-sm font-medium text-gray-700 mb-3">
-            Select Country
+            {labelService.get('app.selectCountry')}
           </label>
           
           <div className="relative">
             <button
               onClick={() => setIsOpen(!isOpen)}
               disabled={loading}
-              className="w-full flex items-center justify-between px-4 py-3 text-left bg-white border border-gray-300 rounded-lg shadow-sm hover:border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              className="w-full flex items-center justify-between px-4 py-3 text-start bg-white border border-gray-300 rounded-lg shadow-sm hover:border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
             >
               <span className={selectedCountry ? 'text-gray-900' : 'text-gray-500'}>
-                {loading ? 'Loading countries...' : selectedCountry?.shortName || 'Choose a country'}
+                {loading ? labelService.get('app.loadingCountries') : selectedCountry?.shortName || labelService.get('app.chooseCountry')}
               </span>
               <ChevronDown className={`h-4 w-4 text-gray-400 transform transition-transform ${isOpen ? 'rotate-180' : ''}`} />
             </button>
@@ -108,13 +132,13 @@ export function CountrySelector({ selectedCountry, onCountrySelect, selectedYear
               <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-lg shadow-lg">
                 <div className="p-3 border-b border-gray-200">
                   <div className="relative">
-                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Search className="absolute start-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
                     <input
                       type="text"
-                      placeholder="Search countries..."
+                      placeholder={labelService.get('app.searchCountries')}
                       value={searchTerm}
                       onChange={(e) => setSearchTerm(e.target.value)}
-                      className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      className="w-full ps-10 pe-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     />
                   </div>
                 </div>
@@ -128,7 +152,7 @@ export function CountrySelector({ selectedCountry, onCountrySelect, selectedYear
                         setIsOpen(false);
                         setSearchTerm('');
                       }}
-                      className="w-full text-left px-4 py-3 hover:bg-gray-50 focus:bg-gray-50 focus:outline-none transition-colors"
+                      className="w-full text-start px-4 py-3 hover:bg-gray-50 focus:bg-gray-50 focus:outline-none transition-colors"
                     >
                       <div className="flex items-center justify-between">
                         <span className="font-medium text-gray-900">{country.shortName}</span>
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { ClipboardCheck, Download, AlertCircle } from 'lucide-react';
+import {
+  COMPLETENESS_STATUS_LABELS,
+  CompletenessReport,
+  CompletenessStatus,
+  dataCompletenessService,
+} from '../services/dataCompletenessService';
+import { downloadCsv } from '../utils/csvExport';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface DataCompletenessPanelProps {
+  orgUnit: string;
+  countryCode: string;
+  period: string;
+}
+
+const STATUS_STYLES: Record<CompletenessStatus, string> = {
+  present: 'bg-green-100 text-green-800',
+  missing: 'bg-red-100 text-red-800',
+  zero: 'bg-yellow-100 text-yellow-800',
+  invalid: 'bg-purple-100 text-purple-800',
+};
+
+const STATUSES: CompletenessStatus[] = ['present', 'missing', 'zero', 'invalid'];
+
+export function DataCompletenessPanel({ orgUnit, countryCode, period }: DataCompletenessPanelProps) {
+  const [report, setReport] = useState<CompletenessReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [issuesOnly, setIssuesOnly] = useState(false);
+
+  useEffect(() => {
+    dataCompletenessService.getReport(orgUnit, period)
+      .then(setReport)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to build the completeness report'));
+  }, [orgUnit, period]);
+
+  const handleExport = () => {
+    if (!report) return;
+    downloadCsv(`WMR_${countryCode}_${period}_completeness.csv`, dataCompletenessService.toCsvRows(report));
+  };
+
+  const counts = report ? dataCompletenessService.getStatusCounts(report) : null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden print:hidden">
+      <div className="bg-gray-50 border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <ClipboardCheck className="h-5 w-5 text-gray-700" />
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Data completeness</h2>
+            {counts && (
+              <p className="text-sm text-gray-600">
+                {STATUSES.map(status => `${counts[status]} ${COMPLETENESS_STATUS_LABELS[status].toLowerCase()}`).join(' · ')}
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center space-x-4">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input type="checkbox" checked={issuesOnly} onChange={event => setIssuesOnly(event.target.checked)} />
+            <span>Issues only</span>
+          </label>
+          <button
+            onClick={handleExport}
+            disabled={!report}
+            className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-blue-700 bg-white border border-gray-200 rounded-md hover:bg-blue-50 disabled:opacity-50 transition-colors"
+          >
+            <Download className="h-4 w-4" />
+            <span>Export CSV</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 p-6 text-red-700">
+          <AlertCircle className="h-5 w-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {!report && !error && (
+        <div className="p-6 text-center">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {report && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="text-left py-2 px-3 font-medium text-gray-700">Data element</th>
+                <th className="text-left py-2 px-3 font-medium text-gray-700">UID</th>
+                <th className="text-left py-2 px-3 font-medium text-gray-700">Value type</th>
+                <th className="text-left py-2 px-3 font-medium text-gray-700">Status</th>
+                <th className="text-right py-2 px-3 font-medium text-gray-700">Periods reported</th>
+                <th className="text-left py-2 px-3 font-medium text-gray-700">Latest value</th>
+              </tr>
+            </thead>
+            {report.groups.map(group => {
+              const items = issuesOnly ? group.items.filter(item => item.status !== 'present') : group.items;
+              if (items.length === 0) return null;
+              return (
+                <tbody key={group.id} className="divide-y divide-gray-200">
+                  <tr className="bg-blue-50">
+                    <td colSpan={6} className="py-2 px-3 font-semibold text-gray-900">{group.label}</td>
+                  </tr>
+                  {items.map(item => (
+                    <tr key={item.uid}>
+                      <td className="py-2 px-3 text-gray-900">{item.label}</td>
+                      <td className="py-2 px-3 font-mono text-xs text-gray-600">{item.uid}</td>
+                      <td className="py-2 px-3 text-gray-600">{item.valueType}</td>
+                      <td className="py-2 px-3">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[item.status]}`}>
+                          {COMPLETENESS_STATUS_LABELS[item.status]}
+                        </span>
+                      </td>
+                      <td className="py-2 px-3 text-right text-gray-600">{item.periodsReported}/{item.periodsExpected}</td>
+                      <td className="py-2 px-3 text-gray-600 max-w-xs truncate" title={item.value ?? undefined}>{item.value ?? ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              );
+            })}
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,39 @@
-import React from 'react';
-import { Globe, Wifi, WifiOff, Home, LogOut } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Globe, Wifi, WifiOff, Home, LogOut, RefreshCw, Database, Languages } from 'lucide-react';
 import { useDHIS2 } from '../context/DHIS2Context';
+import { responseCacheService, CacheStats } from '../services/responseCacheService';
+import { SUPPORTED_LOCALES, getLocaleDefinition } from '../config/locales';
+import { labelService } from '../services/labelService';
 
-export function Header() {
+interface HeaderProps {
+  onRefreshData?: () => Promise<void>;
+  locale?: string;
+  onLocaleChange?: (locale: string) => void;
+}
+
+export function Header({ onRefreshData, locale, onLocaleChange }: HeaderProps) {
   const { isAuthenticated, user, goHome, isLoading, error, disconnect, isProduction } = useDHIS2();
   const isDebug = !isProduction; // Show connection status in development mode
+  const [cacheStats, setCacheStats] = useState<CacheStats>(() => responseCacheService.getStats());
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    if (!isDebug) return;
+    setCacheStats(responseCacheService.getStats());
+    return responseCacheService.subscribe(setCacheStats);
+  }, [isDebug]);
+
+  const handleRefreshData = async () => {
+    if (!onRefreshData) return;
+    setRefreshing(true);
+    try {
+      await onRefreshData();
+    } catch (error) {
+      console.error('Failed to refresh data:', error);
+    } finally {
+      setRefreshing(false);
+    }
+  };
 
   const getConnectionStatus = () => {
     if (isLoading) return { icon: Wifi, text: 'Connecting...', color: 'text-yellow-500' };
@@ -21,7 +50,7 @@ export function Header() {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 print:max-w-full print:mx-0 print:px-0 avoid-break keep-with-next">
         <div className="flex justify-between items-center h-16 print:h-auto">
           {/* Logo and Title */}
-          <div className="flex items-center space-x-3 print:space-x-2">
+          <div className="flex items-center space-x-3 rtl:space-x-reverse print:space-x-2">
             <div className="bg-gradient-to-br from-blue-500 to-purple-600 p-2 rounded-lg print:hidden">
               <Globe className="h-6 w-6 text-white" />
             </div>
@@ -30,43 +59,81 @@ export function Header() {
             </div>
           </div>
 
-          {/* Connection Status and User Info - only show when debug is true */}
-          {isDebug && (
-            <div className="flex items-center space-x-4 print:hidden">
-              {/* Connection Status */}
-              <div className="flex flex-col items-end">
-                <div className="flex items-center space-x-2">
-                  <StatusIcon className={`h-4 w-4 ${status.color}`} />
-                  <span className={`text-sm font-medium ${status.color}`}>
-                    {status.text}
-                  </span>
+          <div className="flex items-center space-x-4 rtl:space-x-reverse print:hidden">
+            {/* Profile language; a locale passed with ?locale= is listed even if not built in */}
+            {locale && onLocaleChange && (
+              <label className="flex items-center space-x-1 rtl:space-x-reverse text-sm text-gray-600" title={labelService.get('app.language')}>
+                <Languages className="h-4 w-4" />
+                <select
+                  value={locale}
+                  onChange={(event) => onLocaleChange(event.target.value)}
+                  className="bg-transparent border border-gray-200 rounded-md px-2 py-1 text-sm hover:bg-gray-50"
+                >
+                  {SUPPORTED_LOCALES.map(option => (
+                    <option key={option.code} value={option.code}>{option.name}</option>
+                  ))}
+                  {!getLocaleDefinition(locale) && <option value={locale}>{locale}</option>}
+                </select>
+              </label>
+            )}
+
+            {/* Refresh data - bypasses the response cache */}
+            {isAuthenticated && onRefreshData && (
+              <button
+                onClick={handleRefreshData}
+                disabled={refreshing}
+                className="flex items-center space-x-1 rtl:space-x-reverse px-3 py-1 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-60"
+                title={labelService.get('app.refreshDataHint')}
+              >
+                <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+                <span>{labelService.get('app.refreshData')}</span>
+              </button>
+            )}
+
+            {/* Connection Status and User Info - only show when debug is true */}
+            {isDebug && (
+              <div className="flex items-center space-x-4 rtl:space-x-reverse print:hidden">
+                {/* Response cache hits/misses */}
+                <div className="flex items-center space-x-1 rtl:space-x-reverse text-xs text-gray-500" title="Response cache hits / misses">
+                  <Database className="h-4 w-4" />
+                  <span>{cacheStats.hits} hits / {cacheStats.misses} misses</span>
                 </div>
-                {error && (
-                  <span className="text-xs text-red-600 mt-1 max-w-xs truncate" title={error}>
-                    {error}
-                  </span>
-                )}
-              </div>
 
-              {/* User Info and Actions */}
-              {isAuthenticated && user && (
-                <div className="flex items-center space-x-3">
-                  <div>
-                    <p className="text-sm font-medium text-gray-900">{user.displayName || user.name}</p>
-                    <p className="text-xs text-gray-500">@{user.username}</p>
-                    {!isProduction && <p className="text-xs text-blue-500">Development Mode</p>}
+                {/* Connection Status */}
+                <div className="flex flex-col items-end">
+                  <div className="flex items-center space-x-2">
+                    <StatusIcon className={`h-4 w-4 ${status.color}`} />
+                    <span className={`text-sm font-medium ${status.color}`}>
+                      {status.text}
+                    </span>
                   </div>
-                  <button
-                    onClick={goHome}
-                    className="flex items-center space-x-1 px-3 py-1 text-sm text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-md transition-colors"
-                  >
-                    <Home className="h-4 w-4" />
-                    <span>Dashboard</span>
-                  </button>
+                  {error && (
+                    <span className="text-xs text-red-600 mt-1 max-w-xs truncate" title={error}>
+                      {error}
+                    </span>
+                  )}
                 </div>
-              )}
-            </div>
-          )}
+
+                {/* User Info and Actions */}
+                {isAuthenticated && user && (
+                  <div className="flex items-center space-x-3">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{user.displayName || user.name}</p>
+                      <p className="text-xs text-gray-500">@{user.username}</p>
+                      {!isProduction && <p className="text-xs text-blue-500">Development Mode</p>}
+                    </div>
+                    <button
+                      onClick={goHome}
+                      className="flex items-center space-x-1 rtl:space-x-reverse px-3 py-1 text-sm text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-md transition-colors"
+                    >
+                      <Home className="h-4 w-4" />
+                      <span>Dashboard</span>
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
         </div>
       </div>
     </header>
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { ShieldCheck, Download, AlertCircle, CheckCircle } from 'lucide-react';
+import { ConformanceReport, metadataConformanceService } from '../services/metadataConformanceService';
+import { downloadCsv } from '../utils/csvExport';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface MetadataConformancePanelProps {
+  period: string;
+}
+
+export function MetadataConformancePanel({ period }: MetadataConformancePanelProps) {
+  const [report, setReport] = useState<ConformanceReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCheck = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setReport(await metadataConformanceService.check(period));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check the data element metadata');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (!report) return;
+    downloadCsv(`WMR_${period}_metadata_check.csv`, metadataConformanceService.toCsvRows(report));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden print:hidden">
+      <div className="bg-gray-50 border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <ShieldCheck className="h-5 w-5 text-gray-700" />
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Metadata check</h2>
+            <p className="text-sm text-gray-600">
+              Value type, aggregation type and option set of every data element used by the {period} profile
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={handleCheck}
+            disabled={loading}
+            className="px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {report ? 'Check again' : 'Check metadata'}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!report || report.issues.length === 0}
+            className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-blue-700 bg-white border border-gray-200 rounded-md hover:bg-blue-50 disabled:opacity-50 transition-colors"
+          >
+            <Download className="h-4 w-4" />
+            <span>Export CSV</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 p-6 text-red-700">
+          <AlertCircle className="h-5 w-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {loading && (
+        <div className="p-6 text-center">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {report && !loading && report.issues.length === 0 && (
+        <div className="flex items-center space-x-2 p-6 text-green-700">
+          <CheckCircle className="h-5 w-5" />
+          <span>All {report.checked} data elements conform</span>
+        </div>
+      )}
+
+      {report && !loading && report.issues.length > 0 && (
+        <div className="overflow-x-auto">
+          <p className="px-6 py-3 text-sm text-gray-700">
+            {report.issues.length} issue{report.issues.length === 1 ? '' : 's'} in {report.checked} data elements
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="text-left py-2 px-3 font-medium text-gray-700">Used in</th>
+                <th className="text-left py-2 px-3 font-medium text-gray-700">Data element</th>
+                <th className="text-left py-2 px-3 font-medium text-gray-700">UID</th>
+                <th className="text-left py-2 px-3 font-medium text-gray-700">Problem</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {report.issues.map((issue, index) => (
+                <tr key={`${issue.uid}-${index}`}>
+                  <td className="py-2 px-3 text-gray-600">{issue.usedIn}</td>
+                  <td className="py-2 px-3 text-gray-900">{issue.label}</td>
+                  <td className="py-2 px-3 font-mono text-xs text-gray-600">{issue.uid}</td>
+                  <td className="py-2 px-3 text-red-700">{issue.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
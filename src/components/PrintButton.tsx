@@ -1,5 +1,6 @@
 import React from "react";
 import { Printer } from "lucide-react";
+import { labelService } from "../services/labelService";
 
 type Props = { onPrepare: () => Promise<void> };
 
@@ -12,10 +13,11 @@ export function PrintButton({ onPrepare }: Props) {
     <button
       onClick={handlePrint}
       className="inline-flex items-center gap-2 rounded-xl border px-3 py-2 text-sm shadow-sm hover:bg-neutral-50 screen:inline-flex print:hidden"
-      aria-label="Print"
+      aria-label={labelService.get("app.print")}
+      data-action="print"
     >
       <Printer size={16} />
-      Print
+      {labelService.get("app.print")}
     </button>
   );
 }
\ No newline at end of file
@@ -0,0 +1,533 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  Chart as ChartJS,
+  ArcElement,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  BarElement,
+  LineController,
+  BarController,
+  PieController,
+  Title,
+  Tooltip,
+  Legend,
+  Filler,
+  ChartOptions,
+} from 'chart.js';
+import { Chart } from 'react-chartjs-2';
+import { BarChart3, Download, Table } from 'lucide-react';
+import { LoadingSpinner } from './LoadingSpinner';
+import { NoData } from './ProfileValue';
+import { ChartRefLike } from '../utils/useSnapshots';
+import { ReportSectionStatus, useSectionStatus } from '../utils/useProfileReadiness';
+import { CHART_CONFIG } from '../config/chartConfig';
+import {
+  CHART_EARLIEST_YEAR,
+  ChartAxisId,
+  ChartContext,
+  ChartSeriesSpec,
+  ChartSpec,
+  ChartValueFormat,
+  getChartStartYear,
+  resolveChartLayout,
+} from '../config/chartSpecs';
+import { ChartData, chartDataService } from '../services/chartDataService';
+import { labelService } from '../services/labelService';
+import { numberFormatService } from '../services/numberFormatService';
+import { downloadCsv } from '../utils/csvExport';
+import { downloadXlsx } from '../utils/xlsxExport';
+import { downloadSvg, renderChartSvg } from '../utils/chartSvg';
+
+ChartJS.register(
+  ArcElement,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  BarElement,
+  LineController,
+  BarController,
+  PieController,
+  Title,
+  Tooltip,
+  Legend,
+  Filler
+);
+
+// Values in tooltips and pie legends
+const VALUE_FORMATS: Record<ChartValueFormat, (value: number) => string> = {
+  count: value => numberFormatService.full(value),
+  percent: value => numberFormatService.percent(value),
+  rate: value => numberFormatService.full(value, 2),
+  currency: value => numberFormatService.currency(value),
+};
+
+// Values on the axes
+const TICK_FORMATS: Record<ChartValueFormat, (value: number) => string> = {
+  count: value => numberFormatService.compact(value),
+  percent: value => numberFormatService.full(value, 1),
+  rate: value => numberFormatService.full(value, 1),
+  currency: value => numberFormatService.currency(value),
+};
+
+const GRID_COLOR = 'rgba(229, 231, 235, 0.8)';
+const TOOLBAR_SPACE = 24; // px above the chart title for the screen toolbar
+const PIE_EXPLODE_OFFSET = 20; // px the largest slice is pulled out
+
+const rgba = (color: string, opacity: number) => `rgba(${color}, ${opacity})`;
+
+function toDataset(series: ChartSeriesSpec, values: (number | null)[]) {
+  const common = {
+    label: labelService.get(series.label),
+    data: values,
+    borderColor: rgba(series.color, 1),
+    order: series.order,
+    yAxisID: series.axis || 'y',
+  };
+  if (series.type === 'bar') {
+    return { ...common, type: 'bar' as const, backgroundColor: rgba(series.color, series.opacity ?? 0.8), borderWidth: 1 };
+  }
+  return {
+    ...common,
+    type: 'line' as const,
+    fill: series.type === 'area',
+    backgroundColor: rgba(series.color, series.opacity ?? (series.type === 'area' ? 0.3 : 0.1)),
+    borderWidth: 2,
+    pointBackgroundColor: rgba(series.color, 1),
+    pointBorderColor: rgba(series.color, 1),
+    pointRadius: 4,
+    pointHoverRadius: 6,
+  };
+}
+
+function buildTimeSeries({ layout, periods, series }: ChartData) {
+  const axes = Object.entries(layout.axes) as [ChartAxisId, NonNullable<ChartData['layout']['axes'][ChartAxisId]>][];
+  const formatOf = (axisId: ChartAxisId = 'y') => layout.axes[axisId]?.format || 'count';
+  const stacked = axes.some(([, axis]) => axis.stacked);
+
+  const scales = Object.fromEntries(axes.map(([axisId, axis]) => [axisId, {
+    type: 'linear' as const,
+    position: axisId === 'y1' ? 'right' as const : 'left' as const,
+    title: {
+      display: true,
+      text: axis.title ? labelService.get(axis.title) : axis.format === 'percent' ? '(%)' : '',
+      font: {
+        size: CHART_CONFIG.AXIS.TITLE_FONT_SIZE,
+        weight: CHART_CONFIG.AXIS.TITLE_FONT_WEIGHT,
+      },
+    },
+    // Only the left axis draws grid lines, so two axes do not cross-hatch the chart
+    grid: axisId === 'y1' ? { drawOnChartArea: false } : { display: true, color: GRID_COLOR },
+    ticks: {
+      font: {
+        size: CHART_CONFIG.AXIS.TICK_FONT_SIZE,
+      },
+      callback: (value: string | number) => TICK_FORMATS[axis.format](Number(value)),
+    },
+    beginAtZero: true,
+    min: 0,
+    max: axis.max,
+    stacked: axis.stacked,
+  }]));
+
+  return {
+    type: series.some(item => item.series.type === 'bar') ? 'bar' as const : 'line' as const,
+    data: {
+      labels: periods,
+      datasets: series.map(item => toDataset(item.series, item.values)),
+    },
+    scales: {
+      x: {
+        grid: {
+          display: true,
+          color: GRID_COLOR,
+        },
+        ticks: {
+          font: {
+            size: CHART_CONFIG.AXIS.TICK_FONT_SIZE,
+          },
+          maxRotation: 45,
+        },
+        stacked,
+      },
+      ...scales,
+    },
+    formatValue: (value: number, datasetIndex: number) => VALUE_FORMATS[formatOf(series[datasetIndex]?.series.axis)](value),
+  };
+}
+
+function buildPie({ series }: ChartData, format: ChartValueFormat) {
+  // Empty slices would only clutter the legend
+  const slices = series
+    .map(item => ({ series: item.series, value: item.values[0] || 0 }))
+    .filter(slice => slice.value > 0);
+  const largest = Math.max(...slices.map(slice => slice.value));
+
+  return {
+    type: 'pie' as const,
+    data: {
+      labels: slices.map(slice => labelService.get(slice.series.label)),
+      datasets: [{
+        data: slices.map(slice => slice.value),
+        backgroundColor: slices.map(slice => rgba(slice.series.color, 0.8)),
+        borderColor: slices.map(slice => rgba(slice.series.color, 1)),
+        borderWidth: 2,
+        offset: slices.map(slice => slice.value === largest ? PIE_EXPLODE_OFFSET : 0),
+      }],
+    },
+    formatValue: (value: number) => VALUE_FORMATS[format](value),
+  };
+}
+
+interface ProfileChartProps {
+  spec: ChartSpec;
+  context: ChartContext;
+  orgUnit: string;
+  period: string;
+  setChartRef?: (id: string, ref: ChartRefLike) => void;
+  reportStatus?: ReportSectionStatus;
+  onDataAvailabilityChange?: (chartId: string, hasData: boolean) => void;
+  chartSource?: string;
+  startYear?: number; // Chosen on screen, defaults to the start year of the spec
+  onStartYearChange?: (chartId: string, startYear: number) => void;
+  printLayout?: boolean; // Print keeps the start year of the spec and its empty years
+}
+
+/**
+ * Chart of the profile drawn from a chart spec (see config/chartSpecs)
+ */
+export function ProfileChart({
+  spec,
+  context,
+  orgUnit,
+  period,
+  setChartRef,
+  reportStatus,
+  onDataAvailabilityChange,
+  chartSource,
+  startYear,
+  onStartYearChange,
+  printLayout,
+}: ProfileChartProps) {
+  const [chartData, setChartData] = useState<ChartData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showTable, setShowTable] = useState(false);
+  // Size of the chart on screen, which its SVG keeps
+  const chartSize = useRef<{ width: number; height: number } | null>(null);
+  // Last print SVG, drawn again only when the data, the size or the locale changes
+  const printSvgCache = useRef<{ data: ChartData; width: number; height: number; locale: string; svg: string } | null>(null);
+  useSectionStatus(spec.id, loading, error, reportStatus);
+  // Only a change of variant reloads the chart, not every change of context
+  const { title: layoutTitle, series, axes } = resolveChartLayout(spec, context);
+  const printStartYear = getChartStartYear(spec);
+  const screenStartYear = Math.min(startYear ?? printStartYear, parseInt(period));
+  // Years before the print start year are only loaded when chosen on screen
+  const loadStartYear = Math.min(screenStartYear, printStartYear);
+
+  useEffect(() => {
+    const loadChartData = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await chartDataService.getChartData(spec, { title: layoutTitle, series, axes }, orgUnit, period, loadStartYear);
+        const hasData = chartDataService.hasData(data);
+        onDataAvailabilityChange?.(spec.id, hasData);
+        // An empty pie has nothing to draw
+        setChartData(spec.kind === 'pie' && !hasData ? null : data);
+      } catch (err) {
+        console.error('Failed to load chart data:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load chart data');
+        setChartData(null);
+        onDataAvailabilityChange?.(spec.id, false);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadChartData();
+  }, [spec, layoutTitle, series, axes, orgUnit, period, loadStartYear, onDataAvailabilityChange]);
+
+  if (loading) {
+    return (
+      <div className="h-48 flex items-center justify-center">
+        <LoadingSpinner size="md" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="h-48 flex items-center justify-center">
+        <div className="text-center text-gray-500">
+          <p className="text-sm">{labelService.get('chart.loadFailed')}</p>
+          <p className="text-xs">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!chartData) {
+    return (
+      <div className="h-48 flex items-center justify-center">
+        <div className="text-center text-gray-500">
+          <p className="text-sm">{labelService.get('chart.noData')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Years shown: the print layout keeps those of the spec, the screen trims leading empty years
+  const shownData = spec.kind === 'pie'
+    ? chartData
+    : chartDataService.getWindow(chartData, printLayout ? printStartYear : screenStartYear, !printLayout);
+  const chartTitle = labelService.get(shownData.layout.title, { period });
+  const formatOf = (item: ChartData['series'][number]) =>
+    VALUE_FORMATS[spec.kind === 'pie' ? spec.format || 'count' : shownData.layout.axes[item.series.axis || 'y']?.format || 'count'];
+  const fileName = chartDataService.getFileName(shownData, context.countryCode, period);
+
+  const rtl = labelService.getDirection() === 'rtl';
+  // Drawn at once in print, so the canvas is final before the page is printed or captured
+  const animation = printLayout ? false as const : undefined;
+  // The SVG, like print, leaves out the space of the screen toolbar
+  const titlePaddingTop = printLayout ? 0 : TOOLBAR_SPACE;
+  const titleOf = (paddingTop: number) => ({
+    display: true,
+    text: chartTitle,
+    font: {
+      size: CHART_CONFIG.TITLE.FONT_SIZE,
+      weight: CHART_CONFIG.TITLE.FONT_WEIGHT,
+    },
+    color: CHART_CONFIG.TITLE.COLOR,
+    padding: {
+      top: paddingTop,
+      bottom: CHART_CONFIG.TITLE.PADDING_BOTTOM,
+    },
+  });
+  const chartRef = (ref: { width: number; height: number } | null | undefined) => {
+    setChartRef?.(spec.id, ref as ChartRefLike);
+    if (ref) chartSize.current = ref;
+  };
+
+  // Print draws the chart as SVG, in the size it has on screen, so lines stay sharp on paper
+  const vectorPrint = !!printLayout && !!chartSize.current;
+  const canvasClassName = vectorPrint ? 'print:!hidden' : undefined;
+
+  let chart;
+  let renderSvg: ((width: number, height: number) => string) | undefined;
+  if (showTable && !printLayout) {
+    chart = (
+      <div className="h-full overflow-auto pt-8">
+        <p className="text-sm font-semibold text-gray-900 text-center mb-2">{chartTitle}</p>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th className="text-start py-1 px-2 font-medium text-gray-700">{labelService.get('profile.year')}</th>
+              {shownData.series.map(item => (
+                <th key={item.series.uid} className="text-end py-1 px-2 font-medium text-gray-700">{labelService.get(item.series.label)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {shownData.periods.map((year, index) => (
+              <tr key={year} className="border-b border-gray-100">
+                <td className="py-1 px-2 text-gray-700">{year}</td>
+                {shownData.series.map(item => {
+                  const value = item.values[index];
+                  return (
+                    <td key={item.series.uid} className="py-1 px-2 text-end">
+                      {value === null ? <NoData /> : formatOf(item)(value)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  } else if (spec.kind === 'pie') {
+    const pie = buildPie(shownData, spec.format || 'count');
+    const total = pie.data.datasets[0].data.reduce((sum, value) => sum + value, 0);
+    // Pie legends and tooltips show the amount and its share of the total
+    const describe = (index: number) => {
+      const value = pie.data.datasets[0].data[index];
+      return `${pie.data.labels[index]}: ${pie.formatValue(value)} (${numberFormatService.share(value, total)})`;
+    };
+    const pieOptions = (paddingTop: number): ChartOptions<'pie'> => ({
+      responsive: true,
+      maintainAspectRatio: false, // Use fixed container dimensions
+      animation,
+      plugins: {
+        title: titleOf(paddingTop),
+        legend: {
+          rtl,
+          display: true,
+          position: CHART_CONFIG.LEGEND.POSITION,
+          align: 'center',
+          maxHeight: CHART_CONFIG.LEGEND.MAX_HEIGHT,
+          labels: {
+            usePointStyle: CHART_CONFIG.LEGEND.USE_POINT_STYLE,
+            padding: 8, // Tighter padding for pie chart legend
+            font: {
+              size: CHART_CONFIG.LEGEND.FONT_SIZE,
+            },
+            boxWidth: CHART_CONFIG.LEGEND.BOX_WIDTH,
+            generateLabels: () => pie.data.labels.map((_, index) => ({
+              text: describe(index),
+              fillStyle: pie.data.datasets[0].backgroundColor[index],
+              strokeStyle: pie.data.datasets[0].borderColor[index],
+              lineWidth: pie.data.datasets[0].borderWidth,
+              hidden: false,
+              index,
+            })),
+          },
+        },
+        tooltip: {
+          rtl,
+          callbacks: {
+            label: context => describe(context.dataIndex),
+          },
+        },
+      },
+    });
+    renderSvg = (width, height) => renderChartSvg({ type: 'pie', data: pie.data, options: pieOptions(0) }, width, height, spec.id);
+    chart = <Chart type="pie" data={pie.data} options={pieOptions(titlePaddingTop)} className={canvasClassName} ref={chartRef} />;
+  } else {
+    const timeSeries = buildTimeSeries(shownData);
+    const timeSeriesOptions = (paddingTop: number): ChartOptions<'bar' | 'line'> => ({
+      responsive: true,
+      maintainAspectRatio: false, // Use fixed container dimensions
+      animation,
+      plugins: {
+        title: titleOf(paddingTop),
+        legend: {
+          rtl,
+          display: true,
+          position: CHART_CONFIG.LEGEND.POSITION,
+          align: 'start',
+          maxHeight: CHART_CONFIG.LEGEND.MAX_HEIGHT,
+          labels: {
+            usePointStyle: CHART_CONFIG.LEGEND.USE_POINT_STYLE,
+            padding: CHART_CONFIG.LEGEND.PADDING,
+            font: {
+              size: CHART_CONFIG.LEGEND.FONT_SIZE,
+            },
+            boxWidth: CHART_CONFIG.LEGEND.BOX_WIDTH,
+          },
+        },
+        tooltip: {
+          rtl,
+          mode: 'index',
+          intersect: false,
+          callbacks: {
+            label: context => {
+              const value = context.parsed.y;
+              return `${context.dataset.label}: ${value !== null ? timeSeries.formatValue(value, context.datasetIndex) : '-'}`;
+            },
+          },
+        },
+      },
+      scales: timeSeries.scales,
+      interaction: {
+        mode: 'index',
+        intersect: false,
+      },
+    });
+    renderSvg = (width, height) => renderChartSvg(
+      { type: timeSeries.type, data: timeSeries.data, options: timeSeriesOptions(0) }, width, height, spec.id
+    );
+    chart = (
+      <Chart
+        type={timeSeries.type}
+        data={timeSeries.data}
+        options={timeSeriesOptions(titlePaddingTop)}
+        className={canvasClassName}
+        ref={chartRef}
+      />
+    );
+  }
+
+  let printSvg: string | null = null;
+  if (vectorPrint && renderSvg && chartSize.current) {
+    const { width, height } = chartSize.current;
+    const locale = labelService.getLocale();
+    const cached = printSvgCache.current;
+    if (cached && cached.data === chartData && cached.width === width && cached.height === height && cached.locale === locale) {
+      printSvg = cached.svg;
+    } else {
+      printSvg = renderSvg(width, height);
+      printSvgCache.current = { data: chartData, width, height, locale, svg: printSvg };
+    }
+  }
+
+  const startYears = Array.from(
+    { length: parseInt(period) - CHART_EARLIEST_YEAR + 1 },
+    (_, i) => CHART_EARLIEST_YEAR + i
+  );
+
+  const toolbarButton = 'inline-flex items-center gap-1 rounded border border-gray-300 bg-white px-1.5 py-0.5 text-xs text-gray-700 hover:bg-gray-50';
+
+  return (
+    <div className="h-full">
+      <div className="absolute top-2 start-2 z-10 flex items-center gap-2 text-xs text-gray-500 print:hidden">
+        {spec.kind === 'timeSeries' && onStartYearChange && (
+          <label className="flex items-center gap-1">
+            {labelService.get('chart.startYear')}
+            <select
+              value={screenStartYear}
+              onChange={event => onStartYearChange(spec.id, parseInt(event.target.value))}
+              className="rounded border border-gray-300 bg-white px-1 py-0.5 text-xs text-gray-700"
+            >
+              {startYears.map(year => (
+                <option key={year} value={year}>{year}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <button
+          onClick={() => setShowTable(!showTable)}
+          className={toolbarButton}
+          title={labelService.get(showTable ? 'chart.showChart' : 'chart.showTable')}
+          aria-label={labelService.get(showTable ? 'chart.showChart' : 'chart.showTable')}
+        >
+          {showTable ? <BarChart3 className="h-3.5 w-3.5" /> : <Table className="h-3.5 w-3.5" />}
+        </button>
+        <button
+          onClick={() => downloadCsv(`${fileName}.csv`, chartDataService.toCsvRows(shownData))}
+          className={toolbarButton}
+          title={labelService.get('chart.download', { format: 'CSV' })}
+        >
+          <Download className="h-3.5 w-3.5" />
+          CSV
+        </button>
+        <button
+          onClick={() => downloadXlsx(`${fileName}.xlsx`, chartDataService.toXlsxSheets(shownData))}
+          className={toolbarButton}
+          title={labelService.get('chart.download', { format: 'XLSX' })}
+        >
+          <Download className="h-3.5 w-3.5" />
+          XLSX
+        </button>
+        {renderSvg && (
+          <button
+            onClick={() => chartSize.current && downloadSvg(`${fileName}.svg`, renderSvg(chartSize.current.width, chartSize.current.height))}
+            className={toolbarButton}
+            title={labelService.get('chart.download', { format: 'SVG' })}
+          >
+            <Download className="h-3.5 w-3.5" />
+            SVG
+          </button>
+        )}
+      </div>
+      {chart}
+      {printSvg && (
+        <div data-print-svg className="hidden print:block h-full [&>svg]:w-full [&>svg]:h-full" dangerouslySetInnerHTML={{ __html: printSvg }} />
+      )}
+      {chartSource && (
+        <p className="text-xs text-gray-500 mt-4 print:text-[10px] print:text-black">{labelService.get('chart.source', { source: chartSource })}</p>
+      )}
+    </div>
+  );
+}
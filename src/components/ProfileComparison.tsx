@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react';
+import { GitCompare, AlertCircle } from 'lucide-react';
+import { Country } from '../types/dhis2';
+import { dataProcessingService } from '../services/dataProcessingService';
+import { labelService } from '../services/labelService';
+import { getLabelKeys } from '../config/labels';
+import { getEditionByDataYear } from '../config/wmrEditions';
+import { ComparisonSection, compareProfiles, countChanges } from '../utils/profileComparison';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface ProfileComparisonProps {
+  country: Country;
+  period: string;
+  comparePeriod: string;
+}
+
+export function ProfileComparison({ country, period, comparePeriod }: ProfileComparisonProps) {
+  const [sections, setSections] = useState<ComparisonSection[]>([]);
+  const [showChangedOnly, setShowChangedOnly] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Older edition is always shown first
+  const [previousPeriod, currentPeriod] = parseInt(comparePeriod) < parseInt(period)
+    ? [comparePeriod, period]
+    : [period, comparePeriod];
+  const editionLabel = (dataYear: string) => getEditionByDataYear(dataYear)?.label || dataYear;
+
+  useEffect(() => {
+    // Results of a previous country or edition pair that arrive late are ignored
+    let cancelled = false;
+    const loadComparison = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        // DHIS2 names of the row labels in the active locale
+        await labelService.load(getLabelKeys('profile'));
+        const [previousData, currentData] = await Promise.all([
+          dataProcessingService.processCountryData(country.id, previousPeriod),
+          dataProcessingService.processCountryData(country.id, currentPeriod),
+        ]);
+        if (!cancelled) setSections(compareProfiles(previousData, currentData));
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : labelService.get('comparison.loadFailed'));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    loadComparison();
+    return () => {
+      cancelled = true;
+    };
+  }, [country.id, previousPeriod, currentPeriod]);
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12">
+        <div className="text-center">
+          <LoadingSpinner size="lg" />
+          <p className="mt-4 text-gray-600">
+            {labelService.get('comparison.loading', {
+              previous: editionLabel(previousPeriod),
+              current: editionLabel(currentPeriod),
+              country: country.displayName,
+            })}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12">
+        <div className="text-center">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">{labelService.get('comparison.loadFailed')}</h3>
+          <p className="text-gray-600">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const totalChanges = countChanges(sections);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center space-x-3 rtl:space-x-reverse">
+            <GitCompare className="h-6 w-6 text-blue-500" />
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">{country.displayName}</h2>
+              <p className="text-sm text-gray-600">
+                {labelService.get('comparison.summary', { previous: editionLabel(previousPeriod), current: editionLabel(currentPeriod) })} &middot;{' '}
+                <span className="font-medium text-amber-700">{labelService.get('comparison.changedValues', { count: totalChanges })}</span>
+              </p>
+            </div>
+          </div>
+          <label className="flex items-center space-x-2 rtl:space-x-reverse text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showChangedOnly}
+              onChange={(e) => setShowChangedOnly(e.target.checked)}
+              className="rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+            />
+            <span>{labelService.get('comparison.changedOnly')}</span>
+          </label>
+        </div>
+      </div>
+
+      {sections.map(section => {
+        const rows = showChangedOnly ? section.rows.filter(row => row.changed) : section.rows;
+        const sectionChanges = section.rows.filter(row => row.changed).length;
+        return (
+          <div key={section.id} className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h3 className="font-semibold text-gray-900">{section.label}</h3>
+              {sectionChanges > 0 && (
+                <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                  {labelService.get('comparison.sectionChanges', { count: sectionChanges })}
+                </span>
+              )}
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-gray-50">
+                    <th className="text-start py-2 px-3 font-medium text-gray-700">{labelService.get('comparison.indicator')}</th>
+                    <th className="text-end py-2 px-3 font-medium text-gray-700 w-40">{editionLabel(previousPeriod)}</th>
+                    <th className="text-end py-2 px-3 font-medium text-gray-700 w-40">{editionLabel(currentPeriod)}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {rows.map((row, index) => (
+                    <tr key={row.key} className={row.changed ? 'bg-amber-50' : ''}>
+                      <td className="py-2 px-3 text-gray-700">
+                        {row.group && (index === 0 || rows[index - 1].group !== row.group) && (
+                          <span className="block text-xs font-semibold text-gray-500 uppercase">{row.group}</span>
+                        )}
+                        {row.label}
+                      </td>
+                      <td className="py-2 px-3 text-end text-gray-600">{row.previous}</td>
+                      <td className={`py-2 px-3 text-end font-medium ${row.changed ? 'text-amber-700' : 'text-gray-900'}`}>{row.current}</td>
+                    </tr>
+                  ))}
+                  {rows.length === 0 && (
+                    <tr>
+                      <td colSpan={3} className="py-4 px-3 text-center text-gray-500">{labelService.get('comparison.noChanges')}</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
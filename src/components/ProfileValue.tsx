@@ -0,0 +1,35 @@
+import { NO_DATA_MARKER } from '../services/dataProcessingService';
+import { ValidationWarning } from '../services/validationService';
+import { ValidationFlag } from './ValidationFlag';
+import { labelService } from '../services/labelService';
+import { numberFormatService } from '../services/numberFormatService';
+
+/**
+ * Marker for a value the country did not report, so it is never read as zero
+ */
+export function NoData() {
+  return (
+    <span title={labelService.get('profile.noData')} aria-label={labelService.get('profile.noData')}>{NO_DATA_MARKER}</span>
+  );
+}
+
+interface ProfileNumberProps {
+  value: number | null;
+  format?: (value: number) => string;
+  warnings?: ValidationWarning[]; // Validation warnings flagged on this value
+}
+
+export function ProfileNumber({ value, format = value => numberFormatService.compact(value), warnings }: ProfileNumberProps) {
+  return value === null ? <NoData /> : <>{format(value)}<ValidationFlag warnings={warnings} /></>;
+}
+
+interface ProfilePercentageProps {
+  part: number | null;
+  total: number | null;
+}
+
+// Share of a reported total; without a total (or with a zero total) there is nothing to divide by
+export function ProfilePercentage({ part, total }: ProfilePercentageProps) {
+  if (part === null || !total) return <NoData />;
+  return <>{numberFormatService.share(part, total)}</>;
+}
@@ -0,0 +1,263 @@
+import { useState, useEffect } from 'react';
+import { Globe, AlertCircle, Download, ArrowUp, ArrowDown, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { Country } from '../types/dhis2';
+import { RegionInfo, RegionalCountryRow, regionalDataService } from '../services/regionalDataService';
+import { REGIONAL_INDICATORS, RegionalIndicator } from '../config/regionalIndicators';
+import { numberFormatService } from '../services/numberFormatService';
+import { labelService } from '../services/labelService';
+import { getLabelKeys } from '../config/labels';
+import { profileWorkbookService } from '../services/profileWorkbookService';
+import { downloadCsv } from '../utils/csvExport';
+import { downloadXlsx } from '../utils/xlsxExport';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface RegionalDashboardProps {
+  country: Country;
+  countries: Country[];
+  period: string;
+  onCountrySelect?: (country: Country) => void;
+}
+
+// 'country' or a RegionalIndicator id
+type SortKey = string;
+
+function formatIndicatorValue(indicator: RegionalIndicator, value: number | null): string {
+  if (value === null) return '-';
+  return indicator.format === 'percent' ? numberFormatService.percent(value) : numberFormatService.compact(value);
+}
+
+export function RegionalDashboard({ country, countries, period, onCountrySelect }: RegionalDashboardProps) {
+  const [region, setRegion] = useState<RegionInfo | null>(null);
+  const [rows, setRows] = useState<RegionalCountryRow[]>([]);
+  const [sortKey, setSortKey] = useState<SortKey>(REGIONAL_INDICATORS[0].id);
+  const [sortAscending, setSortAscending] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Countries loaded so far while the workbook is exported, null when idle
+  const [workbookProgress, setWorkbookProgress] = useState<number | null>(null);
+  // Outcome of the last workbook export worth showing: countries left out, or why it failed
+  const [workbookNotice, setWorkbookNotice] = useState<{ failed: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    // Results for a previous country or year that arrive late are ignored
+    let cancelled = false;
+    const loadRegionalData = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        // DHIS2 names of the indicator labels in the active locale
+        await labelService.load(getLabelKeys('region'));
+        const countryRegion = await regionalDataService.getRegion(country);
+        if (!countryRegion) {
+          throw new Error(labelService.get('region.unknownRegion', { country: country.displayName }));
+        }
+        const regionCountries = regionalDataService.getRegionCountries(countries, countryRegion);
+        const regionRows = await regionalDataService.getRegionalIndicators(regionCountries, period);
+        if (cancelled) return;
+        setRegion(countryRegion);
+        setRows(regionRows);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : labelService.get('region.loadFailed'));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    loadRegionalData();
+    return () => {
+      cancelled = true;
+    };
+  }, [country, countries, period]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      // Countries sort A-Z first, indicators highest first
+      setSortAscending(key === 'country');
+    }
+  };
+
+  const sortedRows = [...rows].sort((a, b) => {
+    if (sortKey === 'country') {
+      const result = a.country.shortName.localeCompare(b.country.shortName);
+      return sortAscending ? result : -result;
+    }
+    const aValue = a.values[sortKey];
+    const bValue = b.values[sortKey];
+    // Missing values always go last
+    if (aValue === null && bValue === null) return 0;
+    if (aValue === null) return 1;
+    if (bValue === null) return -1;
+    return sortAscending ? aValue - bValue : bValue - aValue;
+  });
+
+  // Largest value per indicator, used to scale the inline bars
+  const maxValues: Record<string, number> = {};
+  REGIONAL_INDICATORS.forEach(indicator => {
+    maxValues[indicator.id] = Math.max(0, ...rows.map(row => row.values[indicator.id] ?? 0));
+  });
+
+  const handleExport = () => {
+    const header = [labelService.get('region.country'), 'ISO3', ...REGIONAL_INDICATORS.map(indicator => labelService.get(indicator.label))];
+    const body = sortedRows.map(row => [
+      row.country.shortName,
+      row.country.code,
+      ...REGIONAL_INDICATORS.map(indicator => row.values[indicator.id]),
+    ]);
+    downloadCsv(`WMR_${region?.code || 'region'}_${period}_indicators.csv`, [header, ...body]);
+  };
+
+  const handleWorkbookExport = async () => {
+    setWorkbookProgress(0);
+    setWorkbookNotice(null);
+    try {
+      const load = await profileWorkbookService.loadEntries(sortedRows.map(row => row.country), period, setWorkbookProgress);
+      const fileName = profileWorkbookService.getFileName(region?.code || 'region', period);
+      downloadXlsx(`${fileName}.xlsx`, await profileWorkbookService.toMultiCountrySheets(load, period));
+      if (load.failed.length > 0) {
+        setWorkbookNotice({
+          failed: false,
+          text: labelService.get('region.profilesLeftOut', { count: load.failed.length, total: sortedRows.length }),
+        });
+      }
+    } catch (err) {
+      console.error('[RegionalDashboard] Workbook export failed:', err);
+      const error = err instanceof Error ? err.message : String(err);
+      setWorkbookNotice({ failed: true, text: labelService.get('region.exportProfilesFailed', { error }) });
+    } finally {
+      setWorkbookProgress(null);
+    }
+  };
+
+  const SortIcon = ({ column }: { column: SortKey }) => {
+    if (column !== sortKey) return null;
+    return sortAscending ? <ArrowUp className="h-3 w-3 inline ms-1" /> : <ArrowDown className="h-3 w-3 inline ms-1" />;
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12">
+        <div className="text-center">
+          <LoadingSpinner size="lg" />
+          <p className="mt-4 text-gray-600">{labelService.get('region.loading')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12">
+        <div className="text-center">
+          <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">{labelService.get('region.loadFailed')}</h3>
+          <p className="text-gray-600">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="bg-gradient-to-r from-blue-600 to-blue-700 px-6 py-4 flex items-center justify-between">
+        <div className="flex items-center space-x-3 rtl:space-x-reverse">
+          <Globe className="h-6 w-6 text-white" />
+          <div>
+            <h2 className="text-xl font-bold text-white">{region?.name || region?.code}</h2>
+            <p className="text-blue-100 text-sm">{labelService.get('region.countries', { count: rows.length })} &middot; {period}</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2 rtl:space-x-reverse print:hidden">
+          <button
+            onClick={handleExport}
+            disabled={rows.length === 0}
+            className="flex items-center space-x-2 rtl:space-x-reverse px-3 py-2 text-sm font-medium text-blue-700 bg-white rounded-md hover:bg-blue-50 disabled:opacity-50 transition-colors"
+          >
+            <Download className="h-4 w-4" />
+            <span>{labelService.get('region.exportCsv')}</span>
+          </button>
+          <button
+            onClick={handleWorkbookExport}
+            disabled={rows.length === 0 || workbookProgress !== null}
+            className="flex items-center space-x-2 rtl:space-x-reverse px-3 py-2 text-sm font-medium text-blue-700 bg-white rounded-md hover:bg-blue-50 disabled:opacity-50 transition-colors"
+            title={labelService.get('region.exportProfilesHint')}
+          >
+            {workbookProgress !== null ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileSpreadsheet className="h-4 w-4" />}
+            <span>
+              {workbookProgress !== null
+                ? labelService.get('region.loadingProfiles', { done: workbookProgress, total: rows.length })
+                : labelService.get('region.exportProfiles')}
+            </span>
+          </button>
+        </div>
+      </div>
+
+      {workbookNotice && (
+        <div className={`flex items-center space-x-2 rtl:space-x-reverse px-6 py-3 text-sm border-b print:hidden ${
+          workbookNotice.failed ? 'bg-red-50 border-red-200 text-red-700' : 'bg-amber-50 border-amber-200 text-amber-800'
+        }`}>
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span>{workbookNotice.text}</span>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-gray-50">
+              <th
+                onClick={() => handleSort('country')}
+                className="text-start py-2 px-3 font-medium text-gray-700 cursor-pointer select-none hover:text-gray-900"
+              >
+                {labelService.get('region.country')}<SortIcon column="country" />
+              </th>
+              {REGIONAL_INDICATORS.map(indicator => (
+                <th
+                  key={indicator.id}
+                  onClick={() => handleSort(indicator.id)}
+                  className="text-end py-2 px-3 font-medium text-gray-700 cursor-pointer select-none hover:text-gray-900"
+                >
+                  {labelService.get(indicator.label)}<SortIcon column={indicator.id} />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {sortedRows.map(row => (
+              <tr key={row.country.id} className={row.country.id === country.id ? 'bg-blue-50' : ''}>
+                <td className="py-2 px-3 text-gray-900">
+                  {onCountrySelect ? (
+                    <button onClick={() => onCountrySelect(row.country)} className="text-start hover:text-blue-600 hover:underline">
+                      {row.country.shortName}
+                    </button>
+                  ) : row.country.shortName}
+                </td>
+                {REGIONAL_INDICATORS.map(indicator => {
+                  const value = row.values[indicator.id];
+                  const max = indicator.format === 'percent' ? 100 : maxValues[indicator.id];
+                  const width = value !== null && max > 0 ? Math.min(100, (value / max) * 100) : 0;
+                  return (
+                    <td key={indicator.id} className="py-2 px-3 text-end">
+                      <div className="font-medium text-gray-900">{formatIndicatorValue(indicator, value)}</div>
+                      <div className="h-1.5 bg-gray-100 rounded-full mt-1">
+                        <div className="h-1.5 bg-blue-400 rounded-full ms-auto" style={{ width: `${width}%` }} />
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            {sortedRows.length === 0 && (
+              <tr>
+                <td colSpan={REGIONAL_INDICATORS.length + 1} className="py-6 px-3 text-center text-gray-500">
+                  {labelService.get('region.noCountries')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
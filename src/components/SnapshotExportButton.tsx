@@ -0,0 +1,19 @@
+import { FileJson } from "lucide-react";
+import { labelService } from "../services/labelService";
+
+type Props = { onExport: () => void; disabled?: boolean };
+
+export function SnapshotExportButton({ onExport, disabled }: Props) {
+  return (
+    <button
+      onClick={onExport}
+      disabled={disabled}
+      className="inline-flex items-center gap-2 rounded-xl border px-3 py-2 text-sm shadow-sm hover:bg-neutral-50 disabled:opacity-60 print:hidden"
+      aria-label={labelService.get("app.exportSnapshot")}
+      title={labelService.get(disabled ? "profile.availableWhenLoaded" : "app.exportSnapshotHint")}
+    >
+      <FileJson size={16} />
+      {labelService.get("app.exportSnapshot")}
+    </button>
+  );
+}
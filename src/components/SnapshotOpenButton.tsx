@@ -0,0 +1,41 @@
+import { useRef, useState, ChangeEvent } from "react";
+import { FolderOpen } from "lucide-react";
+import { profileSnapshotService } from "../services/profileSnapshotService";
+import { labelService } from "../services/labelService";
+import { ProfileSnapshot } from "../types/snapshot";
+
+type Props = { onOpen: (snapshot: ProfileSnapshot) => void };
+
+export function SnapshotOpenButton({ onOpen }: Props) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again
+    event.target.value = "";
+    if (!file) return;
+
+    setError(null);
+    try {
+      onOpen(await profileSnapshotService.readSnapshot(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : labelService.get("app.openSnapshotFailed"));
+    }
+  };
+
+  return (
+    <div className="print:hidden">
+      <input ref={inputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+      <button
+        onClick={() => inputRef.current?.click()}
+        className="inline-flex items-center gap-2 rounded-xl border px-3 py-2 text-sm shadow-sm hover:bg-neutral-50"
+        aria-label={labelService.get("app.openSnapshot")}
+      >
+        <FolderOpen size={16} />
+        {labelService.get("app.openSnapshot")}
+      </button>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
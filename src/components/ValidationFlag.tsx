@@ -0,0 +1,26 @@
+import { AlertTriangle } from 'lucide-react';
+import { ValidationWarning } from '../services/validationService';
+
+interface ValidationFlagProps {
+  warnings?: ValidationWarning[];
+  className?: string;
+}
+
+/**
+ * Warning icon shown next to an implausible value; the messages are in its tooltip.
+ * Hidden when printing so warnings never end up in a published profile.
+ */
+export function ValidationFlag({ warnings = [], className = '' }: ValidationFlagProps) {
+  if (warnings.length === 0) return null;
+  const messages = warnings.map(warning => warning.message).join('\n');
+  return (
+    <span
+      role="img"
+      title={messages}
+      aria-label={`Validation warning: ${messages}`}
+      className={`inline-flex align-middle ms-1 text-amber-500 print:hidden ${className}`}
+    >
+      <AlertTriangle className="h-3.5 w-3.5" />
+    </span>
+  );
+}
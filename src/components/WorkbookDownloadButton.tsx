@@ -0,0 +1,39 @@
+import { useState } from "react";
+import { AlertCircle, FileSpreadsheet, Loader2 } from "lucide-react";
+import { labelService } from "../services/labelService";
+
+type Props = { onDownload: () => Promise<void>; disabled?: boolean };
+
+export function WorkbookDownloadButton({ onDownload, disabled }: Props) {
+  const [busy, setBusy] = useState(false);
+  // Message of the last failed attempt, cleared by the next one
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await onDownload();
+    } catch (err) {
+      console.error("[WorkbookDownloadButton] Workbook export failed:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleDownload}
+      disabled={busy || disabled}
+      className={`inline-flex items-center gap-2 rounded-xl border px-3 py-2 text-sm shadow-sm hover:bg-neutral-50 disabled:opacity-60 print:hidden ${
+        error ? "border-red-300 bg-red-50 text-red-700" : ""
+      }`}
+      aria-label={labelService.get("app.downloadData")}
+      title={error ?? labelService.get(disabled ? "profile.availableWhenLoaded" : "app.downloadDataHint")}
+    >
+      {busy ? <Loader2 size={16} className="animate-spin" /> : error ? <AlertCircle size={16} /> : <FileSpreadsheet size={16} />}
+      {busy ? labelService.get("app.preparingData") : labelService.get(error ? "app.dataFailed" : "app.downloadData")}
+    </button>
+  );
+}
@@ -40,4 +40,16 @@ export const CHART_CONFIG = {
     TITLE_FONT_SIZE: 12,
     TITLE_FONT_WEIGHT: 'bold' as const,
   },
-} as const;
\ No newline at end of file
+} as const;
+
+// Series colours as RGB components, drawn at the opacity each series type needs
+export const CHART_COLORS = {
+  BLUE: '59, 130, 246',
+  GREEN: '34, 197, 94',
+  RED: '239, 68, 68',
+  PURPLE: '168, 85, 247',
+  AMBER: '245, 158, 11',
+  PINK: '236, 72, 153',
+  GRAY: '156, 163, 175',
+  DARK: '17, 24, 39',
+} as const;
@@ -0,0 +1,32 @@
+// Chart Definitions
+// Data elements used to build the survey source notes shown under the charts.
+// These defaults can be overridden from the DHIS2 dataStore (see profileDefinitionService).
+
+export interface ChartDefinitions {
+  // Survey data elements listed in the source line under a single chart, keyed by chart id
+  chartSources: Record<string, string[]>;
+  // Survey data elements combined into the "Survey sources" note at the bottom of the profile
+  surveySources: {
+    common: string[];
+    e2025: string[];    // Only added for E2025 countries
+    nonE2025: string[]; // Only added for all other countries
+  };
+}
+
+export const DEFAULT_CHART_DEFINITIONS: ChartDefinitions = {
+  chartSources: {
+    chart2: ['nvqnQcEbuPA', 'o4iFtiN0YZh'], // Care sought (any provider / public health facility)
+  },
+  surveySources: {
+    common: [
+      'nvqnQcEbuPA', // Care sought from any provider
+      'o4iFtiN0YZh', // Care sought from public health facility
+      'IGQENa04DFm', // %<5 fever cases who had finger/heel stick
+      'heI5NQZqZRW', // ACTs as % of all antimalarials received by <5
+      'ZnSwOwcQt52', // % <5 with a positive microscopy slide on the day of the survey
+      'gZrHErmb74i', // % <5 with a positive rdt on the day of the survey
+    ],
+    e2025: ['LSlfr3VzLCp'],    // % of households with at least 1 ITN
+    nonE2025: ['SQWZ8POEhMI'], // % of the population who slept under an ITN the previous night
+  },
+};
@@ -0,0 +1,262 @@
+// Chart Specs
+// What each profile chart plots: its series, how they are drawn, on which axis and in
+// which format, and the variants for E2025 countries, regions and PARAM_EPI_DISPLAY.
+// ProfileChart draws any spec, so a new chart only needs a new entry here.
+
+import { TransformationRule } from '../services/dataTransformationService';
+import { CHART_COLORS } from './chartConfig';
+import { isE2025Country } from './dhis2DataElements';
+import { LabelKey } from './labels';
+
+// Time series charts start in this year (the WMR default) and end in the profile year
+export const CHART_START_YEAR = 2010;
+// Earliest year that can be chosen on screen, for trends since 2000
+export const CHART_EARLIEST_YEAR = 2000;
+
+export type ChartKind = 'timeSeries' | 'pie';
+export type ChartSeriesType = 'line' | 'area' | 'bar' | 'slice';
+export type ChartAxisId = 'y' | 'y1';
+// count: 1.2M on the axis, 1,234,567 in tooltips; rate: cases per 1000
+export type ChartValueFormat = 'count' | 'percent' | 'rate' | 'currency';
+
+export interface ChartSeriesSpec {
+  uid: string;
+  label: LabelKey;
+  type: ChartSeriesType;
+  color: string;                    // RGB components from CHART_COLORS
+  opacity?: number;                 // Fill opacity of bars and areas
+  axis?: ChartAxisId;               // Defaults to 'y'
+  order?: number;                   // Drawing order, lower is drawn on top
+  transform?: TransformationRule[]; // Replaces the rules registered for the data element
+}
+
+export interface ChartAxisSpec {
+  format: ChartValueFormat;
+  title?: LabelKey;  // Percent axes default to "(%)"
+  max?: number;
+  stacked?: boolean;
+}
+
+// The part of a chart that can change between variants
+export interface ChartLayout {
+  title: LabelKey;
+  series: ChartSeriesSpec[];
+  axes: Partial<Record<ChartAxisId, ChartAxisSpec>>;
+}
+
+// Country the chart is drawn for
+export interface ChartContext {
+  countryCode: string;
+  region: string; // WHO region code, e.g. AFR
+  paramEpiDisplay: number;
+}
+
+export interface ChartVariant extends Partial<ChartLayout> {
+  when: (context: ChartContext) => boolean;
+}
+
+export interface ChartSpec extends ChartLayout {
+  id: string;
+  kind: ChartKind;
+  variants?: ChartVariant[];  // The first matching variant replaces the title, series or axes
+  format?: ChartValueFormat;  // Slice values of pie charts
+  startYear?: number;         // First year of a time series in print, defaults to CHART_START_YEAR
+  skipRounding?: boolean;     // Keep decimals DHIS2 would round away
+  missingAsZero?: boolean;    // Stacked bars and pies cannot show gaps
+  hideWhenEmpty?: boolean;    // Leave the chart out of the profile when nothing was reported
+}
+
+const isAfricanNonE2025 = (context: ChartContext) => context.region === 'AFR' && !isE2025Country(context.countryCode);
+
+const PERCENT_AXIS: ChartAxisSpec = { format: 'percent', max: 100 };
+
+export const CHART_SPECS: ChartSpec[] = [
+  {
+    id: 'chart1',
+    kind: 'timeSeries',
+    title: 'chart1.title',
+    axes: { y: { format: 'count', title: 'chart1.yAxis' } },
+    series: [
+      { uid: 'an08m0ybMb1', label: 'chart1.estimatedCases', type: 'area', color: CHART_COLORS.BLUE, opacity: 0.6, order: 1 },
+      { uid: 'TfL9cVeMHyd', label: 'chart1.confirmedCases', type: 'line', color: CHART_COLORS.DARK, order: 2 },
+    ],
+    variants: [
+      {
+        // Countries reporting indigenous cases instead of confirmed cases
+        when: context => context.paramEpiDisplay !== 1,
+        series: [
+          { uid: 'an08m0ybMb1', label: 'chart1.estimatedCases', type: 'area', color: CHART_COLORS.BLUE, opacity: 0.6, order: 1 },
+          { uid: 'gyAhkgE9tlU', label: 'chart1.indigenousCases', type: 'line', color: CHART_COLORS.DARK, order: 2 },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'chart2',
+    kind: 'timeSeries',
+    title: 'chart2.title',
+    axes: { y: { format: 'percent' } },
+    series: [
+      { uid: 'BJXyRAkf2HZ', label: 'chart2.reportingCompleteness', type: 'line', color: CHART_COLORS.BLUE, order: 1 },
+      { uid: 'nvqnQcEbuPA', label: 'chart2.careSoughtAny', type: 'bar', color: CHART_COLORS.GREEN, order: 2 },
+      { uid: 'o4iFtiN0YZh', label: 'chart2.careSoughtPublic', type: 'bar', color: CHART_COLORS.RED, opacity: 1, order: 3 },
+    ],
+  },
+  {
+    id: 'chart3',
+    kind: 'timeSeries',
+    title: 'chart3.title',
+    axes: {
+      y: { format: 'count', title: 'chart3.yAxis' },
+      y1: PERCENT_AXIS,
+    },
+    series: [
+      { uid: 'hhmyDXcPavC', label: 'chart3.treatmentCourses', type: 'bar', color: CHART_COLORS.GREEN, order: 2 },
+      { uid: 'Rdbxu0qoX8U', label: 'chart3.suspectedTested', type: 'line', color: CHART_COLORS.BLUE, axis: 'y1', order: 1 },
+      { uid: 'IGQENa04DFm', label: 'chart3.feverCasesTested', type: 'line', color: CHART_COLORS.RED, axis: 'y1', order: 1 },
+      { uid: 'heI5NQZqZRW', label: 'chart3.actsShare', type: 'line', color: CHART_COLORS.PURPLE, axis: 'y1', order: 1 },
+    ],
+  },
+  {
+    id: 'chart4',
+    kind: 'timeSeries',
+    title: 'chart4.title',
+    axes: { y: PERCENT_AXIS },
+    series: [
+      { uid: 'ZoMFYowPAkO', label: 'chart4.slidePositivity', type: 'line', color: CHART_COLORS.BLUE },
+      { uid: 'eVYQuP1faAt', label: 'chart4.rdtPositivity', type: 'line', color: CHART_COLORS.RED },
+      { uid: 'ZnSwOwcQt52', label: 'chart4.surveyMicroscopy', type: 'bar', color: CHART_COLORS.GREEN, opacity: 1 },
+      { uid: 'gZrHErmb74i', label: 'chart4.surveyRdt', type: 'bar', color: CHART_COLORS.PURPLE, opacity: 1 },
+    ],
+  },
+  {
+    id: 'chart5',
+    kind: 'timeSeries',
+    title: 'chart5.title',
+    axes: { y: { format: 'rate', title: 'chart5.yAxis' } },
+    series: [
+      { uid: 'Y00dFsUx6ES', label: 'chart5.allSpecies', type: 'area', color: CHART_COLORS.GREEN, order: 1 },
+      { uid: 'fpEWR1WmPZY', label: 'chart5.pVivax', type: 'line', color: CHART_COLORS.BLUE, order: 2 },
+    ],
+  },
+  {
+    id: 'chart6',
+    kind: 'timeSeries',
+    title: 'chart6.titleInpatients',
+    axes: {
+      y: { format: 'count', title: 'chart6.casesAxis' },
+      y1: { format: 'count', title: 'chart6.deathsAxis' },
+    },
+    series: [
+      { uid: 'GPi56xW9OJJ', label: 'chart6.inpatientCases', type: 'line', color: CHART_COLORS.BLUE },
+      { uid: 'WoxQjgg6grm', label: 'chart6.inpatientCasesUnder5', type: 'line', color: CHART_COLORS.GREEN },
+      { uid: 'P7pI8pyU313', label: 'chart6.inpatientDeaths', type: 'line', color: CHART_COLORS.RED, axis: 'y1' },
+      { uid: 'jDevPHyqPDX', label: 'chart6.inpatientDeathsUnder5', type: 'line', color: CHART_COLORS.PURPLE, axis: 'y1' },
+    ],
+    variants: [
+      {
+        // E2025 countries report cases by classification instead of inpatients
+        when: context => isE2025Country(context.countryCode),
+        title: 'chart6.titleClassification',
+        axes: { y: { format: 'count', title: 'chart6.casesAxis' } },
+        series: [
+          { uid: 's9PrOj148cI', label: 'chart6.importedCases', type: 'line', color: CHART_COLORS.BLUE },
+          { uid: 'ulmblp2rojh', label: 'chart6.indigenousPFalciparum', type: 'line', color: CHART_COLORS.RED },
+          { uid: 'UMgazh7eqLm', label: 'chart6.indigenousPVivax', type: 'line', color: CHART_COLORS.GREEN },
+          { uid: 'm0jc79EVfzn', label: 'chart6.introducedCases', type: 'line', color: CHART_COLORS.PURPLE },
+          { uid: 'MFzhW1xlBFW', label: 'chart6.relapseCases', type: 'line', color: CHART_COLORS.AMBER },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'chart7',
+    kind: 'timeSeries',
+    title: 'chart7.title',
+    axes: { y: PERCENT_AXIS },
+    skipRounding: true, // IRS coverage needs its decimals
+    series: [
+      { uid: 'bfRZJGS7KOh', label: 'chart7.protectedItn', type: 'area', color: CHART_COLORS.BLUE, order: 1 },
+      { uid: 'niYxtlxx68s', label: 'chart7.protectedIrs', type: 'line', color: CHART_COLORS.RED, order: 2 },
+      { uid: 'SQWZ8POEhMI', label: 'chart7.sleptUnderItn', type: 'bar', color: CHART_COLORS.GREEN, order: 3 },
+      { uid: 'LSlfr3VzLCp', label: 'chart7.householdsWithItn', type: 'bar', color: CHART_COLORS.PURPLE, order: 4 },
+    ],
+    variants: [
+      {
+        // African countries outside E2025 show modelled ITN access instead
+        when: isAfricanNonE2025,
+        series: [
+          { uid: 'rVUHAOEXV67', label: 'chart7.accessToItn', type: 'area', color: CHART_COLORS.BLUE, order: 1 },
+          { uid: 'niYxtlxx68s', label: 'chart7.protectedIrs', type: 'line', color: CHART_COLORS.RED, order: 2 },
+          { uid: 'SQWZ8POEhMI', label: 'chart7.sleptUnderItn', type: 'bar', color: CHART_COLORS.GREEN, order: 3 },
+          { uid: 'LSlfr3VzLCp', label: 'chart7.householdsWithItn', type: 'bar', color: CHART_COLORS.PURPLE, order: 4 },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'chart8',
+    kind: 'timeSeries',
+    title: 'chart8.title',
+    axes: { y: { format: 'currency', title: 'chart8.yAxis', stacked: true } },
+    skipRounding: true, // Funding is reported with decimals
+    missingAsZero: true,
+    series: [
+      { uid: 'EZKlghYRnnB', label: 'chart8.government', type: 'bar', color: CHART_COLORS.BLUE },
+      { uid: 'SQ1v0YjfAcW', label: 'chart8.globalFund', type: 'bar', color: CHART_COLORS.GREEN },
+      { uid: 'JrVZ5GeTlGs', label: 'chart8.usaidPmi', type: 'bar', color: CHART_COLORS.RED },
+      { uid: 'OGZljNFx3q9', label: 'chart8.worldBank', type: 'bar', color: CHART_COLORS.PURPLE },
+      { uid: 'W62lvp0yZAS', label: 'chart8.whoUnicef', type: 'bar', color: CHART_COLORS.AMBER },
+      { uid: 'ilA4hUUKuzV', label: 'chart8.other', type: 'bar', color: CHART_COLORS.GRAY },
+    ],
+  },
+  {
+    id: 'chart9',
+    kind: 'pie',
+    title: 'chart9.title',
+    axes: {},
+    format: 'currency',
+    missingAsZero: true,
+    hideWhenEmpty: true,
+    series: [
+      { uid: 'A35xaYItzoR', label: 'chart9.insecticides', type: 'slice', color: CHART_COLORS.BLUE },
+      { uid: 'woabRXKLkOS', label: 'chart9.itns', type: 'slice', color: CHART_COLORS.GREEN },
+      { uid: 'Ckaj4nTAJOU', label: 'chart9.diagnosticTesting', type: 'slice', color: CHART_COLORS.RED },
+      { uid: 'nSnRC8hGXO9', label: 'chart9.medicines', type: 'slice', color: CHART_COLORS.PURPLE },
+      { uid: 'SosWfz9NeuF', label: 'chart9.monitoring', type: 'slice', color: CHART_COLORS.AMBER },
+      { uid: 'omBKmGhzvsJ', label: 'chart9.humanResources', type: 'slice', color: CHART_COLORS.PINK },
+      { uid: 'LAQ4pC4yP9z', label: 'chart9.management', type: 'slice', color: CHART_COLORS.GRAY },
+    ],
+  },
+];
+
+/**
+ * First year a time series chart shows in print
+ */
+export function getChartStartYear(spec: ChartSpec): number {
+  return spec.startYear ?? CHART_START_YEAR;
+}
+
+export function getChartSpec(id: string): ChartSpec | undefined {
+  return CHART_SPECS.find(spec => spec.id === id);
+}
+
+/**
+ * Title, series and axes of a chart for one country
+ */
+export function resolveChartLayout(spec: ChartSpec, context: ChartContext): ChartLayout {
+  const variant = spec.variants?.find(candidate => candidate.when(context));
+  return {
+    title: variant?.title ?? spec.title,
+    series: variant?.series ?? spec.series,
+    axes: variant?.axes ?? spec.axes,
+  };
+}
+
+/**
+ * Data elements a chart can plot, across all its variants
+ */
+export function getChartDataElements(spec: ChartSpec): string[] {
+  const series = [spec, ...(spec.variants || [])].flatMap(layout => layout.series || []);
+  return Array.from(new Set(series.map(item => item.uid)));
+}
@@ -0,0 +1,14 @@
+// Country Filtering
+// Countries excluded from the country dropdown and from batch exports
+
+// Dataset whose organisation units are the countries with a profile
+export const COUNTRY_PROFILE_DATASET = 'CWuqJ3dtQC4';
+
+export const EXCLUDED_COUNTRY_CODES = ['BLZ','BTN','CPV','MYT','MYS','SAU','SUR','TLS','TZA'];
+
+// Tanzania Mainland and Zanzibar are level 4 but listed as countries
+export const SUBNATIONAL_COUNTRY_CODES = ['TZA-4-1', 'TZA-4-2'];
+
+export function isExcludedCountry(countryCode: string): boolean {
+  return EXCLUDED_COUNTRY_CODES.includes(countryCode);
+}
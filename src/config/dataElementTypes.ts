@@ -0,0 +1,44 @@
+// Data Element Type Expectations
+// DHIS2 value and aggregation types each profile value type can be read from, and the
+// data elements used outside the profile definition (maps and charts).
+// Used by metadataConformanceService to check the DHIS2 metadata before data entry.
+
+import { ProfileValueType } from './profileDefinition';
+import { CHART_SPECS, getChartDataElements } from './chartSpecs';
+
+const NUMERIC_VALUE_TYPES = [
+  'NUMBER',
+  'INTEGER',
+  'INTEGER_POSITIVE',
+  'INTEGER_NEGATIVE',
+  'INTEGER_ZERO_OR_POSITIVE',
+  'PERCENTAGE',
+  'UNIT_INTERVAL',
+];
+
+// The first type of each list is the one to configure; the others are read correctly too
+export const ACCEPTED_VALUE_TYPES: Record<ProfileValueType, string[]> = {
+  text: ['TEXT', 'LONG_TEXT'],
+  optionSet: ['TEXT'],
+  number: NUMERIC_VALUE_TYPES,
+  boolean: [...NUMERIC_VALUE_TYPES, 'BOOLEAN', 'TRUE_ONLY'], // Stored as 1/0 or Yes/No
+};
+
+// Analytics only returns text values for data elements that are not aggregated
+export const TEXT_AGGREGATION_TYPES = ['NONE'];
+
+// Map file names and years, read by CountryProfile
+export const MAP_DATA_ELEMENTS = {
+  map1Year: 'f2u7VciFSDC',
+  map2Year: 'JEPMG4n2TIN',
+  map1Name: 'PJKhyoOd4C7',
+  map2Name: 'FYt2o1zbOwm',
+  map1Legend: 'INwlclks0KQ',
+  map2Legend: 'lnsHnhqAaTj',
+} as const;
+
+// Numeric series plotted by each chart, including the variants for E2025 countries,
+// regions and PARAM_EPI_DISPLAY
+export const CHART_DATA_ELEMENTS: Record<string, string[]> = Object.fromEntries(
+  CHART_SPECS.map(spec => [spec.id, getChartDataElements(spec)])
+);
@@ -0,0 +1,273 @@
+// Labels
+// Chart titles, axis titles, legend labels and the text of the profile, resolved by labelService.
+// The text below is the WMR wording and config/translations holds the built-in translations;
+// a locale without its own text falls back to the DHIS2 name of the label's data element in
+// that locale, then to the English text.
+// Text can be added or changed without a rebuild through the "labels" dataStore key.
+
+// Text by locale code; English is always present
+export type LocalizedText = { en: string } & Partial<Record<string, string>>;
+
+export interface LabelDefinition {
+  text: LocalizedText; // May contain {placeholders}, e.g. {period}
+  uid?: string;        // Data element whose DHIS2 name is used when the locale has no text
+  short?: boolean;     // Use the DHIS2 short name, for chart legends
+}
+
+// Chart series label, named by the DHIS2 short name in other locales
+const series = (uid: string, en: string): LabelDefinition => ({ uid, short: true, text: { en } });
+// Profile table label, named by the full DHIS2 name in other locales
+const field = (uid: string, en: string): LabelDefinition => ({ uid, text: { en } });
+// Text that is not the name of a data element
+const fixed = (en: string): LabelDefinition => ({ text: { en } });
+
+export const LABELS = {
+  // Population distribution
+  'profile.highTransmission': field('LQSgzKhQoh8', 'High transmission (>1 case per 1000 population)'),
+  'profile.lowTransmission': field('JsmA90dQeAh', 'Low transmission (0-1 case per 1000 population)'),
+  'profile.malariaFree': field('fh1QtNCJUyq', 'Malaria free (0 cases)'),
+  'profile.populationTotal': field('eDlvedXdgwP', 'Total'),
+
+  // Reported cases and deaths
+  'profile.totalCases': field('yJfOFMOsfoQ', 'Total cases (presumed + confirmed)'),
+  'profile.totalConfirmedCases': field('TfL9cVeMHyd', 'Total confirmed cases'),
+  'profile.reportedIndigenousConfirmedCases': field('gyAhkgE9tlU', 'Reported indigenous confirmed cases'),
+  'profile.confirmedHealthFacility': field('WuN5NAumc6J', 'Confirmed cases from public sector (health facility)'),
+  'profile.confirmedCommunity': field('Z8mZlV7MnkP', 'Confirmed cases at community level'),
+  'profile.confirmedPrivateSector': field('Zgw9XVftBa9', 'Confirmed cases from private sector'),
+  'profile.reportedDeaths': field('Ykqy9bxrjEW', 'Reported deaths'),
+  'profile.indigenousDeaths': field('gbrU43t4EVZ', 'Indigenous deaths'),
+
+  // WHO estimates
+  'profile.estimatedCases': field('an08m0ybMb1', 'Estimated Cases'),
+  'profile.estimatedDeaths': field('teNpUQqjMSQ', 'Estimated Deaths'),
+  'profile.casesLowerBound': field('b6YD3A8Dr2Q', 'Estimated cases (lower bound)'),
+  'profile.casesUpperBound': field('KKWevgN9TXF', 'Estimated cases (upper bound)'),
+  'profile.deathsLowerBound': field('NTePqFiUuS0', 'Estimated deaths (lower bound)'),
+  'profile.deathsUpperBound': field('uPJpcydAwET', 'Estimated deaths (upper bound)'),
+
+  // Profile headings, table headers and footnotes
+  'profile.dataCompleteness': fixed('Data completeness'),
+  'profile.dataCompletenessHint': fixed('Check which data elements are filled'),
+  'profile.availableWhenLoaded': fixed('Available once the profile has finished loading'),
+  'profile.loading': fixed('Loading country profile for {country}...'),
+  'profile.loadError': fixed('Error Loading Data'),
+  'profile.retry': fixed('Retry'),
+  'profile.mapNotAvailable': fixed('Map not available'),
+  'profile.legendNotAvailable': fixed('Legend not available'),
+  'profile.epidemiologicalProfile': fixed('I. Epidemiological Profile'),
+  'profile.populationDistribution': fixed('Population Distribution (Country reported)'),
+  'profile.population': fixed('Population'),
+  'profile.parasitesAndVectors': fixed('Parasites and Vectors'),
+  'profile.majorPlasmodiumSpecies': fixed('Major Plasmodium Species'),
+  'profile.plasmodiumFootnote': fixed('Includes mixed infections and other species of Plasmodium'),
+  'profile.majorAnophelesSpecies': fixed('Major Anopheles Species'),
+  'profile.reportedCasesAndDeaths': fixed('Reported Cases and Deaths'),
+  'profile.whoEstimates': fixed('WHO Estimates'),
+  'profile.confidenceInterval': fixed('Confidence Interval'),
+  'profile.interventionPolicies': fixed('II. Intervention policies and strategies'),
+  'profile.interventionsAndPolicies': fixed('Interventions and Policies'),
+  'profile.intervention': fixed('Intervention'),
+  'profile.policiesStrategies': fixed('Policies/Strategies'),
+  'profile.policy': fixed('Policy'),
+  'profile.year': fixed('Year'),
+  'profile.yes': fixed('Yes'),
+  'profile.yesNotImplemented': fixed('Yes*'),
+  'profile.no': fixed('No'),
+  'profile.neverAllowed': fixed('has never been allowed'),
+  'profile.banned': fixed('is banned'),
+  'profile.notImplementedFootnote': fixed('Policy adopted, but not implemented in {period}, or no data exist to support implementation'),
+  'profile.noPolicyFootnote': fixed('Policy does not exist or policy has been discontinued'),
+  'profile.yearAdoptedFootnote': fixed('Earliest year that policy is adopted was adjusted based on the earliest year that the WHO policy was recommended'),
+  'profile.treatmentPolicy': fixed('Antimalarial Treatment Policy'),
+  'profile.treatmentPolicyColumn': fixed('Antimalaria treatment policy'),
+  'profile.medicine': fixed('Medicine'),
+  'profile.yearAdopted': fixed('Year adopted'),
+  'profile.rdtType': fixed('Type of RDT used (public)'),
+  'profile.therapeuticEfficacy': fixed('Therapeutic efficacy tests (clinical and parasitological failure, %)'),
+  'profile.min': fixed('Min'),
+  'profile.median': fixed('Median'),
+  'profile.max': fixed('Max'),
+  'profile.followUp': fixed('Follow-up'),
+  'profile.numberOfStudies': fixed('No. of studies'),
+  'profile.species': fixed('Species'),
+  'profile.resistanceStatus': fixed('Resistance status by insecticide class (2020-2024) and use of class for malaria vector control (2024)'),
+  'profile.insecticideClass': fixed('Insecticide class'),
+  'profile.sites': fixed('(%) sites'),
+  'profile.vectors': fixed('Vectors'),
+  'profile.used': fixed('Used'),
+  'profile.sitesFootnote': fixed('Percent of sites for which resistance is confirmed and total number of sites that reported data'),
+  'profile.vectorsFootnote': fixed('Vectors reported to exhibit resistance to insecticide class'),
+  'profile.usedFootnote': fixed('Class reported as used for malaria control in 2024'),
+  'profile.dataVisualization': fixed('III. Data Visualization'),
+  'profile.footnotes': fixed('Footnotes'),
+  'profile.aboutProfiles': fixed('Country profiles are generated automatically based on data reported by countries. They are available for all current malaria endemic countries and areas asked to report to the Malaria and Neglected Tropical Diseases Programme annually. Country profiles are based on data validated by the countries as of 15 October 2025.'),
+  'profile.surveySources': fixed('Survey sources'),
+  'profile.estimationMethods': fixed('Further information on the methods used to estimate malaria cases and an explanation for the gap between estimated and reported confirmed indigenous cases is provided'),
+  'profile.noData': fixed('No data reported'),
+  'profile.noDataFootnote': fixed('no data reported.'),
+  'profile.worldMalariaReport': fixed('World Malaria Report {year}'),
+
+  // Application shell, country selector and toolbar buttons
+  'app.language': fixed('Language of the profile'),
+  'app.refreshData': fixed('Refresh data'),
+  'app.refreshDataHint': fixed('Reload all data from DHIS2 instead of the local cache'),
+  'app.snapshotBanner': fixed('Offline snapshot of {country} ({edition}), exported {date}'),
+  'app.closeSnapshot': fixed('Close snapshot'),
+  'app.viewProfile': fixed('Country profile'),
+  'app.viewRegion': fixed('Regional dashboard'),
+  'app.invalidYear': fixed('The year parameter is not accepted. Supported years: {years}. Please select a country from the dropdown.'),
+  'app.welcome': fixed('Welcome to'),
+  'app.welcomeName': fixed('World Malaria Report Country Profile'),
+  'app.welcomeHint': fixed('Select a country from the dropdown above to view the malaria epidemiological profile, intervention policies, and treatment guidelines.'),
+  'app.snapshotHint': fixed('No connection to DHIS2? Open a profile snapshot exported earlier.'),
+  'app.selectYear': fixed('Select Year'),
+  'app.compareWith': fixed('Compare with'),
+  'app.noComparison': fixed('No comparison'),
+  'app.selectCountry': fixed('Select Country'),
+  'app.loadingCountries': fixed('Loading countries...'),
+  'app.chooseCountry': fixed('Choose a country'),
+  'app.searchCountries': fixed('Search countries...'),
+  'app.noCountriesFound': fixed('No countries found'),
+  'app.print': fixed('Print'),
+  'app.downloadPdf': fixed('Download PDF'),
+  'app.generatingPdf': fixed('Generating PDF...'),
+  'app.pdfFailed': fixed('PDF failed, try again'),
+  'app.downloadData': fixed('Download data'),
+  'app.downloadDataHint': fixed('Download the profile values and chart series as an Excel workbook'),
+  'app.preparingData': fixed('Preparing data...'),
+  'app.dataFailed': fixed('Download failed, try again'),
+  'app.exportSnapshot': fixed('Export snapshot'),
+  'app.exportSnapshotHint': fixed('Save this profile for offline review'),
+  'app.openSnapshot': fixed('Open offline snapshot'),
+  'app.openSnapshotFailed': fixed('Failed to open snapshot'),
+
+  // Edition comparison
+  'comparison.loading': fixed('Comparing {previous} and {current} for {country}...'),
+  'comparison.loadFailed': fixed('Failed to load comparison'),
+  'comparison.summary': fixed('{previous} compared with {current}'),
+  'comparison.changedValues': fixed('Changed values: {count}'),
+  'comparison.changedOnly': fixed('Show changed values only'),
+  'comparison.sectionChanges': fixed('Changed: {count}'),
+  'comparison.indicator': fixed('Indicator'),
+  'comparison.noChanges': fixed('No changes'),
+
+  // Regional dashboard
+  'region.loading': fixed('Loading regional indicators...'),
+  'region.loadFailed': fixed('Failed to load regional dashboard'),
+  'region.unknownRegion': fixed('Could not determine the WHO region of {country}'),
+  'region.countries': fixed('Countries: {count}'),
+  'region.exportCsv': fixed('Export CSV'),
+  'region.exportProfiles': fixed('Export profiles (XLSX)'),
+  'region.exportProfilesHint': fixed('Profile values and chart series of every country, one sheet per section'),
+  'region.loadingProfiles': fixed('Loading profiles {done}/{total}...'),
+  'region.exportProfilesFailed': fixed('Failed to export profiles: {error}'),
+  'region.profilesLeftOut': fixed('Countries left out of the workbook: {count} of {total}, see the "Countries left out" sheet'),
+  'region.country': fixed('Country'),
+  'region.noCountries': fixed('No accessible countries found in this region'),
+  'region.estimatedCases': field('an08m0ybMb1', 'Estimated cases'),
+  'region.confirmedCases': field('TfL9cVeMHyd', 'Confirmed cases'),
+  'region.reportedDeaths': field('Ykqy9bxrjEW', 'Reported deaths'),
+  'region.reportingCompleteness': field('BJXyRAkf2HZ', 'Reporting completeness (%)'),
+  'region.itnAccess': field('rVUHAOEXV67', 'Population with access to ITNs (%)'),
+
+  // WHO regions
+  'whoRegion.AFR': fixed('African Region'),
+  'whoRegion.EMR': fixed('Eastern Mediterranean Region'),
+  'whoRegion.EUR': fixed('European Region'),
+  'whoRegion.AMR': fixed('Region of the Americas'),
+  'whoRegion.SEAR': fixed('South-East Asia Region'),
+  'whoRegion.WPR': fixed('Western Pacific Region'),
+
+  // Shared by all charts
+  'chart.loadFailed': fixed('Failed to load chart'),
+  'chart.noData': fixed('No data available'),
+  'chart.startYear': fixed('From'),
+  'chart.showTable': fixed('Show data table'),
+  'chart.showChart': fixed('Show chart'),
+  'chart.download': fixed('Download {format}'),
+  'chart.values': fixed('Values'),
+  'chart.rawValues': fixed('Raw values'),
+  'chart.rawValue': fixed('{label}, raw'),
+  'chart.source': fixed('Source: {source}'),
+
+  'chart1.title': fixed('Estimated and reported cases'),
+  'chart1.yAxis': fixed('Cases'),
+  'chart1.estimatedCases': series('an08m0ybMb1', 'Estimated cases'),
+  'chart1.confirmedCases': series('TfL9cVeMHyd', 'Confirmed cases (reported)'),
+  'chart1.indigenousCases': series('gyAhkgE9tlU', 'Indigenous cases (reported)'),
+
+  'chart2.title': fixed('Treatment seeking and reporting completeness'),
+  'chart2.reportingCompleteness': series('BJXyRAkf2HZ', 'Reporting completeness'),
+  'chart2.careSoughtAny': series('nvqnQcEbuPA', 'Care sought (any)'),
+  'chart2.careSoughtPublic': series('o4iFtiN0YZh', 'Care sought (public health facility)'),
+
+  'chart3.title': fixed('Cases tested and treated'),
+  'chart3.yAxis': fixed('Treatment courses'),
+  'chart3.treatmentCourses': series('hhmyDXcPavC', '1st-line treatment courses distributed (incl. ACTs)'),
+  'chart3.suspectedTested': series('Rdbxu0qoX8U', 'Suspected cases tested (%)'),
+  'chart3.feverCasesTested': series('IGQENa04DFm', '%<5 fever cases who had finger/heel stick (survey)'),
+  'chart3.actsShare': series('heI5NQZqZRW', 'ACTs as % of all antimalarials received by <5 (survey)'),
+
+  'chart4.title': fixed('Test positivity'),
+  'chart4.slidePositivity': series('ZoMFYowPAkO', 'Slide positivity rate'),
+  'chart4.rdtPositivity': series('eVYQuP1faAt', 'RDT positivity rate'),
+  'chart4.surveyMicroscopy': series('ZnSwOwcQt52', '% <5 with a positive microscopy slide on the day of the survey'),
+  'chart4.surveyRdt': series('gZrHErmb74i', '% <5 with a positive rdt on the day of the survey'),
+
+  'chart5.title': fixed('Confirmed malaria cases per 1000 population at risk'),
+  'chart5.yAxis': fixed('Cases per 1000 pop at risk'),
+  'chart5.allSpecies': series('Y00dFsUx6ES', 'Cases (all species)'),
+  'chart5.pVivax': series('fpEWR1WmPZY', 'Cases (P. Vivax)'),
+
+  'chart6.titleClassification': fixed('Cases by classification'),
+  'chart6.titleInpatients': fixed('Malaria inpatients and deaths'),
+  'chart6.casesAxis': fixed('Cases'),
+  'chart6.deathsAxis': fixed('Deaths'),
+  'chart6.importedCases': series('s9PrOj148cI', 'Imported cases'),
+  'chart6.indigenousPFalciparum': series('ulmblp2rojh', 'Indigenous cases (P. falciparum)'),
+  'chart6.indigenousPVivax': series('UMgazh7eqLm', 'Indigenous cases (P. vivax)'),
+  'chart6.introducedCases': series('m0jc79EVfzn', 'Introduced cases'),
+  'chart6.relapseCases': series('MFzhW1xlBFW', 'Relapse cases'),
+  'chart6.inpatientCases': series('GPi56xW9OJJ', 'Inpatient malaria cases'),
+  'chart6.inpatientCasesUnder5': series('WoxQjgg6grm', 'Inpatient malaria cases - Under 5 yrs'),
+  'chart6.inpatientDeaths': series('P7pI8pyU313', 'Inpatient malaria deaths'),
+  'chart6.inpatientDeathsUnder5': series('jDevPHyqPDX', 'Inpatient malaria deaths - Under 5 yrs'),
+
+  'chart7.title': fixed('Coverage of ITN and IRS'),
+  'chart7.protectedItn': series('bfRZJGS7KOh', 'At risk protected with ITNs'),
+  'chart7.protectedIrs': series('niYxtlxx68s', 'At risk protected with IRS'),
+  'chart7.sleptUnderItn': series('SQWZ8POEhMI', '% of the population who slept under an ITN the previous night (survey)'),
+  'chart7.householdsWithItn': series('LSlfr3VzLCp', '% of households with at least 1 ITN (survey)'),
+  'chart7.accessToItn': series('rVUHAOEXV67', '% population that has access to ITNs (Modelled)'),
+
+  'chart8.title': fixed('Sources of financing'),
+  'chart8.yAxis': fixed('Funding (USD)'),
+  'chart8.government': series('EZKlghYRnnB', 'Government contribution'),
+  'chart8.globalFund': series('SQ1v0YjfAcW', 'Global Fund'),
+  'chart8.usaidPmi': series('JrVZ5GeTlGs', 'USAID/PMI'),
+  'chart8.worldBank': series('OGZljNFx3q9', 'World Bank'),
+  'chart8.whoUnicef': series('W62lvp0yZAS', 'WHO/UNICEF'),
+  'chart8.other': series('ilA4hUUKuzV', 'Other contributions'),
+
+  'chart9.title': fixed('Government expenditure by intervention in {period}'),
+  'chart9.insecticides': series('A35xaYItzoR', 'Insecticides & spray materials'),
+  'chart9.itns': series('woabRXKLkOS', 'ITNs'),
+  'chart9.diagnosticTesting': series('Ckaj4nTAJOU', 'Diagnostic testing'),
+  'chart9.medicines': series('nSnRC8hGXO9', 'Antimalarial medicines'),
+  'chart9.monitoring': series('SosWfz9NeuF', 'Monitoring and evaluation'),
+  'chart9.humanResources': series('omBKmGhzvsJ', 'Human resources & technical assistance'),
+  'chart9.management': series('LAQ4pC4yP9z', 'Management and other costs'),
+} satisfies Record<string, LabelDefinition>;
+
+export type LabelKey = keyof typeof LABELS;
+
+// Text added from the dataStore, keyed like LABELS
+export type LabelOverrides = Record<string, Partial<LocalizedText>>;
+
+/**
+ * Label keys of one scope, e.g. getLabelKeys('chart4') or getLabelKeys('profile')
+ */
+export function getLabelKeys(scope: string): LabelKey[] {
+  return (Object.keys(LABELS) as LabelKey[]).filter(key => key.startsWith(`${scope}.`));
+}
@@ -0,0 +1,35 @@
+// Locales
+// Languages the profile is translated into. Other locales can still be requested with
+// ?locale=; their labels then come from DHIS2 names and the dataStore only.
+
+export const DEFAULT_LOCALE = 'en';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LocaleDefinition {
+  code: string;
+  name: string;         // Name of the language in that language, for the selector
+  direction: TextDirection;
+  numberLocale: string; // Locale used to format numbers
+}
+
+export const SUPPORTED_LOCALES: LocaleDefinition[] = [
+  { code: 'en', name: 'English', direction: 'ltr', numberLocale: 'en' },
+  { code: 'fr', name: 'Français', direction: 'ltr', numberLocale: 'fr' },
+  { code: 'es', name: 'Español', direction: 'ltr', numberLocale: 'es' },
+  { code: 'pt', name: 'Português', direction: 'ltr', numberLocale: 'pt' },
+  // WHO Arabic publications use Western digits
+  { code: 'ar', name: 'العربية', direction: 'rtl', numberLocale: 'ar-u-nu-latn' },
+];
+
+export function getLocaleDefinition(code: string): LocaleDefinition | undefined {
+  return SUPPORTED_LOCALES.find(locale => locale.code === code);
+}
+
+/**
+ * Supported locale for a DHIS2 locale setting, e.g. "fr_SN" -> "fr"
+ */
+export function matchSupportedLocale(dhis2Locale: string | null | undefined): string | undefined {
+  const language = dhis2Locale?.split(/[_-]/)[0].toLowerCase();
+  return language ? getLocaleDefinition(language)?.code : undefined;
+}
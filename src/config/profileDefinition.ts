@@ -0,0 +1,400 @@
+// Country Profile Definition
+// Declarative description of every DHIS2 data element the country profile reads.
+// Adding or retiring a WMR indicator should only require a change in this file.
+
+import { TransformationRule } from '../services/dataTransformationService';
+import { ChartDefinitions, DEFAULT_CHART_DEFINITIONS } from './chartDefinitions';
+import { LabelOverrides } from './labels';
+
+export type ProfileValueType = 'text' | 'number' | 'boolean' | 'optionSet';
+
+export interface ProfileFieldDefinition {
+  uid: string;
+  valueType: ProfileValueType;
+  label: string;
+  optionSetId?: string; // Required when valueType is 'optionSet'
+  transformations?: TransformationRule[];
+}
+
+// A group of fields read together, keyed by the property name used in the typed output
+export type ProfileFieldGroup = Record<string, ProfileFieldDefinition>;
+
+export interface ProfileSectionDefinition<F extends ProfileFieldGroup = ProfileFieldGroup> {
+  id: string;
+  label: string;
+  fields?: ProfileFieldGroup;
+  rows?: F[]; // Repeated rows sharing the same shape (e.g. therapeutic efficacy studies)
+}
+
+// Value produced for each value type once analytics rows are parsed
+export interface ProfileValueTypeMap {
+  text: string | null;
+  number: number | null;
+  boolean: boolean | null;
+  optionSet: string | null; // Option display name
+}
+
+export type ProfileGroupValues<F extends ProfileFieldGroup> = {
+  [K in keyof F]-?: ProfileValueTypeMap[NonNullable<F[K]>['valueType']];
+};
+
+// Translated text of a policy by locale, e.g. { fr: { strategy: "..." } }.
+// Built-in translations are in config/translations.
+export type PolicyTranslations = Partial<Record<string, { intervention?: string; strategy?: string }>>;
+
+// Policy definitions with year validity
+export interface PolicyDefinition {
+  intervention: string;
+  strategy: string;
+  policyUID: string;
+  yearUID: string;
+  validFromYear?: number;  // Policy is valid from this year onwards
+  validUntilYear?: number; // Policy is valid until this year
+  displayOrder?: number;  // Order in which policy should appear
+  translations?: PolicyTranslations;
+}
+
+export interface TreatmentPolicyDefinition {
+  category: string;
+  medicineUID: string;
+  yearUID: string | null;
+  translations?: Partial<Record<string, string>>; // Category by locale
+}
+
+// Field helpers keep the definitions below on one line each
+type TypedField<T extends ProfileValueType> = ProfileFieldDefinition & { valueType: T };
+const text = (uid: string, label: string): TypedField<'text'> => ({ uid, valueType: 'text', label });
+const num = (uid: string, label: string): TypedField<'number'> => ({ uid, valueType: 'number', label });
+const bool = (uid: string, label: string): TypedField<'boolean'> => ({ uid, valueType: 'boolean', label });
+const option = (uid: string, label: string, optionSetId: string): TypedField<'optionSet'> => ({ uid, valueType: 'optionSet', label, optionSetId });
+
+const ANOPHELES_OPTION_SET = 'DNrGIbNB3oD';
+const INSECTICIDE_CLASS_OPTION_SET = 'eHrT4UiAgh8';
+
+// =============================================================================
+// SECTION DEFINITIONS
+// =============================================================================
+
+export const COUNTRY_INFO_SECTION = {
+  id: 'countryInfo',
+  label: 'Country parameters',
+  fields: {
+    indigSource: num('r9twqeAdnRe', 'INDIG_Source'), // Keep for charts
+    paramEpiDisplay: num('Uk5ZiClT56N', 'PARAM_EPI_DISPLAY'), // For profile display logic
+  },
+} satisfies ProfileSectionDefinition;
+
+export const POPULATION_SECTION = {
+  id: 'population',
+  label: 'Population Distribution',
+  fields: {
+    highTransmission: num('LQSgzKhQoh8', 'High transmission (>1 case per 1000 population)'),
+    lowTransmission: num('JsmA90dQeAh', 'Low transmission (0-1 case per 1000 population)'),
+    malariaFree: num('fh1QtNCJUyq', 'Malaria free (0 cases)'),
+    total: num('eDlvedXdgwP', 'Total'),
+  },
+} satisfies ProfileSectionDefinition;
+
+export const PARASITES_SECTION = {
+  id: 'parasites',
+  label: 'Parasites and Vectors',
+  fields: {
+    pFalciparum: num('tEKjyFJFiw0', 'P. falciparum (%)'),
+    pVivax: num('PIUtvDhX4s6', 'P. vivax (%)'),
+  },
+  rows: [
+    { species: option('EZiGVGfTyLe', 'Anopheles species 1', ANOPHELES_OPTION_SET) },
+    { species: option('IxSMxz5GT9U', 'Anopheles species 2', ANOPHELES_OPTION_SET) },
+    { species: option('e76O7EJtWGk', 'Anopheles species 3', ANOPHELES_OPTION_SET) },
+    { species: option('KT39UBQaP1w', 'Anopheles species 4', ANOPHELES_OPTION_SET) },
+    { species: option('uu7tSgybizF', 'Anopheles species 5', ANOPHELES_OPTION_SET) },
+    { species: option('sQmvMbqADAw', 'Anopheles species 6', ANOPHELES_OPTION_SET) },
+  ],
+} satisfies ProfileSectionDefinition;
+
+// Cases elements: includes all needed for different EPI_DISPLAY values
+export const CASES_SECTION = {
+  id: 'cases',
+  label: 'Reported Cases and Deaths',
+  fields: {
+    totalCases: num('yJfOFMOsfoQ', 'Total cases (presumed + confirmed)'),
+    totalConfirmedCases: num('TfL9cVeMHyd', 'Total confirmed cases'),
+    reportedIndigenousConfirmedCases: num('gyAhkgE9tlU', 'Reported indigenous confirmed cases'),
+    confirmedHealthFacility: num('WuN5NAumc6J', 'Confirmed cases from public sector (health facility)'),
+    confirmedCommunity: num('Z8mZlV7MnkP', 'Confirmed cases at community level'),
+    confirmedPrivateSector: num('Zgw9XVftBa9', 'Confirmed cases from private sector'),
+    reportedDeaths: num('Ykqy9bxrjEW', 'Reported deaths'),
+    indigenousDeaths: num('gbrU43t4EVZ', 'Indigenous deaths'),
+    footnoteText: text('LpmvOoiEVf0', 'Cases footnote'),
+  },
+} satisfies ProfileSectionDefinition;
+
+export const ESTIMATES_SECTION = {
+  id: 'estimates',
+  label: 'WHO Estimates',
+  fields: {
+    estimatedCases: num('an08m0ybMb1', 'Estimated cases'),
+    casesLowerBound: num('b6YD3A8Dr2Q', 'Estimated cases (lower bound)'),
+    casesUpperBound: num('KKWevgN9TXF', 'Estimated cases (upper bound)'),
+    estimatedDeaths: num('teNpUQqjMSQ', 'Estimated deaths'),
+    deathsLowerBound: num('NTePqFiUuS0', 'Estimated deaths (lower bound)'),
+    deathsUpperBound: num('uPJpcydAwET', 'Estimated deaths (upper bound)'),
+  },
+} satisfies ProfileSectionDefinition;
+
+export const TREATMENT_POLICY_DEFINITIONS: TreatmentPolicyDefinition[] = [
+  { category: 'First-line treatment of unconfirmed malaria', medicineUID: 'KSqJwXVSfbD', yearUID: 'cBQKI5gCOwN' },
+  { category: 'First-line treatment of P. falciparum', medicineUID: 'gz7J7ikcJ1e', yearUID: 'u4VCjjdqrVJ' },
+  { category: 'For treatment failure of P. falciparum', medicineUID: 'e6JiciQzwuh', yearUID: 'SQ8KJ8Xy2Pr' },
+  { category: 'Treatment of severe malaria', medicineUID: 'zW6EYvOjMIo', yearUID: 'r3yxLB3VYRe' },
+  { category: 'Treatment of P. vivax', medicineUID: 'lOvt1oXLdBr', yearUID: 'IA5JzgWAIop' },
+  //{ category: 'Dosage of primaquine for radical treatment of P. vivax', medicineUID: 'aLWOXICfAbR', yearUID: null },
+];
+
+export function buildTreatmentSection(definitions: TreatmentPolicyDefinition[] = TREATMENT_POLICY_DEFINITIONS) {
+  return {
+    id: 'treatment',
+    label: 'Antimalarial Treatment Policy',
+    rows: definitions.map((item): { medicine: TypedField<'text'>; yearAdopted?: TypedField<'number'> } => ({
+      medicine: text(item.medicineUID, `${item.category} - Medicine`),
+      ...(item.yearUID ? { yearAdopted: num(item.yearUID, `${item.category} - Year adopted`) } : {}),
+    })),
+  } satisfies ProfileSectionDefinition;
+}
+
+export const TREATMENT_SECTION = buildTreatmentSection();
+
+// Therapeutic efficacy years are text to preserve year ranges like "2016-2020"
+const therapeuticEfficacyRow = (row: number, uids: [string, string, string, string, string, string, string, string]) => ({
+  medicine: text(uids[0], `TES ${row} - Medicine`),
+  year: text(uids[1], `TES ${row} - Year`),
+  min: num(uids[2], `TES ${row} - Min`),
+  median: num(uids[3], `TES ${row} - Median`),
+  max: num(uids[4], `TES ${row} - Max`),
+  followUp: text(uids[5], `TES ${row} - Follow-up`),
+  numberOfStudies: num(uids[6], `TES ${row} - No. of studies`),
+  species: text(uids[7], `TES ${row} - Species`),
+});
+
+export const THERAPEUTIC_EFFICACY_SECTION = {
+  id: 'therapeuticEfficacy',
+  label: 'Therapeutic efficacy tests',
+  rows: [
+    therapeuticEfficacyRow(1, ['UIwEygmwj1J', 'l7q5DJ4yQMP', 'BlBY4UdnWZM', 'WMbpMQqde0V', 'YHpCsWMQ6pE', 'IBovXuvqLqM', 'kcRHmPlregB', 'lmkabfeVd1U']),
+    therapeuticEfficacyRow(2, ['rRs7tyHlgRc', 'NSNQbWC8PiS', 'vB7s4Xq6pkx', 'QA2HfJ5ZOQ0', 'w8R5rKb5KuT', 'MCb8TWRSlb0', 'RpyoOJfvdfW', 'LRksI6Vhz98']),
+    therapeuticEfficacyRow(3, ['NrMNyIUB7RQ', 'rrKtSwyOGd9', 'a6bMWsqDlcR', 'l87IZFzITds', 'TvBs5GvflzK', 'TzuDFOcom3h', 'k7AvoFS3jii', 'WdskU0t2N1i']),
+    therapeuticEfficacyRow(4, ['kp667EGomur', 'C1WcroDjXOI', 'b9Biv0I4khx', 'K4IETv0ObQb', 'bk4xSYYUTwX', 'aQdJEFAqmg2', 'Vh3SiBeiLqT', 'ejBlfRCpZAB']),
+  ],
+} satisfies ProfileSectionDefinition;
+
+// Sites are text to preserve values like "3/5"; Used is numeric (1/0)
+const resistanceStatusRow = (row: number, uids: [string, string, string, string, string]) => ({
+  insecticideClass: option(uids[0], `Resistance ${row} - Insecticide class`, INSECTICIDE_CLASS_OPTION_SET),
+  years: text(uids[1], `Resistance ${row} - Years`),
+  sites: text(uids[2], `Resistance ${row} - (%) sites`),
+  vectors: text(uids[3], `Resistance ${row} - Vectors`),
+  used: bool(uids[4], `Resistance ${row} - Used`),
+});
+
+export const RESISTANCE_STATUS_SECTION = {
+  id: 'resistanceStatus',
+  label: 'Resistance status by insecticide class',
+  rows: [
+    resistanceStatusRow(1, ['JRiVdTENIoc', 'e0EfJGiSb79', 'UKNTRFYcgr6', 'YqvLJLueLT1', 'Ub4bQGesaQa']),
+    resistanceStatusRow(2, ['OXa48KUAIpl', 'MnqhjD2JGWb', 'FYGTLutUdIA', 'jGFk8LVWdyS', 'NU9WgELSDVk']),
+    resistanceStatusRow(3, ['GI8boxUVl0X', 'jDFQP0JQamH', 'Putx3c0luqG', 'hJ3v9S8AK5S', 'AVEJomeEnuA']),
+    resistanceStatusRow(4, ['catAlhTNBdV', 'dQ8Zy175oQc', 'id9O30pMkaD', 'b4mMqIHFcIV', 'AlLE4Na6ZaK']),
+  ],
+} satisfies ProfileSectionDefinition;
+
+export const RDT_TYPE_SECTION = {
+  id: 'rdtType',
+  label: 'Type of RDT used (public)',
+  fields: {
+    rdtType: text('YNRlSV0dMPf', 'Type of RDT used (public)'),
+  },
+} satisfies ProfileSectionDefinition;
+
+// =============================================================================
+// POLICY DEFINITIONS - YEAR-BASED FILTERING
+// =============================================================================
+
+export const POLICY_DEFINITIONS: PolicyDefinition[] = [
+  // 1. Diagnosis Policies - 2024 onwards
+  { intervention: 'Diagnosis', strategy: 'Malaria diagnosis with either microscopy or RDTs are free in the public sector', policyUID: 'lLdqBPGWhu1', yearUID: 'NJZIDMAfHWt', displayOrder: 1 },
+
+  // 1. Diagnosis Policies - 2023 and earlier
+  { intervention: 'Diagnosis', strategy: 'Malaria diagnosis using RDT is free of charge in the public sector', policyUID: 'YsUd6nF0ueJ', yearUID: 'wUHmvm2OjXj', validUntilYear: 2023, displayOrder: 2 },
+  { intervention: 'Diagnosis', strategy: 'Malaria diagnosis using microscopy is free of charge in the public sector', policyUID: 'lzOLWfgxqWs', yearUID: 'b6gs2kxe1Uw', validUntilYear: 2023, displayOrder: 3 },
+  { intervention: 'Diagnosis', strategy: 'Malaria diagnosis is free of charge in the private sector', policyUID: 'UoeX8OFbDqx', yearUID: 'NfLyg6NTGae', validUntilYear: 2023, displayOrder: 4 },
+
+  // 10. Treatment Policies - All years unless specified
+  { intervention: 'Treatment', strategy: 'ACTs for malaria treatment is free in the public sector', policyUID: 'DyINPGgopL3', yearUID: 'UKsKOT9K9SQ', displayOrder: 10 },
+
+  //Treatment Policies - 2023 and earlier
+  { intervention: 'Treatment', strategy: 'Primaquine is used for radical treatment of P. vivax', policyUID: 'ugIeZT18C10', yearUID: 'AL004HeA4Tj', validUntilYear: 2023, displayOrder: 12 },
+  { intervention: 'Treatment', strategy: 'G6PD test is a requirement before treatment with primaquine', policyUID: 'NYYgVn2hLl6', yearUID: 'uVNMyFdMcHT', validUntilYear: 2023, displayOrder: 13 },
+  { intervention: 'Treatment', strategy: 'Directly observed treatment with primaquine is undertaken', policyUID: 'E7xOl37PtKW', yearUID: 'fZnwco6AY75', validUntilYear: 2023, displayOrder: 14 },
+  { intervention: 'Treatment', strategy: 'System for monitoring of adverse reaction to antimalarials exists', policyUID: 'TmkBWN7YSsS', yearUID: 'uRsupJISCmR', validUntilYear: 2023, displayOrder: 15 },
+
+  { intervention: 'Treatment', strategy: 'ACT is delivered at community', policyUID: 'AXnVeNe9yF9', yearUID: 'sWXSI2KOQiQ', displayOrder: 11 },
+  { intervention: 'Treatment', strategy: 'Pre-referral Rx with rectal artesunate suppositories at community level', policyUID: 'gzyORQNEpkZ', yearUID: 'HhSG5KOszRE', displayOrder: 16 },
+  { intervention: 'Treatment', strategy: 'Single dose of primaquine is used as gametocidal medicine for P. falciparum', policyUID: 'KmPLPFZJpHU', yearUID: 'SEzJzC07clE', displayOrder: 17 },
+  { intervention: 'Treatment', strategy: 'The sale of oral artemisinin- based monotherapy drugs', policyUID: 'MrVSpLKqDsp', yearUID: 'K822hl8P5cJ', displayOrder: 18 },
+
+  // 20. IPT Policies
+  { intervention: 'IPT', strategy: 'IPT used to prevent malaria during pregnancy', policyUID: 'geSDyXkZNU1', yearUID: 'n1L03jjC8ej', displayOrder: 20 },
+  { intervention: 'IPT', strategy: 'Community based delivery of IPTp (c-IPTp) is used to prevent malaria during pregnancy aligned with WHO recommendation', policyUID: 'Q260gqIU0A1', yearUID: 'E6hsEdJtWim', validFromYear: 2024, displayOrder: 21 },
+  { intervention: 'IPT', strategy: 'Seasonal malaria chemoprevention (SMC) is used, aligned with WHO recommendation', policyUID: 'apgTbakUcGw', yearUID: 'kVxe33FsZSS', validFromYear: 2024, displayOrder: 22 },
+  { intervention: 'IPT', strategy: 'Perennial Malaria Chemoprevention (PMC) is used, aligned with WHO recommendation', policyUID: 'myQQJ1wGzIs', yearUID: 'NAHlVK5KLSo', validFromYear: 2024, displayOrder: 23 },
+  { intervention: 'IPT', strategy: 'Intermittent Preventive Treatment in school-aged children (IPTsc) is used, aligned with WHO recommendation', policyUID: 'rSxvwUOJEQN', yearUID: 'sRQbAHXFZqi', validFromYear: 2024, displayOrder: 24 },
+  //{ intervention: 'IPT', strategy: 'Post-Discharge Malaria Chemoprevention (PDMC) is used, aligned with WHO recommendation', policyUID: 'PG4Gb8CSs9u', yearUID: 'hsGBa8ww12w', validFromYear: 2024, displayOrder: 25 },
+
+  // 30. Surveillance Policies
+  { intervention: 'Surveillance', strategy: 'Malaria is a notifiable disease', policyUID: 'anvAOV5ht6p', yearUID: 'TtbfDs5cXt3', displayOrder: 30 },
+  { intervention: 'Surveillance', strategy: 'Case investigation and classification is undertaken', policyUID: 'LFuetZdwR81', yearUID: 'bsgecIQFQvp', displayOrder: 31 },
+  { intervention: 'Surveillance', strategy: 'Foci investigation and classification is undertaken', policyUID: 'DP8ImP6qAK2', yearUID: 'BSYYdY5DPw4', displayOrder: 32 },
+
+  // 30. Surveillance Policies - 2023 and earlier
+  { intervention: 'Surveillance', strategy: 'ACD for case investigation (reactive)', policyUID: 'xlnxh4R7Gwt', yearUID: 'QcqpJldcsHj', validUntilYear: 2023, displayOrder: 33 },
+  { intervention: 'Surveillance', strategy: 'ACD at community level of febrile cases (pro-active)', policyUID: 'iTbPoUugAiA', yearUID: 'Bo0riNVa5V7', validUntilYear: 2023, displayOrder: 34 },
+  { intervention: 'Surveillance', strategy: 'Mass screening is undertaken', policyUID: 'MSf8VHWAkLj', yearUID: 'pYzj15BVyl8', validUntilYear: 2023, displayOrder: 35 },
+  { intervention: 'Surveillance', strategy: 'Uncomplicated P. falciparum cases routinely admitted', policyUID: 'usY6jfPj7jb', yearUID: 'Q3BxJwzOjn8', validUntilYear: 2023, displayOrder: 36 },
+  { intervention: 'Surveillance', strategy: 'Uncomplicated P. vivax cases routinely admitted', policyUID: 'tNePhPWXIce', yearUID: 'fqTk6BHqgzk', validUntilYear: 2023, displayOrder: 37 },
+  { intervention: 'Surveillance', strategy: 'Case reporting from private sector is mandatory', policyUID: 'uVy7wsFKUKj', yearUID: 'OJaWx05JgII', displayOrder: 38 },
+
+  // 40. ITN Policies - 2024 onwards
+  { intervention: 'ITN', strategy: 'ITNs distributed free of charge through through mass campaign to all age groups', policyUID: 'gagBPnUGmaY', yearUID: 'vrqd6AO3eO0', displayOrder: 41 },
+  { intervention: 'ITN', strategy: 'ITNs distributed free of charge through routine channels to all age groups', policyUID: 'Vm1oCupLZsS', yearUID: 'HzrPyUbuI3d', displayOrder: 42 },
+  { intervention: 'ITN', strategy: 'ITNs durability is monitored', policyUID: 'XHwHMqT5nmK', yearUID: 'vHp4LHvdhGt', displayOrder: 43 },
+
+  // 50. IRS Policies
+  { intervention: 'IRS', strategy: 'IRS is an intervention at the NMP', policyUID: 'JKP3ANVLyjN', yearUID: 'tbntOU0xvJo', displayOrder: 51 },
+  { intervention: 'IRS', strategy: 'DDT is used for IRS', policyUID: 'H9P0BVxKBYM', yearUID: 'VDihj2VLq4A', displayOrder: 52 },
+
+  // 60. Larval Control Policies
+  { intervention: 'Larval source management ', strategy: 'Use of Larval source management', policyUID: 'VBkox9y1nbh', yearUID: 'htRtowcXu3u', displayOrder: 60 }
+];
+
+/**
+ * Policies valid for the given year, sorted by displayOrder (undefined orders at the end)
+ */
+export function getPoliciesForYear(year: number, definitions: PolicyDefinition[] = POLICY_DEFINITIONS): PolicyDefinition[] {
+  return definitions
+    .filter(policy => {
+      // Check validUntilYear (inclusive) - policy is valid until this year (inclusive)
+      if (policy.validUntilYear && year > policy.validUntilYear) {
+        return false;
+      }
+      // Check validFromYear (inclusive) - policy is valid from this year onwards
+      if (policy.validFromYear && year < policy.validFromYear) {
+        return false;
+      }
+      return true;
+    })
+    .sort((a, b) => (a.displayOrder ?? 999999) - (b.displayOrder ?? 999999));
+}
+
+export function buildPolicySection(policies: PolicyDefinition[]) {
+  return {
+    id: 'policies',
+    label: 'Interventions and Policies',
+    rows: policies.map(item => ({
+      policy: text(item.policyUID, item.strategy),
+      yearAdopted: num(item.yearUID, `${item.strategy} - Year adopted`),
+    })),
+  } satisfies ProfileSectionDefinition;
+}
+
+// =============================================================================
+// RUNTIME OVERRIDES
+// =============================================================================
+
+// Overrides are keyed by "<sectionId>.<fieldKey>" or "<sectionId>.<rowIndex>.<fieldKey>"
+// e.g. "cases.footnoteText" or "therapeuticEfficacy.0.medicine"
+export interface ProfileFieldOverride {
+  uid?: string;
+  label?: string;
+}
+
+export interface ProfileDefinitions {
+  policies: PolicyDefinition[];
+  treatmentPolicies: TreatmentPolicyDefinition[];
+  fieldOverrides: Record<string, ProfileFieldOverride>;
+  charts: ChartDefinitions;
+  labels: LabelOverrides;
+}
+
+export const DEFAULT_PROFILE_DEFINITIONS: ProfileDefinitions = {
+  policies: POLICY_DEFINITIONS,
+  treatmentPolicies: TREATMENT_POLICY_DEFINITIONS,
+  fieldOverrides: {},
+  charts: DEFAULT_CHART_DEFINITIONS,
+  labels: {},
+};
+
+function applyGroupOverrides<F extends ProfileFieldGroup>(group: F, prefix: string, overrides: Record<string, ProfileFieldOverride>): F {
+  const result: ProfileFieldGroup = {};
+  Object.entries(group).forEach(([key, field]) => {
+    const override = overrides[`${prefix}.${key}`];
+    result[key] = override ? { ...field, ...override } : field;
+  });
+  return result as F;
+}
+
+/**
+ * Apply UID/label overrides to a section. Value types are never overridden
+ * so the typed output of the section stays the same.
+ */
+export function applyFieldOverrides<S extends ProfileSectionDefinition>(section: S, overrides: Record<string, ProfileFieldOverride>): S {
+  if (Object.keys(overrides).length === 0) return section;
+  return {
+    ...section,
+    fields: section.fields && applyGroupOverrides(section.fields, section.id, overrides),
+    rows: section.rows?.map((row, index) => applyGroupOverrides(row, `${section.id}.${index}`, overrides)),
+  };
+}
+
+/**
+ * All sections requested for a country profile in the given year, keyed by section id.
+ * Each section is fetched with its own analytics request to stay within URL length limits.
+ */
+export function getProfileSections(year: number, definitions: ProfileDefinitions = DEFAULT_PROFILE_DEFINITIONS) {
+  const policies = getPoliciesForYear(year, definitions.policies);
+  const withOverrides = <S extends ProfileSectionDefinition>(section: S) => applyFieldOverrides(section, definitions.fieldOverrides);
+
+  return {
+    countryInfo: withOverrides(COUNTRY_INFO_SECTION),
+    population: withOverrides(POPULATION_SECTION),
+    parasites: withOverrides(PARASITES_SECTION),
+    cases: withOverrides(CASES_SECTION),
+    estimates: withOverrides(ESTIMATES_SECTION),
+    policies: buildPolicySection(policies),
+    treatment: buildTreatmentSection(definitions.treatmentPolicies),
+    therapeuticEfficacy: withOverrides(THERAPEUTIC_EFFICACY_SECTION),
+    resistanceStatus: withOverrides(RESISTANCE_STATUS_SECTION),
+    rdtType: withOverrides(RDT_TYPE_SECTION),
+    policyDefinitions: policies,
+  };
+}
+
+/**
+ * The sections of getProfileSections as a list, in profile order
+ */
+export function getProfileSectionList(year: number, definitions: ProfileDefinitions = DEFAULT_PROFILE_DEFINITIONS): ProfileSectionDefinition[] {
+  const sections = getProfileSections(year, definitions);
+  return [
+    sections.countryInfo, sections.population, sections.parasites, sections.cases, sections.estimates,
+    sections.policies, sections.treatment, sections.therapeuticEfficacy, sections.resistanceStatus, sections.rdtType,
+  ];
+}
+
+/**
+ * Flatten a section into the list of field definitions it contains
+ */
+export function getSectionFields(section: ProfileSectionDefinition): ProfileFieldDefinition[] {
+  return [
+    ...Object.values(section.fields || {}),
+    ...(section.rows || []).flatMap(row => Object.values(row)),
+  ];
+}
@@ -0,0 +1,21 @@
+// Regional Dashboard Indicators
+// Key indicators compared across all countries of a WHO region
+
+import { LabelKey } from './labels';
+
+export type RegionalIndicatorFormat = 'count' | 'percent';
+
+export interface RegionalIndicator {
+  id: string;
+  uid: string;
+  label: LabelKey;
+  format: RegionalIndicatorFormat;
+}
+
+export const REGIONAL_INDICATORS: RegionalIndicator[] = [
+  { id: 'estimatedCases', uid: 'an08m0ybMb1', label: 'region.estimatedCases', format: 'count' },
+  { id: 'confirmedCases', uid: 'TfL9cVeMHyd', label: 'region.confirmedCases', format: 'count' },
+  { id: 'reportedDeaths', uid: 'Ykqy9bxrjEW', label: 'region.reportedDeaths', format: 'count' },
+  { id: 'reportingCompleteness', uid: 'BJXyRAkf2HZ', label: 'region.reportingCompleteness', format: 'percent' },
+  { id: 'itnAccess', uid: 'rVUHAOEXV67', label: 'region.itnAccess', format: 'percent' },
+];
@@ -0,0 +1,842 @@
+// Translations
+// Built-in translations of the profile text, by locale. Labels are keyed like config/labels,
+// policies by policy UID and treatment policies by medicine UID, so dataStore definitions
+// reusing a built-in UID keep its translation. Text for the same key in the "labels"
+// dataStore key, or in the translations of a dataStore policy, takes precedence.
+// Species names are left untranslated: they are italicised wherever they appear.
+
+import { LabelKey } from './labels';
+
+export interface Translations {
+  labels: Partial<Record<LabelKey, string>>;
+  interventions: Record<string, string>;     // By English intervention name
+  policies: Record<string, string>;          // Strategy by policy UID
+  treatmentPolicies: Record<string, string>; // Category by medicine UID
+}
+
+const FR: Translations = {
+  labels: {
+    'profile.dataCompleteness': 'Complétude des données',
+    'profile.dataCompletenessHint': 'Vérifier quels éléments de données sont renseignés',
+    'profile.availableWhenLoaded': 'Disponible une fois le profil chargé',
+    'profile.loading': 'Chargement du profil de {country}...',
+    'profile.loadError': 'Erreur lors du chargement des données',
+    'profile.retry': 'Réessayer',
+    'profile.mapNotAvailable': 'Carte non disponible',
+    'profile.legendNotAvailable': 'Légende non disponible',
+    'profile.epidemiologicalProfile': 'I. Profil épidémiologique',
+    'profile.populationDistribution': 'Répartition de la population (déclarée par le pays)',
+    'profile.population': 'Population',
+    'profile.parasitesAndVectors': 'Parasites et vecteurs',
+    'profile.majorPlasmodiumSpecies': 'Principales espèces de Plasmodium',
+    'profile.plasmodiumFootnote': 'Comprend les infections mixtes et les autres espèces de Plasmodium',
+    'profile.majorAnophelesSpecies': 'Principales espèces d’Anopheles',
+    'profile.reportedCasesAndDeaths': 'Cas et décès notifiés',
+    'profile.whoEstimates': 'Estimations de l’OMS',
+    'profile.confidenceInterval': 'Intervalle de confiance',
+    'profile.interventionPolicies': 'II. Politiques et stratégies d’intervention',
+    'profile.interventionsAndPolicies': 'Interventions et politiques',
+    'profile.intervention': 'Intervention',
+    'profile.policiesStrategies': 'Politiques/Stratégies',
+    'profile.policy': 'Politique',
+    'profile.year': 'Année',
+    'profile.yes': 'Oui',
+    'profile.yesNotImplemented': 'Oui*',
+    'profile.no': 'Non',
+    'profile.neverAllowed': 'n’a jamais été autorisée',
+    'profile.banned': 'est interdite',
+    'profile.notImplementedFootnote': 'Politique adoptée mais non mise en œuvre en {period}, ou aucune donnée ne permet d’attester sa mise en œuvre',
+    'profile.noPolicyFootnote': 'La politique n’existe pas ou a été abandonnée',
+    'profile.yearAdoptedFootnote': 'L’année d’adoption la plus ancienne a été ajustée à l’année à laquelle la politique a été recommandée pour la première fois par l’OMS',
+    'profile.treatmentPolicy': 'Politique de traitement antipaludique',
+    'profile.treatmentPolicyColumn': 'Politique de traitement antipaludique',
+    'profile.medicine': 'Médicament',
+    'profile.yearAdopted': 'Année d’adoption',
+    'profile.rdtType': 'Type de TDR utilisé (secteur public)',
+    'profile.therapeuticEfficacy': 'Tests d’efficacité thérapeutique (échec clinique et parasitologique, %)',
+    'profile.min': 'Min',
+    'profile.median': 'Médiane',
+    'profile.max': 'Max',
+    'profile.followUp': 'Suivi',
+    'profile.numberOfStudies': 'Nbre d’études',
+    'profile.species': 'Espèce',
+    'profile.resistanceStatus': 'Statut de la résistance par classe d’insecticide (2020-2024) et utilisation de la classe pour la lutte antivectorielle (2024)',
+    'profile.insecticideClass': 'Classe d’insecticide',
+    'profile.sites': '(%) sites',
+    'profile.vectors': 'Vecteurs',
+    'profile.used': 'Utilisée',
+    'profile.sitesFootnote': 'Pourcentage de sites où la résistance est confirmée et nombre total de sites ayant notifié des données',
+    'profile.vectorsFootnote': 'Vecteurs signalés comme résistants à la classe d’insecticide',
+    'profile.usedFootnote': 'Classe signalée comme utilisée pour la lutte contre le paludisme en 2024',
+    'profile.dataVisualization': 'III. Visualisation des données',
+    'profile.footnotes': 'Notes',
+    'profile.aboutProfiles': 'Les profils de pays sont générés automatiquement à partir des données notifiées par les pays. Ils sont disponibles pour tous les pays et zones actuellement endémiques pour le paludisme invités à rendre compte chaque année au Programme de lutte contre le paludisme et les maladies tropicales négligées. Les profils de pays reposent sur les données validées par les pays au 15 octobre 2025.',
+    'profile.surveySources': 'Sources des enquêtes',
+    'profile.estimationMethods': 'Des informations complémentaires sur les méthodes d’estimation des cas de paludisme et une explication de l’écart entre les cas estimés et les cas autochtones confirmés notifiés sont disponibles ici',
+    'profile.noData': 'Aucune donnée notifiée',
+    'profile.noDataFootnote': 'aucune donnée notifiée.',
+    'profile.worldMalariaReport': 'Rapport sur le paludisme dans le monde {year}',
+    'chart.loadFailed': 'Échec du chargement du graphique',
+    'chart.noData': 'Aucune donnée disponible',
+    'chart.startYear': 'Depuis',
+    'chart.showTable': 'Afficher le tableau de données',
+    'chart.showChart': 'Afficher le graphique',
+    'chart.download': 'Télécharger {format}',
+    'chart.values': 'Valeurs',
+    'chart.rawValues': 'Valeurs brutes',
+    'chart.rawValue': '{label}, brut',
+    'chart1.title': 'Cas estimés et notifiés',
+    'chart1.yAxis': 'Cas',
+    'chart2.title': 'Recours aux soins et complétude des rapports',
+    'chart3.title': 'Cas testés et traités',
+    'chart3.yAxis': 'Traitements',
+    'chart4.title': 'Positivité des tests',
+    'chart5.title': 'Cas de paludisme confirmés pour 1000 habitants à risque',
+    'chart5.yAxis': 'Cas pour 1000 hab. à risque',
+    'chart6.titleClassification': 'Cas par classification',
+    'chart6.titleInpatients': 'Hospitalisations et décès dus au paludisme',
+    'chart6.casesAxis': 'Cas',
+    'chart6.deathsAxis': 'Décès',
+    'chart7.title': 'Couverture en MII et PID',
+    'chart8.title': 'Sources de financement',
+    'chart8.yAxis': 'Financement (USD)',
+    'chart9.title': 'Dépenses publiques par intervention en {period}',
+    'app.language': 'Langue du profil',
+    'app.refreshData': 'Actualiser les données',
+    'app.refreshDataHint': 'Recharger toutes les données depuis DHIS2 au lieu du cache local',
+    'app.snapshotBanner': 'Instantané hors ligne de {country} ({edition}), exporté le {date}',
+    'app.closeSnapshot': 'Fermer l’instantané',
+    'app.viewProfile': 'Profil de pays',
+    'app.viewRegion': 'Tableau de bord régional',
+    'app.invalidYear': 'Le paramètre d’année n’est pas accepté. Années disponibles : {years}. Veuillez sélectionner un pays dans la liste.',
+    'app.welcome': 'Bienvenue dans le',
+    'app.welcomeName': 'Profil de pays du Rapport sur le paludisme dans le monde',
+    'app.welcomeHint': 'Sélectionnez un pays dans la liste ci-dessus pour afficher le profil épidémiologique du paludisme, les politiques d’intervention et les directives de traitement.',
+    'app.snapshotHint': 'Pas de connexion à DHIS2 ? Ouvrez un instantané de profil exporté précédemment.',
+    'app.selectYear': 'Sélectionner l’année',
+    'app.compareWith': 'Comparer avec',
+    'app.noComparison': 'Aucune comparaison',
+    'app.selectCountry': 'Sélectionner le pays',
+    'app.loadingCountries': 'Chargement des pays...',
+    'app.chooseCountry': 'Choisir un pays',
+    'app.searchCountries': 'Rechercher un pays...',
+    'app.noCountriesFound': 'Aucun pays trouvé',
+    'app.print': 'Imprimer',
+    'app.downloadPdf': 'Télécharger le PDF',
+    'app.generatingPdf': 'Génération du PDF...',
+    'app.pdfFailed': 'Échec du PDF, réessayer',
+    'app.downloadData': 'Télécharger les données',
+    'app.downloadDataHint': 'Télécharger les valeurs du profil et les séries des graphiques dans un classeur Excel',
+    'app.preparingData': 'Préparation des données...',
+    'app.dataFailed': 'Échec du téléchargement, réessayer',
+    'app.exportSnapshot': 'Exporter un instantané',
+    'app.exportSnapshotHint': 'Enregistrer ce profil pour une consultation hors ligne',
+    'app.openSnapshot': 'Ouvrir un instantané hors ligne',
+    'app.openSnapshotFailed': 'Impossible d’ouvrir l’instantané',
+    'comparison.loading': 'Comparaison de {previous} et {current} pour {country}...',
+    'comparison.loadFailed': 'Échec du chargement de la comparaison',
+    'comparison.summary': '{previous} comparé à {current}',
+    'comparison.changedValues': 'Valeurs modifiées : {count}',
+    'comparison.changedOnly': 'Afficher uniquement les valeurs modifiées',
+    'comparison.sectionChanges': 'Modifiées : {count}',
+    'comparison.indicator': 'Indicateur',
+    'comparison.noChanges': 'Aucune modification',
+    'region.loading': 'Chargement des indicateurs régionaux...',
+    'region.loadFailed': 'Échec du chargement du tableau de bord régional',
+    'region.unknownRegion': 'Impossible de déterminer la région OMS de {country}',
+    'region.countries': 'Pays : {count}',
+    'region.exportCsv': 'Exporter en CSV',
+    'region.exportProfiles': 'Exporter les profils (XLSX)',
+    'region.exportProfilesHint': 'Valeurs des profils et séries des graphiques de chaque pays, une feuille par section',
+    'region.loadingProfiles': 'Chargement des profils {done}/{total}...',
+    'region.exportProfilesFailed': 'Échec de l’export des profils : {error}',
+    'region.profilesLeftOut': 'Pays absents du classeur : {count} sur {total}, voir la feuille « Countries left out »',
+    'region.country': 'Pays',
+    'region.noCountries': 'Aucun pays accessible dans cette région',
+    'region.estimatedCases': 'Cas estimés',
+    'region.confirmedCases': 'Cas confirmés',
+    'region.reportedDeaths': 'Décès notifiés',
+    'region.reportingCompleteness': 'Complétude des rapports (%)',
+    'region.itnAccess': 'Population ayant accès aux MII (%)',
+    'whoRegion.AFR': 'Région africaine',
+    'whoRegion.EMR': 'Région de la Méditerranée orientale',
+    'whoRegion.EUR': 'Région européenne',
+    'whoRegion.AMR': 'Région des Amériques',
+    'whoRegion.SEAR': 'Région de l’Asie du Sud-Est',
+    'whoRegion.WPR': 'Région du Pacifique occidental',
+    'chart.source': 'Source : {source}',
+  },
+  interventions: {
+    'Diagnosis': 'Diagnostic',
+    'Treatment': 'Traitement',
+    'IPT': 'TPI',
+    'Surveillance': 'Surveillance',
+    'ITN': 'MII',
+    'IRS': 'PID',
+    'Larval source management': 'Gestion des gîtes larvaires',
+  },
+  policies: {
+    lLdqBPGWhu1: 'Le diagnostic du paludisme par microscopie ou TDR est gratuit dans le secteur public',
+    YsUd6nF0ueJ: 'Le diagnostic du paludisme par TDR est gratuit dans le secteur public',
+    lzOLWfgxqWs: 'Le diagnostic du paludisme par microscopie est gratuit dans le secteur public',
+    UoeX8OFbDqx: 'Le diagnostic du paludisme est gratuit dans le secteur privé',
+    DyINPGgopL3: 'Les CTA pour le traitement du paludisme sont gratuites dans le secteur public',
+    ugIeZT18C10: 'La primaquine est utilisée pour le traitement radical de P. vivax',
+    NYYgVn2hLl6: 'Un test G6PD est requis avant le traitement par primaquine',
+    E7xOl37PtKW: 'Le traitement par primaquine est administré sous observation directe',
+    TmkBWN7YSsS: 'Un système de surveillance des effets indésirables des antipaludiques existe',
+    AXnVeNe9yF9: 'Les CTA sont délivrées au niveau communautaire',
+    gzyORQNEpkZ: 'Traitement de pré-transfert par suppositoires d’artésunate au niveau communautaire',
+    KmPLPFZJpHU: 'Une dose unique de primaquine est utilisée comme gamétocytocide contre P. falciparum',
+    MrVSpLKqDsp: 'La vente de monothérapies orales à base d’artémisinine',
+    geSDyXkZNU1: 'Le TPI est utilisé pour prévenir le paludisme pendant la grossesse',
+    Q260gqIU0A1: 'Le TPIg à base communautaire (TPIg-c) est utilisé pour prévenir le paludisme pendant la grossesse, conformément aux recommandations de l’OMS',
+    apgTbakUcGw: 'La chimioprévention du paludisme saisonnier (CPS) est utilisée, conformément aux recommandations de l’OMS',
+    myQQJ1wGzIs: 'La chimioprévention du paludisme pérenne (CPP) est utilisée, conformément aux recommandations de l’OMS',
+    rSxvwUOJEQN: 'Le traitement préventif intermittent chez les enfants d’âge scolaire (TPIsc) est utilisé, conformément aux recommandations de l’OMS',
+    anvAOV5ht6p: 'Le paludisme est une maladie à déclaration obligatoire',
+    LFuetZdwR81: 'Les cas font l’objet d’une investigation et d’une classification',
+    DP8ImP6qAK2: 'Les foyers font l’objet d’une investigation et d’une classification',
+    xlnxh4R7Gwt: 'DAC pour l’investigation des cas (réactif)',
+    iTbPoUugAiA: 'DAC des cas fébriles au niveau communautaire (proactif)',
+    MSf8VHWAkLj: 'Un dépistage de masse est réalisé',
+    usY6jfPj7jb: 'Les cas de P. falciparum non compliqués sont systématiquement hospitalisés',
+    tNePhPWXIce: 'Les cas de P. vivax non compliqués sont systématiquement hospitalisés',
+    uVy7wsFKUKj: 'La notification des cas par le secteur privé est obligatoire',
+    gagBPnUGmaY: 'MII distribuées gratuitement lors de campagnes de masse à tous les groupes d’âge',
+    Vm1oCupLZsS: 'MII distribuées gratuitement par les circuits de routine à tous les groupes d’âge',
+    XHwHMqT5nmK: 'La durabilité des MII est surveillée',
+    JKP3ANVLyjN: 'La PID est une intervention du PNLP',
+    H9P0BVxKBYM: 'Le DDT est utilisé pour la PID',
+    VBkox9y1nbh: 'Recours à la gestion des gîtes larvaires',
+  },
+  treatmentPolicies: {
+    KSqJwXVSfbD: 'Traitement de première intention du paludisme non confirmé',
+    gz7J7ikcJ1e: 'Traitement de première intention de P. falciparum',
+    e6JiciQzwuh: 'En cas d’échec thérapeutique à P. falciparum',
+    zW6EYvOjMIo: 'Traitement du paludisme grave',
+    lOvt1oXLdBr: 'Traitement de P. vivax',
+  },
+};
+
+const ES: Translations = {
+  labels: {
+    'profile.dataCompleteness': 'Integridad de los datos',
+    'profile.dataCompletenessHint': 'Comprobar qué elementos de datos están completos',
+    'profile.availableWhenLoaded': 'Disponible cuando el perfil haya terminado de cargarse',
+    'profile.loading': 'Cargando el perfil de {country}...',
+    'profile.loadError': 'Error al cargar los datos',
+    'profile.retry': 'Reintentar',
+    'profile.mapNotAvailable': 'Mapa no disponible',
+    'profile.legendNotAvailable': 'Leyenda no disponible',
+    'profile.epidemiologicalProfile': 'I. Perfil epidemiológico',
+    'profile.populationDistribution': 'Distribución de la población (notificada por el país)',
+    'profile.population': 'Población',
+    'profile.parasitesAndVectors': 'Parásitos y vectores',
+    'profile.majorPlasmodiumSpecies': 'Principales especies de Plasmodium',
+    'profile.plasmodiumFootnote': 'Incluye infecciones mixtas y otras especies de Plasmodium',
+    'profile.majorAnophelesSpecies': 'Principales especies de Anopheles',
+    'profile.reportedCasesAndDeaths': 'Casos y muertes notificados',
+    'profile.whoEstimates': 'Estimaciones de la OMS',
+    'profile.confidenceInterval': 'Intervalo de confianza',
+    'profile.interventionPolicies': 'II. Políticas y estrategias de intervención',
+    'profile.interventionsAndPolicies': 'Intervenciones y políticas',
+    'profile.intervention': 'Intervención',
+    'profile.policiesStrategies': 'Políticas/Estrategias',
+    'profile.policy': 'Política',
+    'profile.year': 'Año',
+    'profile.yes': 'Sí',
+    'profile.yesNotImplemented': 'Sí*',
+    'profile.no': 'No',
+    'profile.neverAllowed': 'nunca se ha permitido',
+    'profile.banned': 'está prohibida',
+    'profile.notImplementedFootnote': 'Política adoptada pero no aplicada en {period}, o no hay datos que respalden su aplicación',
+    'profile.noPolicyFootnote': 'La política no existe o se ha interrumpido',
+    'profile.yearAdoptedFootnote': 'El primer año de adopción de la política se ajustó al primer año en que la OMS recomendó la política',
+    'profile.treatmentPolicy': 'Política de tratamiento antipalúdico',
+    'profile.treatmentPolicyColumn': 'Política de tratamiento antipalúdico',
+    'profile.medicine': 'Medicamento',
+    'profile.yearAdopted': 'Año de adopción',
+    'profile.rdtType': 'Tipo de PDR utilizada (sector público)',
+    'profile.therapeuticEfficacy': 'Estudios de eficacia terapéutica (fracaso clínico y parasitológico, %)',
+    'profile.min': 'Mín.',
+    'profile.median': 'Mediana',
+    'profile.max': 'Máx.',
+    'profile.followUp': 'Seguimiento',
+    'profile.numberOfStudies': 'N.º de estudios',
+    'profile.species': 'Especie',
+    'profile.resistanceStatus': 'Situación de la resistencia por clase de insecticida (2020-2024) y uso de la clase para el control de vectores del paludismo (2024)',
+    'profile.insecticideClass': 'Clase de insecticida',
+    'profile.sites': '(%) sitios',
+    'profile.vectors': 'Vectores',
+    'profile.used': 'Utilizada',
+    'profile.sitesFootnote': 'Porcentaje de sitios en los que se ha confirmado la resistencia y número total de sitios que notificaron datos',
+    'profile.vectorsFootnote': 'Vectores notificados como resistentes a la clase de insecticida',
+    'profile.usedFootnote': 'Clase notificada como utilizada para el control del paludismo en 2024',
+    'profile.dataVisualization': 'III. Visualización de datos',
+    'profile.footnotes': 'Notas',
+    'profile.aboutProfiles': 'Los perfiles de país se generan automáticamente a partir de los datos notificados por los países. Están disponibles para todos los países y zonas actualmente endémicos de paludismo a los que se solicita que informen anualmente al Programa de Paludismo y Enfermedades Tropicales Desatendidas. Los perfiles de país se basan en los datos validados por los países al 15 de octubre de 2025.',
+    'profile.surveySources': 'Fuentes de las encuestas',
+    'profile.estimationMethods': 'Se ofrece más información sobre los métodos utilizados para estimar los casos de paludismo y una explicación de la diferencia entre los casos estimados y los casos autóctonos confirmados notificados aquí',
+    'profile.noData': 'No se notificaron datos',
+    'profile.noDataFootnote': 'no se notificaron datos.',
+    'profile.worldMalariaReport': 'Informe mundial sobre el paludismo {year}',
+    'chart.loadFailed': 'No se pudo cargar el gráfico',
+    'chart.noData': 'No hay datos disponibles',
+    'chart.startYear': 'Desde',
+    'chart.showTable': 'Mostrar la tabla de datos',
+    'chart.showChart': 'Mostrar el gráfico',
+    'chart.download': 'Descargar {format}',
+    'chart.values': 'Valores',
+    'chart.rawValues': 'Valores brutos',
+    'chart.rawValue': '{label}, bruto',
+    'chart1.title': 'Casos estimados y notificados',
+    'chart1.yAxis': 'Casos',
+    'chart2.title': 'Búsqueda de tratamiento e integridad de la notificación',
+    'chart3.title': 'Casos sometidos a pruebas y tratados',
+    'chart3.yAxis': 'Tratamientos',
+    'chart4.title': 'Positividad de las pruebas',
+    'chart5.title': 'Casos confirmados de paludismo por 1000 habitantes en riesgo',
+    'chart5.yAxis': 'Casos por 1000 hab. en riesgo',
+    'chart6.titleClassification': 'Casos por clasificación',
+    'chart6.titleInpatients': 'Pacientes hospitalizados y muertes por paludismo',
+    'chart6.casesAxis': 'Casos',
+    'chart6.deathsAxis': 'Muertes',
+    'chart7.title': 'Cobertura de MTI y RRI',
+    'chart8.title': 'Fuentes de financiación',
+    'chart8.yAxis': 'Financiación (USD)',
+    'chart9.title': 'Gasto público por intervención en {period}',
+    'app.language': 'Idioma del perfil',
+    'app.refreshData': 'Actualizar datos',
+    'app.refreshDataHint': 'Volver a cargar todos los datos desde DHIS2 en lugar de la caché local',
+    'app.snapshotBanner': 'Instantánea sin conexión de {country} ({edition}), exportada el {date}',
+    'app.closeSnapshot': 'Cerrar la instantánea',
+    'app.viewProfile': 'Perfil de país',
+    'app.viewRegion': 'Panel regional',
+    'app.invalidYear': 'El parámetro de año no es válido. Años disponibles: {years}. Seleccione un país en la lista.',
+    'app.welcome': 'Bienvenido al',
+    'app.welcomeName': 'Perfil de país del Informe mundial sobre el paludismo',
+    'app.welcomeHint': 'Seleccione un país en la lista de arriba para ver el perfil epidemiológico del paludismo, las políticas de intervención y las pautas de tratamiento.',
+    'app.snapshotHint': '¿Sin conexión a DHIS2? Abra una instantánea de perfil exportada anteriormente.',
+    'app.selectYear': 'Seleccionar año',
+    'app.compareWith': 'Comparar con',
+    'app.noComparison': 'Sin comparación',
+    'app.selectCountry': 'Seleccionar país',
+    'app.loadingCountries': 'Cargando países...',
+    'app.chooseCountry': 'Elija un país',
+    'app.searchCountries': 'Buscar países...',
+    'app.noCountriesFound': 'No se encontraron países',
+    'app.print': 'Imprimir',
+    'app.downloadPdf': 'Descargar PDF',
+    'app.generatingPdf': 'Generando PDF...',
+    'app.pdfFailed': 'Error en el PDF, reintentar',
+    'app.downloadData': 'Descargar datos',
+    'app.downloadDataHint': 'Descargar los valores del perfil y las series de los gráficos en un libro de Excel',
+    'app.preparingData': 'Preparando datos...',
+    'app.dataFailed': 'Error en la descarga, reintentar',
+    'app.exportSnapshot': 'Exportar instantánea',
+    'app.exportSnapshotHint': 'Guardar este perfil para revisarlo sin conexión',
+    'app.openSnapshot': 'Abrir instantánea sin conexión',
+    'app.openSnapshotFailed': 'No se pudo abrir la instantánea',
+    'comparison.loading': 'Comparando {previous} y {current} para {country}...',
+    'comparison.loadFailed': 'No se pudo cargar la comparación',
+    'comparison.summary': '{previous} comparado con {current}',
+    'comparison.changedValues': 'Valores modificados: {count}',
+    'comparison.changedOnly': 'Mostrar solo los valores modificados',
+    'comparison.sectionChanges': 'Modificados: {count}',
+    'comparison.indicator': 'Indicador',
+    'comparison.noChanges': 'Sin cambios',
+    'region.loading': 'Cargando indicadores regionales...',
+    'region.loadFailed': 'No se pudo cargar el panel regional',
+    'region.unknownRegion': 'No se pudo determinar la región de la OMS de {country}',
+    'region.countries': 'Países: {count}',
+    'region.exportCsv': 'Exportar CSV',
+    'region.exportProfiles': 'Exportar perfiles (XLSX)',
+    'region.exportProfilesHint': 'Valores de los perfiles y series de los gráficos de cada país, una hoja por sección',
+    'region.loadingProfiles': 'Cargando perfiles {done}/{total}...',
+    'region.exportProfilesFailed': 'No se pudieron exportar los perfiles: {error}',
+    'region.profilesLeftOut': 'Países que faltan en el libro: {count} de {total}, véase la hoja «Countries left out»',
+    'region.country': 'País',
+    'region.noCountries': 'No se encontraron países accesibles en esta región',
+    'region.estimatedCases': 'Casos estimados',
+    'region.confirmedCases': 'Casos confirmados',
+    'region.reportedDeaths': 'Muertes notificadas',
+    'region.reportingCompleteness': 'Integridad de la notificación (%)',
+    'region.itnAccess': 'Población con acceso a MTI (%)',
+    'whoRegion.AFR': 'Región de África',
+    'whoRegion.EMR': 'Región del Mediterráneo Oriental',
+    'whoRegion.EUR': 'Región de Europa',
+    'whoRegion.AMR': 'Región de las Américas',
+    'whoRegion.SEAR': 'Región de Asia Sudoriental',
+    'whoRegion.WPR': 'Región del Pacífico Occidental',
+    'chart.source': 'Fuente: {source}',
+  },
+  interventions: {
+    'Diagnosis': 'Diagnóstico',
+    'Treatment': 'Tratamiento',
+    'IPT': 'TPI',
+    'Surveillance': 'Vigilancia',
+    'ITN': 'MTI',
+    'IRS': 'RRI',
+    'Larval source management': 'Gestión de criaderos larvarios',
+  },
+  policies: {
+    lLdqBPGWhu1: 'El diagnóstico del paludismo por microscopía o PDR es gratuito en el sector público',
+    YsUd6nF0ueJ: 'El diagnóstico del paludismo mediante PDR es gratuito en el sector público',
+    lzOLWfgxqWs: 'El diagnóstico del paludismo mediante microscopía es gratuito en el sector público',
+    UoeX8OFbDqx: 'El diagnóstico del paludismo es gratuito en el sector privado',
+    DyINPGgopL3: 'Los TCA para el tratamiento del paludismo son gratuitos en el sector público',
+    ugIeZT18C10: 'Se utiliza primaquina para el tratamiento radical de P. vivax',
+    NYYgVn2hLl6: 'La prueba de G6PD es obligatoria antes del tratamiento con primaquina',
+    E7xOl37PtKW: 'El tratamiento con primaquina se administra bajo observación directa',
+    TmkBWN7YSsS: 'Existe un sistema de seguimiento de las reacciones adversas a los antipalúdicos',
+    AXnVeNe9yF9: 'Los TCA se administran en la comunidad',
+    gzyORQNEpkZ: 'Tratamiento previo a la derivación con supositorios rectales de artesunato en la comunidad',
+    KmPLPFZJpHU: 'Se utiliza una dosis única de primaquina como gametocitocida contra P. falciparum',
+    MrVSpLKqDsp: 'La venta de monoterapias orales basadas en artemisinina',
+    geSDyXkZNU1: 'El TPI se utiliza para prevenir el paludismo durante el embarazo',
+    Q260gqIU0A1: 'El TPIe de base comunitaria (TPIe-c) se utiliza para prevenir el paludismo durante el embarazo, de acuerdo con la recomendación de la OMS',
+    apgTbakUcGw: 'Se utiliza la quimioprevención estacional del paludismo (QEP), de acuerdo con la recomendación de la OMS',
+    myQQJ1wGzIs: 'Se utiliza la quimioprevención perenne del paludismo (QPP), de acuerdo con la recomendación de la OMS',
+    rSxvwUOJEQN: 'Se utiliza el tratamiento preventivo intermitente en niños en edad escolar (TPIe), de acuerdo con la recomendación de la OMS',
+    anvAOV5ht6p: 'El paludismo es una enfermedad de declaración obligatoria',
+    LFuetZdwR81: 'Se realiza la investigación y clasificación de casos',
+    DP8ImP6qAK2: 'Se realiza la investigación y clasificación de focos',
+    xlnxh4R7Gwt: 'DAC para la investigación de casos (reactiva)',
+    iTbPoUugAiA: 'DAC de casos febriles en la comunidad (proactiva)',
+    MSf8VHWAkLj: 'Se realiza un cribado masivo',
+    usY6jfPj7jb: 'Los casos no complicados de P. falciparum se hospitalizan sistemáticamente',
+    tNePhPWXIce: 'Los casos no complicados de P. vivax se hospitalizan sistemáticamente',
+    uVy7wsFKUKj: 'La notificación de casos del sector privado es obligatoria',
+    gagBPnUGmaY: 'MTI distribuidos gratuitamente mediante campañas masivas a todos los grupos de edad',
+    Vm1oCupLZsS: 'MTI distribuidos gratuitamente por los canales habituales a todos los grupos de edad',
+    XHwHMqT5nmK: 'Se hace un seguimiento de la durabilidad de los MTI',
+    JKP3ANVLyjN: 'El RRI es una intervención del programa nacional',
+    H9P0BVxKBYM: 'Se utiliza DDT para el RRI',
+    VBkox9y1nbh: 'Uso de la gestión de criaderos larvarios',
+  },
+  treatmentPolicies: {
+    KSqJwXVSfbD: 'Tratamiento de primera línea del paludismo no confirmado',
+    gz7J7ikcJ1e: 'Tratamiento de primera línea de P. falciparum',
+    e6JiciQzwuh: 'En caso de fracaso terapéutico de P. falciparum',
+    zW6EYvOjMIo: 'Tratamiento del paludismo grave',
+    lOvt1oXLdBr: 'Tratamiento de P. vivax',
+  },
+};
+
+const PT: Translations = {
+  labels: {
+    'profile.dataCompleteness': 'Completude dos dados',
+    'profile.dataCompletenessHint': 'Verificar quais elementos de dados estão preenchidos',
+    'profile.availableWhenLoaded': 'Disponível quando o perfil terminar de carregar',
+    'profile.loading': 'Carregando o perfil de {country}...',
+    'profile.loadError': 'Erro ao carregar os dados',
+    'profile.retry': 'Tentar novamente',
+    'profile.mapNotAvailable': 'Mapa não disponível',
+    'profile.legendNotAvailable': 'Legenda não disponível',
+    'profile.epidemiologicalProfile': 'I. Perfil epidemiológico',
+    'profile.populationDistribution': 'Distribuição da população (notificada pelo país)',
+    'profile.population': 'População',
+    'profile.parasitesAndVectors': 'Parasitas e vetores',
+    'profile.majorPlasmodiumSpecies': 'Principais espécies de Plasmodium',
+    'profile.plasmodiumFootnote': 'Inclui infeções mistas e outras espécies de Plasmodium',
+    'profile.majorAnophelesSpecies': 'Principais espécies de Anopheles',
+    'profile.reportedCasesAndDeaths': 'Casos e óbitos notificados',
+    'profile.whoEstimates': 'Estimativas da OMS',
+    'profile.confidenceInterval': 'Intervalo de confiança',
+    'profile.interventionPolicies': 'II. Políticas e estratégias de intervenção',
+    'profile.interventionsAndPolicies': 'Intervenções e políticas',
+    'profile.intervention': 'Intervenção',
+    'profile.policiesStrategies': 'Políticas/Estratégias',
+    'profile.policy': 'Política',
+    'profile.year': 'Ano',
+    'profile.yes': 'Sim',
+    'profile.yesNotImplemented': 'Sim*',
+    'profile.no': 'Não',
+    'profile.neverAllowed': 'nunca foi permitida',
+    'profile.banned': 'é proibida',
+    'profile.notImplementedFootnote': 'Política adotada, mas não implementada em {period}, ou não existem dados que comprovem a implementação',
+    'profile.noPolicyFootnote': 'A política não existe ou foi descontinuada',
+    'profile.yearAdoptedFootnote': 'O primeiro ano de adoção da política foi ajustado ao primeiro ano em que a política foi recomendada pela OMS',
+    'profile.treatmentPolicy': 'Política de tratamento antimalárico',
+    'profile.treatmentPolicyColumn': 'Política de tratamento antimalárico',
+    'profile.medicine': 'Medicamento',
+    'profile.yearAdopted': 'Ano de adoção',
+    'profile.rdtType': 'Tipo de TDR utilizado (setor público)',
+    'profile.therapeuticEfficacy': 'Estudos de eficácia terapêutica (falência clínica e parasitológica, %)',
+    'profile.min': 'Mín.',
+    'profile.median': 'Mediana',
+    'profile.max': 'Máx.',
+    'profile.followUp': 'Seguimento',
+    'profile.numberOfStudies': 'N.º de estudos',
+    'profile.species': 'Espécie',
+    'profile.resistanceStatus': 'Situação da resistência por classe de inseticida (2020-2024) e utilização da classe no controlo vetorial da malária (2024)',
+    'profile.insecticideClass': 'Classe de inseticida',
+    'profile.sites': '(%) locais',
+    'profile.vectors': 'Vetores',
+    'profile.used': 'Utilizada',
+    'profile.sitesFootnote': 'Percentagem de locais em que a resistência foi confirmada e número total de locais que notificaram dados',
+    'profile.vectorsFootnote': 'Vetores notificados como resistentes à classe de inseticida',
+    'profile.usedFootnote': 'Classe notificada como utilizada no controlo da malária em 2024',
+    'profile.dataVisualization': 'III. Visualização de dados',
+    'profile.footnotes': 'Notas',
+    'profile.aboutProfiles': 'Os perfis de país são gerados automaticamente com base nos dados notificados pelos países. Estão disponíveis para todos os países e zonas atualmente endémicos de malária aos quais é solicitado que reportem anualmente ao Programa de Malária e Doenças Tropicais Negligenciadas. Os perfis de país baseiam-se nos dados validados pelos países até 15 de outubro de 2025.',
+    'profile.surveySources': 'Fontes dos inquéritos',
+    'profile.estimationMethods': 'Mais informações sobre os métodos utilizados para estimar os casos de malária e uma explicação da diferença entre os casos estimados e os casos autóctones confirmados notificados estão disponíveis aqui',
+    'profile.noData': 'Nenhum dado notificado',
+    'profile.noDataFootnote': 'nenhum dado notificado.',
+    'profile.worldMalariaReport': 'Relatório Mundial da Malária {year}',
+    'chart.loadFailed': 'Não foi possível carregar o gráfico',
+    'chart.noData': 'Sem dados disponíveis',
+    'chart.startYear': 'Desde',
+    'chart.showTable': 'Mostrar a tabela de dados',
+    'chart.showChart': 'Mostrar o gráfico',
+    'chart.download': 'Baixar {format}',
+    'chart.values': 'Valores',
+    'chart.rawValues': 'Valores brutos',
+    'chart.rawValue': '{label}, bruto',
+    'chart1.title': 'Casos estimados e notificados',
+    'chart1.yAxis': 'Casos',
+    'chart2.title': 'Procura de tratamento e completude da notificação',
+    'chart3.title': 'Casos testados e tratados',
+    'chart3.yAxis': 'Tratamentos',
+    'chart4.title': 'Positividade dos testes',
+    'chart5.title': 'Casos confirmados de malária por 1000 habitantes em risco',
+    'chart5.yAxis': 'Casos por 1000 hab. em risco',
+    'chart6.titleClassification': 'Casos por classificação',
+    'chart6.titleInpatients': 'Internamentos e óbitos por malária',
+    'chart6.casesAxis': 'Casos',
+    'chart6.deathsAxis': 'Óbitos',
+    'chart7.title': 'Cobertura de MTI e PRI',
+    'chart8.title': 'Fontes de financiamento',
+    'chart8.yAxis': 'Financiamento (USD)',
+    'chart9.title': 'Despesa pública por intervenção em {period}',
+    'app.language': 'Idioma do perfil',
+    'app.refreshData': 'Atualizar dados',
+    'app.refreshDataHint': 'Recarregar todos os dados do DHIS2 em vez do cache local',
+    'app.snapshotBanner': 'Instantâneo offline de {country} ({edition}), exportado em {date}',
+    'app.closeSnapshot': 'Fechar o instantâneo',
+    'app.viewProfile': 'Perfil do país',
+    'app.viewRegion': 'Painel regional',
+    'app.invalidYear': 'O parâmetro de ano não é aceito. Anos disponíveis: {years}. Selecione um país na lista.',
+    'app.welcome': 'Bem-vindo ao',
+    'app.welcomeName': 'Perfil de País do Relatório Mundial da Malária',
+    'app.welcomeHint': 'Selecione um país na lista acima para ver o perfil epidemiológico da malária, as políticas de intervenção e as diretrizes de tratamento.',
+    'app.snapshotHint': 'Sem conexão com o DHIS2? Abra um instantâneo de perfil exportado anteriormente.',
+    'app.selectYear': 'Selecionar ano',
+    'app.compareWith': 'Comparar com',
+    'app.noComparison': 'Sem comparação',
+    'app.selectCountry': 'Selecionar país',
+    'app.loadingCountries': 'Carregando países...',
+    'app.chooseCountry': 'Escolha um país',
+    'app.searchCountries': 'Pesquisar países...',
+    'app.noCountriesFound': 'Nenhum país encontrado',
+    'app.print': 'Imprimir',
+    'app.downloadPdf': 'Baixar PDF',
+    'app.generatingPdf': 'Gerando PDF...',
+    'app.pdfFailed': 'Falha no PDF, tentar novamente',
+    'app.downloadData': 'Baixar dados',
+    'app.downloadDataHint': 'Baixar os valores do perfil e as séries dos gráficos em uma pasta de trabalho do Excel',
+    'app.preparingData': 'Preparando dados...',
+    'app.dataFailed': 'Falha no download, tentar novamente',
+    'app.exportSnapshot': 'Exportar instantâneo',
+    'app.exportSnapshotHint': 'Salvar este perfil para revisão offline',
+    'app.openSnapshot': 'Abrir instantâneo offline',
+    'app.openSnapshotFailed': 'Não foi possível abrir o instantâneo',
+    'comparison.loading': 'Comparando {previous} e {current} para {country}...',
+    'comparison.loadFailed': 'Falha ao carregar a comparação',
+    'comparison.summary': '{previous} comparado com {current}',
+    'comparison.changedValues': 'Valores alterados: {count}',
+    'comparison.changedOnly': 'Mostrar apenas os valores alterados',
+    'comparison.sectionChanges': 'Alterados: {count}',
+    'comparison.indicator': 'Indicador',
+    'comparison.noChanges': 'Sem alterações',
+    'region.loading': 'Carregando indicadores regionais...',
+    'region.loadFailed': 'Falha ao carregar o painel regional',
+    'region.unknownRegion': 'Não foi possível determinar a região da OMS de {country}',
+    'region.countries': 'Países: {count}',
+    'region.exportCsv': 'Exportar CSV',
+    'region.exportProfiles': 'Exportar perfis (XLSX)',
+    'region.exportProfilesHint': 'Valores dos perfis e séries dos gráficos de cada país, uma planilha por seção',
+    'region.loadingProfiles': 'Carregando perfis {done}/{total}...',
+    'region.exportProfilesFailed': 'Falha ao exportar os perfis: {error}',
+    'region.profilesLeftOut': 'Países deixados de fora da pasta de trabalho: {count} de {total}, veja a planilha "Countries left out"',
+    'region.country': 'País',
+    'region.noCountries': 'Nenhum país acessível encontrado nesta região',
+    'region.estimatedCases': 'Casos estimados',
+    'region.confirmedCases': 'Casos confirmados',
+    'region.reportedDeaths': 'Óbitos notificados',
+    'region.reportingCompleteness': 'Completude da notificação (%)',
+    'region.itnAccess': 'População com acesso a MTI (%)',
+    'whoRegion.AFR': 'Região Africana',
+    'whoRegion.EMR': 'Região do Mediterrâneo Oriental',
+    'whoRegion.EUR': 'Região Europeia',
+    'whoRegion.AMR': 'Região das Américas',
+    'whoRegion.SEAR': 'Região do Sudeste Asiático',
+    'whoRegion.WPR': 'Região do Pacífico Ocidental',
+    'chart.source': 'Fonte: {source}',
+  },
+  interventions: {
+    'Diagnosis': 'Diagnóstico',
+    'Treatment': 'Tratamento',
+    'IPT': 'TPI',
+    'Surveillance': 'Vigilância',
+    'ITN': 'MTI',
+    'IRS': 'PRI',
+    'Larval source management': 'Gestão de criadouros larvares',
+  },
+  policies: {
+    lLdqBPGWhu1: 'O diagnóstico da malária por microscopia ou TDR é gratuito no setor público',
+    YsUd6nF0ueJ: 'O diagnóstico da malária por TDR é gratuito no setor público',
+    lzOLWfgxqWs: 'O diagnóstico da malária por microscopia é gratuito no setor público',
+    UoeX8OFbDqx: 'O diagnóstico da malária é gratuito no setor privado',
+    DyINPGgopL3: 'As TCA para o tratamento da malária são gratuitas no setor público',
+    ugIeZT18C10: 'A primaquina é utilizada no tratamento radical de P. vivax',
+    NYYgVn2hLl6: 'O teste de G6PD é obrigatório antes do tratamento com primaquina',
+    E7xOl37PtKW: 'O tratamento com primaquina é feito sob observação direta',
+    TmkBWN7YSsS: 'Existe um sistema de monitorização das reações adversas aos antimaláricos',
+    AXnVeNe9yF9: 'As TCA são administradas na comunidade',
+    gzyORQNEpkZ: 'Tratamento pré-referência com supositórios retais de artesunato na comunidade',
+    KmPLPFZJpHU: 'É utilizada uma dose única de primaquina como gametocitocida contra P. falciparum',
+    MrVSpLKqDsp: 'A venda de monoterapias orais à base de artemisinina',
+    geSDyXkZNU1: 'O TPI é utilizado para prevenir a malária durante a gravidez',
+    Q260gqIU0A1: 'O TPIg de base comunitária (TPIg-c) é utilizado para prevenir a malária durante a gravidez, de acordo com a recomendação da OMS',
+    apgTbakUcGw: 'É utilizada a quimioprevenção sazonal da malária (QSM), de acordo com a recomendação da OMS',
+    myQQJ1wGzIs: 'É utilizada a quimioprevenção perene da malária (QPM), de acordo com a recomendação da OMS',
+    rSxvwUOJEQN: 'É utilizado o tratamento preventivo intermitente em crianças em idade escolar (TPIe), de acordo com a recomendação da OMS',
+    anvAOV5ht6p: 'A malária é uma doença de notificação obrigatória',
+    LFuetZdwR81: 'É realizada a investigação e classificação de casos',
+    DP8ImP6qAK2: 'É realizada a investigação e classificação de focos',
+    xlnxh4R7Gwt: 'BAC para investigação de casos (reativa)',
+    iTbPoUugAiA: 'BAC de casos febris na comunidade (proativa)',
+    MSf8VHWAkLj: 'É realizado rastreio em massa',
+    usY6jfPj7jb: 'Os casos não complicados de P. falciparum são internados por rotina',
+    tNePhPWXIce: 'Os casos não complicados de P. vivax são internados por rotina',
+    uVy7wsFKUKj: 'A notificação de casos pelo setor privado é obrigatória',
+    gagBPnUGmaY: 'MTI distribuídos gratuitamente em campanhas de massa a todos os grupos etários',
+    Vm1oCupLZsS: 'MTI distribuídos gratuitamente pelos canais de rotina a todos os grupos etários',
+    XHwHMqT5nmK: 'A durabilidade dos MTI é monitorizada',
+    JKP3ANVLyjN: 'A PRI é uma intervenção do programa nacional',
+    H9P0BVxKBYM: 'O DDT é utilizado na PRI',
+    VBkox9y1nbh: 'Utilização da gestão de criadouros larvares',
+  },
+  treatmentPolicies: {
+    KSqJwXVSfbD: 'Tratamento de primeira linha da malária não confirmada',
+    gz7J7ikcJ1e: 'Tratamento de primeira linha de P. falciparum',
+    e6JiciQzwuh: 'Em caso de falência terapêutica de P. falciparum',
+    zW6EYvOjMIo: 'Tratamento da malária grave',
+    lOvt1oXLdBr: 'Tratamento de P. vivax',
+  },
+};
+
+const AR: Translations = {
+  labels: {
+    'profile.dataCompleteness': 'اكتمال البيانات',
+    'profile.dataCompletenessHint': 'التحقق من عناصر البيانات المستوفاة',
+    'profile.availableWhenLoaded': 'متاح بعد اكتمال تحميل الملف',
+    'profile.loading': 'جارٍ تحميل ملف {country}...',
+    'profile.loadError': 'خطأ في تحميل البيانات',
+    'profile.retry': 'إعادة المحاولة',
+    'profile.mapNotAvailable': 'الخريطة غير متاحة',
+    'profile.legendNotAvailable': 'مفتاح الخريطة غير متاح',
+    'profile.epidemiologicalProfile': 'أولاً. الملف الوبائي',
+    'profile.populationDistribution': 'توزيع السكان (حسب إبلاغ البلد)',
+    'profile.population': 'السكان',
+    'profile.parasitesAndVectors': 'الطفيليات والنواقل',
+    'profile.majorPlasmodiumSpecies': 'الأنواع الرئيسية من Plasmodium',
+    'profile.plasmodiumFootnote': 'يشمل العدوى المختلطة والأنواع الأخرى من Plasmodium',
+    'profile.majorAnophelesSpecies': 'الأنواع الرئيسية من Anopheles',
+    'profile.reportedCasesAndDeaths': 'الحالات والوفيات المبلغ عنها',
+    'profile.whoEstimates': 'تقديرات منظمة الصحة العالمية',
+    'profile.confidenceInterval': 'فاصل الثقة',
+    'profile.interventionPolicies': 'ثانياً. سياسات التدخل واستراتيجياته',
+    'profile.interventionsAndPolicies': 'التدخلات والسياسات',
+    'profile.intervention': 'التدخل',
+    'profile.policiesStrategies': 'السياسات/الاستراتيجيات',
+    'profile.policy': 'السياسة',
+    'profile.year': 'السنة',
+    'profile.yes': 'نعم',
+    'profile.yesNotImplemented': 'نعم*',
+    'profile.no': 'لا',
+    'profile.neverAllowed': 'لم يُسمح به قط',
+    'profile.banned': 'محظور',
+    'profile.notImplementedFootnote': 'سياسة معتمدة ولكنها لم تُنفَّذ في عام {period}، أو لا توجد بيانات تثبت تنفيذها',
+    'profile.noPolicyFootnote': 'السياسة غير موجودة أو تم إيقافها',
+    'profile.yearAdoptedFootnote': 'عُدِّلت أقدم سنة لاعتماد السياسة لتوافق أقدم سنة أوصت فيها منظمة الصحة العالمية بالسياسة',
+    'profile.treatmentPolicy': 'سياسة العلاج بمضادات الملاريا',
+    'profile.treatmentPolicyColumn': 'سياسة العلاج بمضادات الملاريا',
+    'profile.medicine': 'الدواء',
+    'profile.yearAdopted': 'سنة الاعتماد',
+    'profile.rdtType': 'نوع الاختبار التشخيصي السريع المستخدم (القطاع العام)',
+    'profile.therapeuticEfficacy': 'اختبارات الفعالية العلاجية (الإخفاق السريري والطفيلي، %)',
+    'profile.min': 'الأدنى',
+    'profile.median': 'الوسيط',
+    'profile.max': 'الأعلى',
+    'profile.followUp': 'المتابعة',
+    'profile.numberOfStudies': 'عدد الدراسات',
+    'profile.species': 'النوع',
+    'profile.resistanceStatus': 'حالة المقاومة حسب فئة مبيدات الحشرات (2020-2024) واستخدام الفئة في مكافحة نواقل الملاريا (2024)',
+    'profile.insecticideClass': 'فئة مبيد الحشرات',
+    'profile.sites': '(%) المواقع',
+    'profile.vectors': 'النواقل',
+    'profile.used': 'مستخدمة',
+    'profile.sitesFootnote': 'النسبة المئوية للمواقع التي تأكدت فيها المقاومة والعدد الإجمالي للمواقع التي أبلغت عن بيانات',
+    'profile.vectorsFootnote': 'النواقل التي أُبلغ عن مقاومتها لفئة مبيد الحشرات',
+    'profile.usedFootnote': 'فئة أُبلغ عن استخدامها في مكافحة الملاريا في عام 2024',
+    'profile.dataVisualization': 'ثالثاً. عرض البيانات',
+    'profile.footnotes': 'حواشٍ',
+    'profile.aboutProfiles': 'تُعَدّ الملفات القُطرية تلقائياً استناداً إلى البيانات التي تبلغ عنها البلدان. وهي متاحة لجميع البلدان والمناطق الموطونة بالملاريا حالياً والمطلوب منها تقديم تقارير سنوية إلى برنامج الملاريا والأمراض المدارية المهملة. وتستند الملفات القُطرية إلى البيانات التي تحققت منها البلدان حتى 15 تشرين الأول/أكتوبر 2025.',
+    'profile.surveySources': 'مصادر المسوح',
+    'profile.estimationMethods': 'تتوفر هنا معلومات إضافية عن الأساليب المستخدمة في تقدير حالات الملاريا وشرح للفجوة بين الحالات المقدرة والحالات المحلية المؤكدة المبلغ عنها',
+    'profile.noData': 'لم يُبلَّغ عن بيانات',
+    'profile.noDataFootnote': 'لم يُبلَّغ عن بيانات.',
+    'profile.worldMalariaReport': 'التقرير العالمي عن الملاريا {year}',
+    'chart.loadFailed': 'تعذر تحميل الرسم البياني',
+    'chart.noData': 'لا تتوفر بيانات',
+    'chart.startYear': 'منذ',
+    'chart.showTable': 'عرض جدول البيانات',
+    'chart.showChart': 'عرض الرسم البياني',
+    'chart.download': 'تنزيل {format}',
+    'chart.values': 'القيم',
+    'chart.rawValues': 'القيم الأولية',
+    'chart.rawValue': '{label}، أولية',
+    'chart1.title': 'الحالات المقدرة والمبلغ عنها',
+    'chart1.yAxis': 'الحالات',
+    'chart2.title': 'التماس العلاج واكتمال الإبلاغ',
+    'chart3.title': 'الحالات المختبرة والمعالجة',
+    'chart3.yAxis': 'المقررات العلاجية',
+    'chart4.title': 'إيجابية الاختبارات',
+    'chart5.title': 'حالات الملاريا المؤكدة لكل 1000 من السكان المعرضين للخطر',
+    'chart5.yAxis': 'الحالات لكل 1000 من السكان المعرضين للخطر',
+    'chart6.titleClassification': 'الحالات حسب التصنيف',
+    'chart6.titleInpatients': 'المرضى المقيمون بالمستشفى والوفيات بسبب الملاريا',
+    'chart6.casesAxis': 'الحالات',
+    'chart6.deathsAxis': 'الوفيات',
+    'chart7.title': 'التغطية بالناموسيات المعالجة بمبيدات الحشرات والرش الثمالي داخل المباني',
+    'chart8.title': 'مصادر التمويل',
+    'chart8.yAxis': 'التمويل (بالدولار الأمريكي)',
+    'chart9.title': 'الإنفاق الحكومي حسب التدخل في عام {period}',
+    'app.language': 'لغة الملف',
+    'app.refreshData': 'تحديث البيانات',
+    'app.refreshDataHint': 'إعادة تحميل جميع البيانات من DHIS2 بدلاً من ذاكرة التخزين المؤقت المحلية',
+    'app.snapshotBanner': 'لقطة غير متصلة لـ {country} ({edition})، صُدّرت في {date}',
+    'app.closeSnapshot': 'إغلاق اللقطة',
+    'app.viewProfile': 'الملف القطري',
+    'app.viewRegion': 'لوحة المعلومات الإقليمية',
+    'app.invalidYear': 'معامل السنة غير مقبول. السنوات المتاحة: {years}. يرجى اختيار بلد من القائمة.',
+    'app.welcome': 'مرحبًا بكم في',
+    'app.welcomeName': 'الملف القطري للتقرير العالمي عن الملاريا',
+    'app.welcomeHint': 'اختر بلدًا من القائمة أعلاه لعرض الملف الوبائي للملاريا وسياسات التدخل وإرشادات العلاج.',
+    'app.snapshotHint': 'لا يوجد اتصال بـ DHIS2؟ افتح لقطة ملف قطري صُدّرت سابقًا.',
+    'app.selectYear': 'اختر السنة',
+    'app.compareWith': 'مقارنة مع',
+    'app.noComparison': 'بدون مقارنة',
+    'app.selectCountry': 'اختر البلد',
+    'app.loadingCountries': 'جارٍ تحميل البلدان...',
+    'app.chooseCountry': 'اختر بلدًا',
+    'app.searchCountries': 'ابحث عن بلد...',
+    'app.noCountriesFound': 'لم يُعثر على بلدان',
+    'app.print': 'طباعة',
+    'app.downloadPdf': 'تنزيل PDF',
+    'app.generatingPdf': 'جارٍ إنشاء ملف PDF...',
+    'app.pdfFailed': 'تعذر إنشاء PDF، أعد المحاولة',
+    'app.downloadData': 'تنزيل البيانات',
+    'app.downloadDataHint': 'تنزيل قيم الملف وسلاسل الرسوم البيانية في مصنف Excel',
+    'app.preparingData': 'جارٍ إعداد البيانات...',
+    'app.dataFailed': 'تعذر التنزيل، أعد المحاولة',
+    'app.exportSnapshot': 'تصدير لقطة',
+    'app.exportSnapshotHint': 'حفظ هذا الملف للمراجعة دون اتصال',
+    'app.openSnapshot': 'فتح لقطة غير متصلة',
+    'app.openSnapshotFailed': 'تعذر فتح اللقطة',
+    'comparison.loading': 'جارٍ مقارنة {previous} و{current} لـ {country}...',
+    'comparison.loadFailed': 'تعذر تحميل المقارنة',
+    'comparison.summary': '{previous} مقارنة بـ {current}',
+    'comparison.changedValues': 'القيم المتغيرة: {count}',
+    'comparison.changedOnly': 'عرض القيم المتغيرة فقط',
+    'comparison.sectionChanges': 'متغيرة: {count}',
+    'comparison.indicator': 'المؤشر',
+    'comparison.noChanges': 'لا توجد تغييرات',
+    'region.loading': 'جارٍ تحميل المؤشرات الإقليمية...',
+    'region.loadFailed': 'تعذر تحميل لوحة المعلومات الإقليمية',
+    'region.unknownRegion': 'تعذر تحديد إقليم منظمة الصحة العالمية لـ {country}',
+    'region.countries': 'البلدان: {count}',
+    'region.exportCsv': 'تصدير CSV',
+    'region.exportProfiles': 'تصدير الملفات القطرية (XLSX)',
+    'region.exportProfilesHint': 'قيم الملفات القطرية وسلاسل الرسوم البيانية لكل بلد، ورقة لكل قسم',
+    'region.loadingProfiles': 'جارٍ تحميل الملفات القطرية {done}/{total}...',
+    'region.exportProfilesFailed': 'تعذر تصدير الملفات القطرية: {error}',
+    'region.profilesLeftOut': 'البلدان المستبعدة من المصنف: {count} من {total}، انظر ورقة "Countries left out"',
+    'region.country': 'البلد',
+    'region.noCountries': 'لم يُعثر على بلدان متاحة في هذا الإقليم',
+    'region.estimatedCases': 'الحالات المقدرة',
+    'region.confirmedCases': 'الحالات المؤكدة',
+    'region.reportedDeaths': 'الوفيات المبلغ عنها',
+    'region.reportingCompleteness': 'اكتمال الإبلاغ (%)',
+    'region.itnAccess': 'السكان الذين يحصلون على الناموسيات المعالجة بمبيدات الحشرات (%)',
+    'whoRegion.AFR': 'الإقليم الأفريقي',
+    'whoRegion.EMR': 'إقليم شرق المتوسط',
+    'whoRegion.EUR': 'الإقليم الأوروبي',
+    'whoRegion.AMR': 'إقليم الأمريكتين',
+    'whoRegion.SEAR': 'إقليم جنوب شرق آسيا',
+    'whoRegion.WPR': 'إقليم غرب المحيط الهادئ',
+    'chart.source': 'المصدر: {source}',
+  },
+  interventions: {
+    'Diagnosis': 'التشخيص',
+    'Treatment': 'العلاج',
+    'IPT': 'العلاج الوقائي المتقطع',
+    'Surveillance': 'الترصد',
+    'ITN': 'الناموسيات المعالجة',
+    'IRS': 'الرش الثمالي',
+    'Larval source management': 'إدارة مصادر اليرقات',
+  },
+  policies: {
+    lLdqBPGWhu1: 'تشخيص الملاريا بالفحص المجهري أو بالاختبارات التشخيصية السريعة مجاني في القطاع العام',
+    YsUd6nF0ueJ: 'تشخيص الملاريا بالاختبارات التشخيصية السريعة مجاني في القطاع العام',
+    lzOLWfgxqWs: 'تشخيص الملاريا بالفحص المجهري مجاني في القطاع العام',
+    UoeX8OFbDqx: 'تشخيص الملاريا مجاني في القطاع الخاص',
+    DyINPGgopL3: 'العلاج المركب القائم على الأرتيميسينين مجاني في القطاع العام',
+    ugIeZT18C10: 'يُستخدم البريماكين للعلاج الجذري من P. vivax',
+    NYYgVn2hLl6: 'يُشترط إجراء اختبار G6PD قبل العلاج بالبريماكين',
+    E7xOl37PtKW: 'يُعطى العلاج بالبريماكين تحت الملاحظة المباشرة',
+    TmkBWN7YSsS: 'يوجد نظام لرصد التفاعلات الضارة لمضادات الملاريا',
+    AXnVeNe9yF9: 'يُقدَّم العلاج المركب القائم على الأرتيميسينين على مستوى المجتمع المحلي',
+    gzyORQNEpkZ: 'العلاج السابق للإحالة بتحاميل الأرتيسونات الشرجية على مستوى المجتمع المحلي',
+    KmPLPFZJpHU: 'تُستخدم جرعة واحدة من البريماكين دواءً قاتلاً للخلايا المشيجية لـ P. falciparum',
+    MrVSpLKqDsp: 'بيع الأدوية الأحادية الفموية القائمة على الأرتيميسينين',
+    geSDyXkZNU1: 'يُستخدم العلاج الوقائي المتقطع للوقاية من الملاريا أثناء الحمل',
+    Q260gqIU0A1: 'يُستخدم العلاج الوقائي المتقطع للحوامل المقدم في المجتمع المحلي للوقاية من الملاريا أثناء الحمل، وفقاً لتوصية منظمة الصحة العالمية',
+    apgTbakUcGw: 'تُستخدم الوقاية الكيميائية الموسمية من الملاريا، وفقاً لتوصية منظمة الصحة العالمية',
+    myQQJ1wGzIs: 'تُستخدم الوقاية الكيميائية الدائمة من الملاريا، وفقاً لتوصية منظمة الصحة العالمية',
+    rSxvwUOJEQN: 'يُستخدم العلاج الوقائي المتقطع للأطفال في سن الدراسة، وفقاً لتوصية منظمة الصحة العالمية',
+    anvAOV5ht6p: 'الملاريا مرض واجب الإبلاغ عنه',
+    LFuetZdwR81: 'يجري التحري عن الحالات وتصنيفها',
+    DP8ImP6qAK2: 'يجري التحري عن البؤر وتصنيفها',
+    xlnxh4R7Gwt: 'الكشف النشط عن الحالات للتحري عنها (تفاعلي)',
+    iTbPoUugAiA: 'الكشف النشط عن الحالات الحموية على مستوى المجتمع المحلي (استباقي)',
+    MSf8VHWAkLj: 'يجري التحري الجماعي',
+    usY6jfPj7jb: 'تُدخَل حالات P. falciparum غير المصحوبة بمضاعفات إلى المستشفى بشكل روتيني',
+    tNePhPWXIce: 'تُدخَل حالات P. vivax غير المصحوبة بمضاعفات إلى المستشفى بشكل روتيني',
+    uVy7wsFKUKj: 'الإبلاغ عن الحالات من القطاع الخاص إلزامي',
+    gagBPnUGmaY: 'توزَّع الناموسيات المعالجة مجاناً عبر حملات جماعية على جميع الفئات العمرية',
+    Vm1oCupLZsS: 'توزَّع الناموسيات المعالجة مجاناً عبر القنوات الروتينية على جميع الفئات العمرية',
+    XHwHMqT5nmK: 'تُرصد متانة الناموسيات المعالجة',
+    JKP3ANVLyjN: 'الرش الثمالي داخل المباني من تدخلات البرنامج الوطني لمكافحة الملاريا',
+    H9P0BVxKBYM: 'يُستخدم الـ DDT في الرش الثمالي داخل المباني',
+    VBkox9y1nbh: 'استخدام إدارة مصادر اليرقات',
+  },
+  treatmentPolicies: {
+    KSqJwXVSfbD: 'علاج الخط الأول للملاريا غير المؤكدة',
+    gz7J7ikcJ1e: 'علاج الخط الأول لـ P. falciparum',
+    e6JiciQzwuh: 'في حالة إخفاق علاج P. falciparum',
+    zW6EYvOjMIo: 'علاج الملاريا الوخيمة',
+    lOvt1oXLdBr: 'علاج P. vivax',
+  },
+};
+
+export const TRANSLATIONS: Partial<Record<string, Translations>> = {
+  fr: FR,
+  es: ES,
+  pt: PT,
+  ar: AR,
+};
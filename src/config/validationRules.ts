@@ -0,0 +1,76 @@
+// Validation Rules
+// Plausibility checks run over the profile values and chart series before a profile is
+// printed. Values that are not reported are never checked; a rule only fails on real values.
+
+import { CountryProfileData } from '../types/dhis2';
+
+// Profile sections holding single numeric values
+type NumericProfileSection = 'population' | 'parasites' | 'cases' | 'estimates';
+
+type NumericKeys<T> = {
+  [K in keyof T]-?: T[K] extends number | null ? K : never;
+}[keyof T];
+
+// A numeric profile value, e.g. 'cases.totalConfirmedCases'
+export type ProfileValuePath = {
+  [S in NumericProfileSection]: `${S}.${Extract<NumericKeys<CountryProfileData[S]>, string>}`;
+}[NumericProfileSection];
+
+// Checks shared by profile values and chart series; Ref is a value path or a data element UID
+export type ValidationCheck<Ref extends string> =
+  | { type: 'notGreaterThan'; value: Ref; limit: Ref }                        // value <= limit
+  | { type: 'sumEquals'; values: Ref[]; total: Ref; tolerance: number }        // |sum - total| <= tolerance * total
+  | { type: 'sumAtMost'; values: Ref[]; max: number }                          // sum <= max
+  | { type: 'range'; value: Ref; min?: number; max?: number };                 // min <= value <= max
+
+export type ValidationRule<Ref extends string> = ValidationCheck<Ref> & {
+  id: string;
+  message: string;
+};
+
+export type ProfileValidationRule = ValidationRule<ProfileValuePath>;
+
+// Series rules use data element UIDs and are checked per year on the transformed values
+// plotted by the charts (e.g. after multiplyBy100)
+export type SeriesValidationRule = ValidationRule<string>;
+
+export const PROFILE_VALIDATION_RULES: ProfileValidationRule[] = [
+  { id: 'confirmedCasesWithinTotal', type: 'notGreaterThan', value: 'cases.totalConfirmedCases', limit: 'cases.totalCases', message: 'Confirmed cases exceed total cases' },
+  { id: 'indigenousCasesWithinConfirmed', type: 'notGreaterThan', value: 'cases.reportedIndigenousConfirmedCases', limit: 'cases.totalConfirmedCases', message: 'Indigenous cases exceed confirmed cases' },
+  { id: 'indigenousDeathsWithinDeaths', type: 'notGreaterThan', value: 'cases.indigenousDeaths', limit: 'cases.reportedDeaths', message: 'Indigenous deaths exceed reported deaths' },
+  { id: 'casesLowerBound', type: 'notGreaterThan', value: 'estimates.casesLowerBound', limit: 'estimates.estimatedCases', message: 'Lower bound is above the estimated cases' },
+  { id: 'casesUpperBound', type: 'notGreaterThan', value: 'estimates.estimatedCases', limit: 'estimates.casesUpperBound', message: 'Upper bound is below the estimated cases' },
+  { id: 'deathsLowerBound', type: 'notGreaterThan', value: 'estimates.deathsLowerBound', limit: 'estimates.estimatedDeaths', message: 'Lower bound is above the estimated deaths' },
+  { id: 'deathsUpperBound', type: 'notGreaterThan', value: 'estimates.estimatedDeaths', limit: 'estimates.deathsUpperBound', message: 'Upper bound is below the estimated deaths' },
+  // Strata are rounded by countries, so allow a 1% difference
+  { id: 'populationStrataSum', type: 'sumEquals', values: ['population.highTransmission', 'population.lowTransmission', 'population.malariaFree'], total: 'population.total', tolerance: 0.01, message: 'Population strata do not add up to the total' },
+  { id: 'parasiteShareSum', type: 'sumAtMost', values: ['parasites.pFalciparum', 'parasites.pVivax'], max: 100, message: 'P. falciparum and P. vivax add up to more than 100%' },
+  { id: 'pFalciparumShare', type: 'range', value: 'parasites.pFalciparum', min: 0, max: 100, message: 'P. falciparum share is outside 0-100%' },
+  { id: 'pVivaxShare', type: 'range', value: 'parasites.pVivax', min: 0, max: 100, message: 'P. vivax share is outside 0-100%' },
+];
+
+const percentage = (uid: string, label: string): SeriesValidationRule => ({
+  id: `${uid}Percentage`,
+  type: 'range',
+  value: uid,
+  min: 0,
+  max: 100,
+  message: `${label} is outside 0-100%`,
+});
+
+export const SERIES_VALIDATION_RULES: SeriesValidationRule[] = [
+  percentage('BJXyRAkf2HZ', 'Reporting completeness'),
+  percentage('nvqnQcEbuPA', 'Care sought from any provider'),
+  percentage('o4iFtiN0YZh', 'Care sought from public health facility'),
+  percentage('Rdbxu0qoX8U', 'Suspected cases tested'),
+  percentage('IGQENa04DFm', 'Fever cases with finger/heel stick'),
+  percentage('heI5NQZqZRW', 'ACTs as % of antimalarials'),
+  percentage('ZoMFYowPAkO', 'Slide positivity rate'),
+  percentage('eVYQuP1faAt', 'RDT positivity rate'),
+  percentage('ZnSwOwcQt52', 'Survey microscopy positivity'),
+  percentage('gZrHErmb74i', 'Survey RDT positivity'),
+  percentage('rVUHAOEXV67', 'Population with access to ITNs'),
+  percentage('SQWZ8POEhMI', 'Population sleeping under an ITN'),
+  percentage('LSlfr3VzLCp', 'Households with at least 1 ITN'),
+  { id: 'publicCareWithinAnyProvider', type: 'notGreaterThan', value: 'o4iFtiN0YZh', limit: 'nvqnQcEbuPA', message: 'Care sought from public health facilities exceeds care sought from any provider' },
+];
@@ -0,0 +1,18 @@
+// WHO Regions
+// Region org units sit at level 2; their codes are used for region-specific logic (e.g. Chart 7 for AFR)
+
+import { LabelKey } from './labels';
+
+export const WHO_REGIONS: Record<string, LabelKey> = {
+  AFR: 'whoRegion.AFR',
+  EMR: 'whoRegion.EMR',
+  EUR: 'whoRegion.EUR',
+  AMR: 'whoRegion.AMR',
+  SEAR: 'whoRegion.SEAR',
+  WPR: 'whoRegion.WPR',
+};
+
+// Map region codes to the label of their full name
+export function getRegionLabelKey(regionCode: string): LabelKey | undefined {
+  return WHO_REGIONS[regionCode];
+}
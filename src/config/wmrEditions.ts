@@ -0,0 +1,84 @@
+// WMR Edition Registry
+// Each World Malaria Report edition publishes profiles for one data year.
+// The registry drives the year selector, URL period validation and map image paths.
+
+export interface WmrEdition {
+  id: string;             // Edition identifier, e.g. 'WMR2025'
+  label: string;          // Label shown in the year selector
+  dataYear: string;       // Analytics period the profiles are built from
+  mapImageFolder: string; // Folder under public/ holding the edition's map images
+  policyYear: number;     // Year checked against PolicyDefinition validFromYear/validUntilYear
+  published: boolean;     // Unpublished editions are only available in development
+}
+
+export const WMR_EDITIONS: WmrEdition[] = [
+  {
+    id: 'WMR2024',
+    label: 'WMR2024 (2023)',
+    dataYear: '2023',
+    mapImageFolder: 'img/2023',
+    policyYear: 2023,
+    published: false, // Map images for 2023 are not bundled
+  },
+  {
+    id: 'WMR2025',
+    label: 'WMR2025 (2024)',
+    dataYear: '2024',
+    mapImageFolder: 'img/2024',
+    policyYear: 2024,
+    published: true,
+  },
+];
+
+/**
+ * Editions selectable in the current environment, oldest first
+ */
+export function getAvailableEditions(isProduction: boolean): WmrEdition[] {
+  return WMR_EDITIONS.filter(edition => edition.published || !isProduction);
+}
+
+/**
+ * Editions a profile can be compared with: every edition with data in DHIS2, published or
+ * not, since the comparison shows no maps
+ */
+export function getComparableEditions(): WmrEdition[] {
+  return WMR_EDITIONS;
+}
+
+export function getEditionByDataYear(dataYear: string): WmrEdition | undefined {
+  return WMR_EDITIONS.find(edition => edition.dataYear === dataYear);
+}
+
+/**
+ * Edition id used in file names, e.g. WMR2025 for 2024 data, also for years without a known edition
+ */
+export function getEditionId(dataYear: string): string {
+  return getEditionByDataYear(dataYear)?.id || `WMR${parseInt(dataYear) + 1}`;
+}
+
+/**
+ * Year policy validity is evaluated against; the data year itself when it is not a known edition
+ */
+export function getPolicyYear(dataYear: string): number {
+  return getEditionByDataYear(dataYear)?.policyYear ?? parseInt(dataYear);
+}
+
+/**
+ * Latest published edition, used when no period is selected
+ */
+export function getDefaultEdition(): WmrEdition {
+  const published = WMR_EDITIONS.filter(edition => edition.published);
+  return published[published.length - 1] || WMR_EDITIONS[WMR_EDITIONS.length - 1];
+}
+
+export function isAvailablePeriod(period: string, isProduction: boolean): boolean {
+  return getAvailableEditions(isProduction).some(edition => edition.dataYear === period);
+}
+
+/**
+ * Relative path of a map image for the edition publishing the given data year
+ */
+export function getMapImagePath(dataYear: string, fileName: string): string {
+  const folder = getEditionByDataYear(dataYear)?.mapImageFolder || `img/${dataYear}`;
+  return `./${folder}/${fileName}`;
+}
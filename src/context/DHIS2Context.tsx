@@ -2,6 +2,9 @@ import React, { createContext, useContext, useReducer, useEffect, ReactNode } fr
 import { AuthState, DHIS2Config, DHIS2User } from '../types/dhis2';
 import { dhis2Service } from '../services/dhis2Service';
 
+// Authority of DHIS2 superusers, who see the admin views in production
+const ADMIN_AUTHORITY = 'ALL';
+
 // Check if running in DHIS2 environment
 function isRunningInDHIS2(): boolean {
   return typeof window !== 'undefined' && 
@@ -16,6 +19,7 @@ interface DHIS2ContextType extends AuthState {
   goHome: () => void;
   isConnecting: boolean;
   isProduction: boolean;
+  isAdmin: boolean;
 }
 
 const DHIS2Context = createContext<DHIS2ContextType | undefined>(undefined);
@@ -154,7 +158,8 @@ export function DHIS2Provider({ children }: { children: ReactNode }) {
         disconnect, 
         goHome,
         isConnecting,
-        isProduction
+        isProduction,
+        isAdmin: !!state.user?.authorities?.includes(ADMIN_AUTHORITY)
       }}
     >
       {children}
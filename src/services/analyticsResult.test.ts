@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { AnalyticsResult } from './analyticsResult';
+import { AnalyticsResponse } from '../types/dhis2';
+
+function response(columns: string[], rows: string[][], items: Record<string, string> = {}): AnalyticsResponse {
+  return {
+    headers: columns.map(name => ({ name, column: name, valueType: 'TEXT' })),
+    rows,
+    metaData: { items: Object.fromEntries(Object.entries(items).map(([uid, name]) => [uid, { name }])) },
+  };
+}
+
+describe('AnalyticsResult', () => {
+  it('reads columns by header name, whatever their order', () => {
+    const result = new AnalyticsResult(response(['value', 'pe', 'extra', 'ou', 'dx'], [['12', '2023', 'x', 'ou1', 'de1']]));
+    expect(result.rows).toEqual([{ dataElement: 'de1', orgUnit: 'ou1', period: '2023', value: '12' }]);
+    expect(result.getValue('de1', '2023')).toBe('12');
+  });
+
+  it('rejects a response without one of the columns', () => {
+    expect(() => new AnalyticsResult(response(['dx', 'pe', 'value'], []))).toThrow('Analytics response has no "ou" column');
+  });
+
+  it('looks values up by org unit, or takes the first row without one', () => {
+    const result = new AnalyticsResult(response(['dx', 'ou', 'pe', 'value'], [['de1', 'ou1', '2023', '1'], ['de1', 'ou2', '2023', '2']]));
+    expect(result.getValue('de1', '2023', 'ou2')).toBe('2');
+    expect(result.getValue('de1', '2023')).toBe('1');
+    expect(result.getValue('de1', '2022')).toBeUndefined();
+    expect(result.has('de1', '2023', 'ou3')).toBe(false);
+  });
+
+  it('keeps a reported zero and gives null for missing or non-numeric values', () => {
+    const result = new AnalyticsResult(response(['dx', 'ou', 'pe', 'value'], [['zero', 'ou1', '2023', '0'], ['empty', 'ou1', '2023', ''], ['text', 'ou1', '2023', 'Yes']]));
+    expect(result.getNumber('zero', '2023')).toBe(0);
+    expect(result.getNumber('empty', '2023')).toBeNull();
+    expect(result.getNumber('text', '2023')).toBeNull();
+    expect(result.getNumber('missing', '2023')).toBeNull();
+  });
+
+  describe('merge', () => {
+    it('rearranges rows into the column order of the first response', () => {
+      const merged = AnalyticsResult.merge([
+        response(['dx', 'ou', 'pe', 'value'], [['de1', 'ou1', '2023', '1']], { de1: 'First' }),
+        response(['value', 'pe', 'ou', 'dx'], [['2', '2023', 'ou1', 'de2']], { de2: 'Second' }),
+      ]);
+      expect(merged.response.rows).toEqual([['de1', 'ou1', '2023', '1'], ['de2', 'ou1', '2023', '2']]);
+      expect(merged.getNumber('de2', '2023')).toBe(2);
+      expect(merged.getItemName('de1')).toBe('First');
+      expect(merged.getItemName('de2')).toBe('Second');
+    });
+
+    it('leaves columns the other response does not have empty', () => {
+      const merged = AnalyticsResult.merge([
+        response(['dx', 'ou', 'pe', 'value', 'numerator'], [['de1', 'ou1', '2023', '1', '5']]),
+        response(['dx', 'ou', 'pe', 'value'], [['de2', 'ou1', '2023', '2']]),
+      ]);
+      expect(merged.response.rows[1]).toEqual(['de2', 'ou1', '2023', '2', '']);
+    });
+
+    it('gives an empty result for no responses', () => {
+      const merged = AnalyticsResult.merge([]);
+      expect(merged.rows).toEqual([]);
+      expect(merged.getValue('de1', '2023')).toBeUndefined();
+    });
+  });
+
+  describe('select', () => {
+    it('keeps the rows of the requested data elements and periods', () => {
+      const result = new AnalyticsResult(response(['pe', 'dx', 'ou', 'value'], [
+        ['2022', 'de1', 'ou1', '1'],
+        ['2023', 'de1', 'ou1', '2'],
+        ['2023', 'de2', 'ou1', '3'],
+      ], { de1: 'First' }));
+      const selected = result.select(['de1'], ['2023']);
+      expect(selected.headers).toEqual(result.response.headers);
+      expect(selected.rows).toEqual([['2023', 'de1', 'ou1', '2']]);
+      expect(selected.metaData).toEqual(result.response.metaData);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+// Analytics Result
+// Typed view of an analytics response. Columns are resolved by header name rather
+// than position, so a reordered or extra dimension in the response does not shift values.
+
+import { AnalyticsResponse } from '../types/dhis2';
+
+export interface AnalyticsRow {
+  dataElement: string;
+  orgUnit: string;
+  period: string;
+  value: string;
+}
+
+// Header names of the columns every analytics request made by the app returns
+const COLUMNS = {
+  dataElement: 'dx',
+  orgUnit: 'ou',
+  period: 'pe',
+  value: 'value',
+} as const;
+
+type ColumnIndexes = Record<keyof typeof COLUMNS, number>;
+
+function getColumnIndexes(response: AnalyticsResponse): ColumnIndexes {
+  const indexes = {} as ColumnIndexes;
+  (Object.keys(COLUMNS) as (keyof typeof COLUMNS)[]).forEach(key => {
+    const index = response.headers.findIndex(header => header.name === COLUMNS[key]);
+    if (index === -1) {
+      throw new Error(`Analytics response has no "${COLUMNS[key]}" column`);
+    }
+    indexes[key] = index;
+  });
+  return indexes;
+}
+
+export class AnalyticsResult {
+  readonly response: AnalyticsResponse;
+  readonly rows: AnalyticsRow[];
+  // Values by data element, period and org unit; the second map ignores the org unit
+  private values = new Map<string, string>();
+  private valuesAnyOrgUnit = new Map<string, string>();
+
+  constructor(response: AnalyticsResponse) {
+    this.response = response;
+    const columns = getColumnIndexes(response);
+    this.rows = response.rows.map(row => ({
+      dataElement: row[columns.dataElement],
+      orgUnit: row[columns.orgUnit],
+      period: row[columns.period],
+      value: row[columns.value],
+    }));
+
+    this.rows.forEach(row => {
+      this.values.set(`${row.dataElement}|${row.period}|${row.orgUnit}`, row.value);
+      const key = `${row.dataElement}|${row.period}`;
+      if (!this.valuesAnyOrgUnit.has(key)) {
+        this.valuesAnyOrgUnit.set(key, row.value);
+      }
+    });
+  }
+
+  /**
+   * Combine responses for different data elements of the same request. Rows are
+   * rearranged into the column order of the first response; no responses give no rows.
+   */
+  static merge(responses: AnalyticsResponse[]): AnalyticsResult {
+    if (responses.length === 0) {
+      return new AnalyticsResult({ headers: Object.values(COLUMNS).map(name => ({ name, column: name, valueType: 'TEXT' })), rows: [] });
+    }
+    const [first, ...others] = responses;
+    const rows = [...first.rows];
+    const items = { ...first.metaData?.items };
+
+    others.forEach(response => {
+      const positions = first.headers.map(header => response.headers.findIndex(other => other.name === header.name));
+      response.rows.forEach(row => rows.push(positions.map(position => (position === -1 ? '' : row[position]))));
+      Object.assign(items, response.metaData?.items);
+    });
+
+    return new AnalyticsResult({ ...first, rows, metaData: { ...first.metaData, items } });
+  }
+
+  /**
+   * Whether the response has a row for the data element and period (and org unit when given)
+   */
+  has(dataElement: string, period: string, orgUnit?: string): boolean {
+    return this.getValue(dataElement, period, orgUnit) !== undefined;
+  }
+
+  /**
+   * Raw value, or undefined when the response has no row for it.
+   * Without an org unit the first matching row is used, for single org unit requests.
+   */
+  getValue(dataElement: string, period: string, orgUnit?: string): string | undefined {
+    return orgUnit === undefined
+      ? this.valuesAnyOrgUnit.get(`${dataElement}|${period}`)
+      : this.values.get(`${dataElement}|${period}|${orgUnit}`);
+  }
+
+  /**
+   * Numeric value, or null when missing or not a number. A reported zero stays 0.
+   */
+  getNumber(dataElement: string, period: string, orgUnit?: string): number | null {
+    const value = this.getValue(dataElement, period, orgUnit);
+    if (value === undefined || value === '') return null;
+    const number = parseFloat(value);
+    return isNaN(number) ? null : number;
+  }
+
+  /**
+   * Display name of a data element, org unit or period from the response metaData
+   */
+  getItemName(uid: string): string | undefined {
+    return this.response.metaData?.items?.[uid]?.name;
+  }
+
+  /**
+   * Response restricted to the given data elements and periods, in the original column order
+   */
+  select(dataElements: string[], periods: string[]): AnalyticsResponse {
+    const columns = getColumnIndexes(this.response);
+    const requestedDataElements = new Set(dataElements);
+    const requestedPeriods = new Set(periods);
+    return {
+      ...this.response,
+      rows: this.response.rows.filter(row =>
+        requestedDataElements.has(row[columns.dataElement]) && requestedPeriods.has(row[columns.period])
+      ),
+    };
+  }
+}
@@ -0,0 +1,145 @@
+// Chart Data Service
+// Loads the series of a chart for one country: requests the analytics of its layout in
+// one call and applies the transformation rules, year by year. Also builds the CSV and
+// Excel downloads of a chart.
+
+import { ChartLayout, ChartSeriesSpec, ChartSpec, getChartStartYear } from '../config/chartSpecs';
+import { getLabelKeys } from '../config/labels';
+import { dataTransformationService } from './dataTransformationService';
+import { dhis2Service } from './dhis2Service';
+import { labelService } from './labelService';
+import { getEditionId } from '../config/wmrEditions';
+import { CsvValue } from '../utils/csvExport';
+import { XlsxSheet } from '../utils/xlsxExport';
+
+export interface ChartSeriesValues {
+  series: ChartSeriesSpec;
+  values: (number | null)[];    // One per period, after the transformation rules
+  rawValues: (number | null)[]; // One per period, as reported in DHIS2
+}
+
+export interface ChartData {
+  layout: ChartLayout;
+  periods: string[]; // Years for time series, the profile year for pies
+  series: ChartSeriesValues[];
+}
+
+class ChartDataService {
+  /**
+   * Years a time series chart covers, from its start year up to the profile year
+   */
+  getPeriods(spec: ChartSpec, period: string, startYear = getChartStartYear(spec)): string[] {
+    if (spec.kind === 'pie') return [period];
+    const endYear = parseInt(period);
+    return Array.from({ length: Math.max(endYear - startYear + 1, 1) }, (_, i) => String(Math.min(startYear, endYear) + i));
+  }
+
+  /**
+   * Values of a chart layout (see resolveChartLayout) for an org unit
+   */
+  async getChartData(spec: ChartSpec, layout: ChartLayout, orgUnit: string, period: string, startYear?: number): Promise<ChartData> {
+    const periods = this.getPeriods(spec, period, startYear);
+
+    await labelService.load(getLabelKeys(spec.id));
+
+    const analyticsData = await dhis2Service.getAnalyticsData(
+      layout.series.map(series => series.uid),
+      orgUnit,
+      periods.join(';'),
+      !!spec.skipRounding,
+      spec.id
+    );
+
+    return {
+      layout,
+      periods,
+      series: layout.series.map(series => {
+        const rawValues = periods.map(year => analyticsData.getNumber(series.uid, year));
+        return { series, values: rawValues.map(value => this.getValue(spec, series, value)), rawValues };
+      }),
+    };
+  }
+
+  /**
+   * Whether any series has a reported, non-zero value
+   */
+  hasData(data: ChartData): boolean {
+    return data.series.some(({ values }) => values.some(value => value !== null && value !== 0));
+  }
+
+  /**
+   * The years of a time series from startYear on; trimEmpty also drops the leading
+   * years where no series has a value
+   */
+  getWindow(data: ChartData, startYear: number, trimEmpty: boolean): ChartData {
+    let first = data.periods.findIndex(year => parseInt(year) >= startYear);
+    if (first < 0) return data;
+    if (trimEmpty) {
+      const firstReported = data.periods.findIndex((_, index) =>
+        index >= first && data.series.some(({ values }) => values[index] !== null && values[index] !== 0)
+      );
+      // A chart without any value keeps its years, so it still shows its axes
+      if (firstReported >= 0) first = firstReported;
+    }
+    return {
+      ...data,
+      periods: data.periods.slice(first),
+      series: data.series.map(item => ({ ...item, values: item.values.slice(first), rawValues: item.rawValues.slice(first) })),
+    };
+  }
+
+  /**
+   * File name of a chart download without extension, e.g. WMR2025_GHA_Estimated_and_reported_cases
+   */
+  getFileName(data: ChartData, countryCode: string, period: string): string {
+    const title = labelService.get(data.layout.title, { period })
+      .replace(/[^\p{L}\p{N}]+/gu, '_')
+      .replace(/^_+|_+$/g, '');
+    return `${getEditionId(period)}_${countryCode}_${title}`;
+  }
+
+  /**
+   * One row per year and one column per series, with the plotted or the raw values
+   */
+  toTableRows(data: ChartData, raw = false): CsvValue[][] {
+    const header = [labelService.get('profile.year'), ...data.series.map(({ series }) => this.getColumnName(series))];
+    const body = data.periods.map((year, index) => [
+      parseInt(year),
+      ...data.series.map(item => (raw ? item.rawValues : item.values)[index]),
+    ]);
+    return [header, ...body];
+  }
+
+  /**
+   * CSV rows of a chart: the plotted values, followed by the raw values of each series
+   */
+  toCsvRows(data: ChartData): CsvValue[][] {
+    const values = this.toTableRows(data);
+    const rawValues = this.toTableRows(data, true);
+    const rawHeader = data.series.map(({ series }) => labelService.get('chart.rawValue', { label: this.getColumnName(series) }));
+    return values.map((row, index) => [...row, ...(index === 0 ? rawHeader : rawValues[index].slice(1))]);
+  }
+
+  /**
+   * Excel sheets of a chart: the plotted values and the raw values
+   */
+  toXlsxSheets(data: ChartData): XlsxSheet[] {
+    return [
+      { name: labelService.get('chart.values'), rows: this.toTableRows(data) },
+      { name: labelService.get('chart.rawValues'), rows: this.toTableRows(data, true) },
+    ];
+  }
+
+  private getColumnName(series: ChartSeriesSpec): string {
+    return `${labelService.get(series.label)} (${series.uid})`;
+  }
+
+  private getValue(spec: ChartSpec, series: ChartSeriesSpec, rawValue: number | null): number | null {
+    const value = series.transform
+      ? dataTransformationService.applyRules(rawValue, series.transform)
+      : dataTransformationService.transformValue(rawValue, series.uid);
+    return spec.missingAsZero ? value || 0 : value;
+  }
+}
+
+export const chartDataService = new ChartDataService();
@@ -0,0 +1,296 @@
+// Data Completeness Service
+// Reports which data elements a country profile expects are actually filled, based on
+// the analytics responses recorded while the profile and its charts were loading.
+
+import { dhis2Service } from './dhis2Service';
+import { dataProcessingService } from './dataProcessingService';
+import { profileDefinitionService } from './profileDefinitionService';
+import { AnalyticsResult } from './analyticsResult';
+import { ProfileValueType, getProfileSectionList, getSectionFields } from '../config/profileDefinition';
+import { CHART_SPECS, ChartSpec, getChartDataElements, getChartStartYear } from '../config/chartSpecs';
+import { getPolicyYear } from '../config/wmrEditions';
+import { RecordedAnalytics } from '../types/snapshot';
+import { Country } from '../types/dhis2';
+import { CsvValue } from '../utils/csvExport';
+
+export type CompletenessStatus = 'present' | 'missing' | 'zero' | 'invalid';
+
+export const COMPLETENESS_STATUS_LABELS: Record<CompletenessStatus, string> = {
+  present: 'Present',
+  missing: 'Missing',
+  zero: 'Zero',
+  invalid: 'Invalid type',
+};
+
+export interface CompletenessItem {
+  uid: string;
+  label: string;
+  valueType: ProfileValueType;
+  status: CompletenessStatus;
+  value: string | null;    // Value of the latest reported period
+  periodsReported: number;
+  periodsExpected: number; // 1 for profile fields, the number of years shown for chart series
+}
+
+export interface CompletenessGroup {
+  id: string; // Profile section id or chart id
+  label: string;
+  items: CompletenessItem[];
+}
+
+export interface CompletenessReport {
+  orgUnit: string;
+  period: string;
+  groups: CompletenessGroup[];
+}
+
+export interface CompletenessMatrixColumn {
+  uid: string;
+  label: string;
+  valueType: ProfileValueType;
+  sectionId: string;    // Profile section id or chart id
+  sectionLabel: string;
+  periods: string[];    // The profile period, or every year a chart shows
+}
+
+export interface CompletenessMatrixRow {
+  country: Country;
+  statuses: CompletenessStatus[]; // In column order
+}
+
+export interface CompletenessMatrix {
+  period: string;
+  columns: CompletenessMatrixColumn[];
+  rows: CompletenessMatrixRow[];
+}
+
+// Keep analytics URLs well below server limits; the data elements are split by dhis2Service
+const ORG_UNITS_PER_REQUEST = 25;
+
+function conformsToValueType(value: string, valueType: ProfileValueType): boolean {
+  switch (valueType) {
+    case 'number':
+      return value.trim() !== '' && isFinite(Number(value));
+    case 'boolean':
+      return dataProcessingService.convertToBoolean(value) !== null;
+    default:
+      return value.trim() !== '';
+  }
+}
+
+function getStatus(values: string[], valueType: ProfileValueType): CompletenessStatus {
+  if (values.length === 0) return 'missing';
+  if (values.some(value => !conformsToValueType(value, valueType))) return 'invalid';
+  if (valueType === 'number' && values.every(value => Number(value) === 0)) return 'zero';
+  return 'present';
+}
+
+function getCompletenessItem(
+  result: AnalyticsResult | null,
+  uid: string,
+  label: string,
+  valueType: ProfileValueType,
+  periods: string[]
+): CompletenessItem {
+  const values = periods
+    .map(period => result?.getValue(uid, period))
+    .filter((value): value is string => value !== undefined);
+
+  return {
+    uid,
+    label,
+    valueType,
+    status: getStatus(values, valueType),
+    value: values.length > 0 ? values[values.length - 1] : null,
+    periodsReported: values.length,
+    periodsExpected: periods.length,
+  };
+}
+
+// Chart ids are 'chart1' ... 'chart9'
+function getChartLabel(chartId: string): string {
+  return chartId.replace(/^chart(\d+)$/, 'Chart $1');
+}
+
+// Years a chart shows in print; a pie only shows the profile period
+function getChartPeriods(spec: ChartSpec, period: string): string[] {
+  if (spec.kind === 'pie') return [period];
+  const years: string[] = [];
+  for (let year = Math.min(getChartStartYear(spec), parseInt(period)); year <= parseInt(period); year++) {
+    years.push(String(year));
+  }
+  return years;
+}
+
+class DataCompletenessService {
+  /**
+   * Completeness of every profile section and chart of a country profile. Only data
+   * already fetched is checked, so the report should be built once the profile has loaded.
+   */
+  async getReport(orgUnit: string, period: string): Promise<CompletenessReport> {
+    const recorded = dhis2Service.getRecordedAnalytics(orgUnit, period);
+    const profileSections = getProfileSectionList(getPolicyYear(period), await profileDefinitionService.getDefinitions());
+
+    const resultsBySource = new Map<string, RecordedAnalytics[]>();
+    recorded.forEach(entry => {
+      if (!entry.source) return;
+      resultsBySource.set(entry.source, [...(resultsBySource.get(entry.source) || []), entry]);
+    });
+    const getResult = (source: string) => {
+      const entries = resultsBySource.get(source);
+      return entries ? AnalyticsResult.merge(entries.map(entry => entry.response)) : null;
+    };
+
+    const sectionGroups: CompletenessGroup[] = profileSections.map(section => {
+      const result = getResult(section.id);
+      return {
+        id: section.id,
+        label: section.label,
+        items: getSectionFields(section).map(field =>
+          getCompletenessItem(result, field.uid, field.label, field.valueType, [period])
+        ),
+      };
+    });
+
+    // Everything else was requested by a chart; chart series are numeric
+    const sectionIds = new Set(sectionGroups.map(group => group.id));
+    const chartGroups: CompletenessGroup[] = Array.from(resultsBySource.entries())
+      .filter(([source]) => !sectionIds.has(source))
+      .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+      .map(([source, entries]) => {
+        const result = getResult(source);
+        const dataElements = Array.from(new Set(entries.flatMap(entry => entry.dataElements)));
+        const periods = Array.from(new Set(entries.flatMap(entry => entry.period.split(';')))).sort();
+        return {
+          id: source,
+          label: getChartLabel(source),
+          items: dataElements.map(uid =>
+            getCompletenessItem(result, uid, result?.getItemName(uid) || uid, 'number', periods)
+          ),
+        };
+      });
+
+    return { orgUnit, period, groups: [...sectionGroups, ...chartGroups] };
+  }
+
+  /**
+   * Status of every required profile data element and chart series for each country.
+   * Countries are requested together through multiple org units per analytics request.
+   */
+  async getMatrix(countries: Country[], period: string): Promise<CompletenessMatrix> {
+    const sections = getProfileSectionList(getPolicyYear(period), await profileDefinitionService.getDefinitions());
+
+    // A data element is listed once, under the first section or chart using it
+    const columns: CompletenessMatrixColumn[] = [];
+    const seen = new Set<string>();
+    const add = (column: CompletenessMatrixColumn) => {
+      if (seen.has(column.uid)) return;
+      seen.add(column.uid);
+      columns.push(column);
+    };
+    sections.forEach(section => {
+      getSectionFields(section).forEach(field => add({
+        uid: field.uid,
+        label: field.label,
+        valueType: field.valueType,
+        sectionId: section.id,
+        sectionLabel: section.label,
+        periods: [period],
+      }));
+    });
+    // Chart series are numeric and labelled by UID until the DHIS2 name is known
+    CHART_SPECS.forEach(spec => {
+      const periods = getChartPeriods(spec, period);
+      getChartDataElements(spec).forEach(uid => add({
+        uid,
+        label: uid,
+        valueType: 'number',
+        sectionId: spec.id,
+        sectionLabel: getChartLabel(spec.id),
+        periods,
+      }));
+    });
+
+    const batches: Country[][] = [];
+    for (let i = 0; i < countries.length; i += ORG_UNITS_PER_REQUEST) {
+      batches.push(countries.slice(i, i + ORG_UNITS_PER_REQUEST));
+    }
+
+    // One request per batch and set of periods, since charts cover more years than the profile
+    const columnsByPeriods = new Map<string, CompletenessMatrixColumn[]>();
+    columns.forEach(column => {
+      const key = column.periods.join(';');
+      columnsByPeriods.set(key, [...(columnsByPeriods.get(key) || []), column]);
+    });
+    const resultsByPeriods = new Map(await Promise.all(
+      Array.from(columnsByPeriods.entries()).map(async ([periods, periodColumns]): Promise<[string, AnalyticsResult[]]> => [
+        periods,
+        await Promise.all(batches.map(batch =>
+          dhis2Service.getAnalyticsData(periodColumns.map(column => column.uid), batch.map(country => country.id).join(';'), periods)
+        )),
+      ])
+    ));
+
+    const results = Array.from(resultsByPeriods.values()).flat();
+    columns.forEach(column => {
+      if (column.label !== column.uid) return;
+      column.label = results.map(result => result.getItemName(column.uid)).find(Boolean) || column.label;
+    });
+
+    const rows = countries.map((country, index) => ({
+      country,
+      statuses: columns.map(column => {
+        // Batches hold consecutive countries, in the same order as the list
+        const result = resultsByPeriods.get(column.periods.join(';'))![Math.floor(index / ORG_UNITS_PER_REQUEST)];
+        const values = column.periods
+          .map(columnPeriod => result.getValue(column.uid, columnPeriod, country.id))
+          .filter((value): value is string => value !== undefined);
+        return getStatus(values, column.valueType);
+      }),
+    }));
+
+    return { period, columns, rows };
+  }
+
+  /**
+   * Country rows with a status per data element and missing totals, for downloadCsv
+   */
+  toMatrixCsvRows(matrix: CompletenessMatrix): CsvValue[][] {
+    const header = ['Country', 'ISO3', 'Missing', ...matrix.columns.map(column => `${column.label} (${column.uid})`)];
+    const body = matrix.rows.map(row => [
+      row.country.shortName,
+      row.country.code,
+      row.statuses.filter(status => status === 'missing').length,
+      ...row.statuses.map(status => COMPLETENESS_STATUS_LABELS[status]),
+    ]);
+    const missingByColumn = matrix.columns.map((_, index) => matrix.rows.filter(row => row.statuses[index] === 'missing').length);
+    return [header, ...body, ['Countries missing', '', '', ...missingByColumn]];
+  }
+
+  getStatusCounts(report: CompletenessReport): Record<CompletenessStatus, number> {
+    const counts: Record<CompletenessStatus, number> = { present: 0, missing: 0, zero: 0, invalid: 0 };
+    report.groups.forEach(group => group.items.forEach(item => counts[item.status]++));
+    return counts;
+  }
+
+  /**
+   * One row per data element, for downloadCsv
+   */
+  toCsvRows(report: CompletenessReport): CsvValue[][] {
+    const header = ['Section', 'Data element', 'UID', 'Value type', 'Status', 'Periods reported', 'Latest value'];
+    const body = report.groups.flatMap(group =>
+      group.items.map(item => [
+        group.label,
+        item.label,
+        item.uid,
+        item.valueType,
+        COMPLETENESS_STATUS_LABELS[item.status],
+        `${item.periodsReported}/${item.periodsExpected}`,
+        item.value,
+      ])
+    );
+    return [header, ...body];
+  }
+}
+
+export const dataCompletenessService = new DataCompletenessService();
@@ -1,6 +1,8 @@
 // Data Transformation Service for DHIS2 Analytics Data
 // Handles various data processing rules before plotting to charts
 
+import type { AnalyticsRow } from './analyticsResult';
+
 export type TransformationRule = 'multiplyBy100' | 'cut100' | 'nullZeros' | 'none';
 
 interface DataElementTransformation {
@@ -87,9 +89,18 @@ class DataTransformationService {
       return null;
     }
 
-    const rules = this.getRules(dataElementUID);
-    
-    let transformedValue = value;
+    return this.applyRules(value, this.getRules(dataElementUID));
+  }
+
+  /**
+   * Apply an explicit list of rules to a single value, in order
+   */
+  applyRules(value: number | null, rules: TransformationRule[]): number | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    let transformedValue: number | null = value;
     
     for (const rule of rules) {
       switch (rule) {
@@ -124,24 +135,19 @@ class DataTransformationService {
    * Transform analytics data rows based on configured rules
    * Returns a new array with transformed values
    */
-  transformAnalyticsRows(rows: string[][]): string[][] {
+  transformAnalyticsRows(rows: AnalyticsRow[]): AnalyticsRow[] {
     return rows.map(row => {
-      if (row.length < 4) return row;
-      
-      const dataElementUID = row[0];
-      const rawValue = parseFloat(row[3]);
+      const rawValue = parseFloat(row.value);
       
       if (isNaN(rawValue)) return row;
       
-      const transformedValue = this.transformValue(rawValue, dataElementUID);
+      const transformedValue = this.transformValue(rawValue, row.dataElement);
       
       // Create new row with transformed value
-      return [
-        row[0], // data element
-        row[1], // org unit
-        row[2], // period
-        transformedValue !== null ? transformedValue.toString() : row[3] // transformed value
-      ];
+      return {
+        ...row,
+        value: transformedValue !== null ? transformedValue.toString() : row.value
+      };
     });
   }
 
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { dhis2Service } from './dhis2Service';
+
+const BASE_URL = 'https://dhis2.test';
+
+// Analytics server answering every data element and period of a request with "<uid>-<period>"
+// after delayMs, failing requests that name a data element in failing
+function stubAnalytics(delayMs = 0, failing: string[] = []) {
+  const fetch = vi.fn(async (url: string) => {
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+    const dimension = (name: string) => new URL(url).searchParams.getAll('dimension')
+      .find(value => value.startsWith(`${name}:`))!.slice(name.length + 1).split(';');
+    const dataElements = dimension('dx');
+    if (dataElements.some(uid => failing.includes(uid))) {
+      return { ok: false, status: 409, statusText: 'Conflict' };
+    }
+    const rows = dataElements.flatMap(uid => dimension('pe').map(period => [uid, dimension('ou')[0], period, `${uid}-${period}`]));
+    return {
+      ok: true,
+      json: async () => ({ headers: ['dx', 'ou', 'pe', 'value'].map(name => ({ name, column: name, valueType: 'TEXT' })), rows }),
+    };
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+const requestedUrls = (fetch: ReturnType<typeof stubAnalytics>) => fetch.mock.calls.map(([url]) => decodeURIComponent(url));
+
+describe('dhis2Service.getAnalyticsData', () => {
+  beforeEach(async () => {
+    dhis2Service.setConfig({ baseUrl: BASE_URL, token: 'token' });
+    await dhis2Service.refreshData();
+    dhis2Service.resetRequestStats();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('merges concurrent calls for an org unit into one request and gives each call its own rows', async () => {
+    const fetch = stubAnalytics();
+    const [first, second] = await Promise.all([
+      dhis2Service.getAnalyticsData(['de1', 'de2'], 'ou1', '2023'),
+      dhis2Service.getAnalyticsData(['de3'], 'ou1', '2021;2022'),
+    ]);
+
+    expect(requestedUrls(fetch)).toEqual([`${BASE_URL}/api/analytics?dimension=dx:de1;de2;de3&dimension=ou:ou1&dimension=pe:2023;2021;2022`]);
+    expect(first.rows.map(row => row.value)).toEqual(['de1-2023', 'de2-2023']);
+    expect(second.rows.map(row => row.value)).toEqual(['de3-2021', 'de3-2022']);
+    expect(dhis2Service.getRequestStats()).toEqual({ analyticsRequested: 2, analyticsSent: 1, deduplicated: 0 });
+  });
+
+  it('keeps calls for other org units or rounding in their own requests', async () => {
+    const fetch = stubAnalytics();
+    await Promise.all([
+      dhis2Service.getAnalyticsData(['de1'], 'ou1', '2023'),
+      dhis2Service.getAnalyticsData(['de1'], 'ou2', '2023'),
+      dhis2Service.getAnalyticsData(['de1'], 'ou1', '2023', true),
+    ]);
+    expect(requestedUrls(fetch).sort()).toEqual([
+      `${BASE_URL}/api/analytics?dimension=dx:de1&dimension=ou:ou1&dimension=pe:2023`,
+      `${BASE_URL}/api/analytics?dimension=dx:de1&dimension=ou:ou1&dimension=pe:2023&skipRounding=true`,
+      `${BASE_URL}/api/analytics?dimension=dx:de1&dimension=ou:ou2&dimension=pe:2023`,
+    ]);
+  });
+
+  it('requests a data element asked for by several calls once', async () => {
+    const fetch = stubAnalytics();
+    const [first, second] = await Promise.all([
+      dhis2Service.getAnalyticsData(['de1'], 'ou1', '2023'),
+      dhis2Service.getAnalyticsData(['de1'], 'ou1', '2023'),
+    ]);
+    expect(requestedUrls(fetch)).toEqual([`${BASE_URL}/api/analytics?dimension=dx:de1&dimension=ou:ou1&dimension=pe:2023`]);
+    expect(first.rows).toEqual(second.rows);
+  });
+
+  it('shares an in-flight request with an identical call of a later batch', async () => {
+    vi.useFakeTimers();
+    const fetch = stubAnalytics(50);
+    const first = dhis2Service.getAnalyticsData(['de1'], 'ou1', '2023');
+    // The first batch is sent after 10 ms and answers after another 50 ms
+    await vi.advanceTimersByTimeAsync(30);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    const second = dhis2Service.getAnalyticsData(['de1'], 'ou1', '2023');
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect((await second).rows).toEqual((await first).rows);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(dhis2Service.getRequestStats()).toEqual({ analyticsRequested: 2, analyticsSent: 1, deduplicated: 1 });
+  });
+
+  it('splits long requests by data element and merges the answers', async () => {
+    const fetch = stubAnalytics();
+    const dataElements = Array.from({ length: 500 }, (_, index) => `de${String(index).padStart(9, '0')}`);
+    const result = await dhis2Service.getAnalyticsData(dataElements, 'ou1', '2023');
+
+    expect(fetch.mock.calls.length).toBeGreaterThan(1);
+    fetch.mock.calls.forEach(([url]) => expect(url.length).toBeLessThanOrEqual(4000));
+    expect(requestedUrls(fetch).flatMap(url => url.match(/dx:([^&]*)/)![1].split(';'))).toEqual(dataElements);
+    expect(result.rows).toHaveLength(500);
+    expect(result.getValue(dataElements[499], '2023')).toBe(`${dataElements[499]}-2023`);
+  });
+
+  it('retries each call on its own when the merged request fails', async () => {
+    const fetch = stubAnalytics(0, ['invalid']);
+    const [valid, invalid] = await Promise.allSettled([
+      dhis2Service.getAnalyticsData(['de1'], 'ou1', '2023'),
+      dhis2Service.getAnalyticsData(['invalid'], 'ou1', '2023'),
+    ]);
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(valid.status === 'fulfilled' && valid.value.getValue('de1', '2023')).toBe('de1-2023');
+    expect(invalid.status === 'rejected' && String(invalid.reason)).toContain('409 Conflict');
+  });
+
+  it('answers a repeated call from the response cache', async () => {
+    const fetch = stubAnalytics();
+    await dhis2Service.getAnalyticsData(['de1', 'de2'], 'ou1', '2023');
+    const repeated = await dhis2Service.getAnalyticsData(['de2', 'de1'], 'ou1', '2023');
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(repeated.getValue('de2', '2023')).toBe('de2-2023');
+  });
+});
@@ -1,5 +1,11 @@
 import { DHIS2Config, DHIS2User, Country, AnalyticsResponse, OptionSet } from '../types/dhis2';
-import type { OrganisationUnitDetails } from '../types/dhis2';
+import type { DataElementMetadata, DataElementNames, OrganisationUnitDetails } from '../types/dhis2';
+import { COUNTRY_PROFILE_DATASET, SUBNATIONAL_COUNTRY_CODES } from '../config/countries';
+import { getEditionByDataYear } from '../config/wmrEditions';
+import { responseCacheService, CachePolicy } from './responseCacheService';
+import { AnalyticsResult } from './analyticsResult';
+import { profileDefinitionService } from './profileDefinitionService';
+import type { AnalyticsRequest, ProfileSnapshot, RecordedAnalytics } from '../types/snapshot';
 
 // Check if running in DHIS2 environment
 function isRunningInDHIS2(): boolean {
@@ -51,14 +57,61 @@ function getDHIS2BaseUrl(): string {
   return `${protocol}//${hostname}${portStr}${contextPath}`;
 }
 
+// Analytics requests made within this window are merged into one call per org unit
+const ANALYTICS_BATCH_WINDOW_MS = 10;
+// Merged analytics URLs are split by data element to stay below server URL limits
+const MAX_ANALYTICS_URL_LENGTH = 4000;
+
+const HOUR_MS = 60 * 60 * 1000;
+// Data of a published edition is final; unpublished editions are still being reviewed
+const PUBLISHED_EDITION_TTL_MS = 30 * 24 * HOUR_MS;
+const UNPUBLISHED_EDITION_TTL_MS = HOUR_MS;
+const METADATA_CACHE_POLICY: CachePolicy = { edition: 'metadata', ttlMs: 24 * HOUR_MS };
+// UIDs per metadata request, keeps the id:in filter well below URL length limits
+const DATA_ELEMENTS_PER_METADATA_REQUEST = 100;
+
+interface PendingAnalyticsRequest {
+  dataElements: string[];
+  periods: string[];
+  resolve: (response: AnalyticsResponse) => void;
+  reject: (error: unknown) => void;
+}
+
+interface AnalyticsBatch {
+  orgUnit: string;
+  skipRounding: boolean;
+  requests: PendingAnalyticsRequest[];
+}
+
+function getAnalyticsRequestKey({ dataElements, orgUnit, period, skipRounding }: AnalyticsRequest): string {
+  return `${orgUnit}|${period}|${skipRounding ? 1 : 0}|${dataElements.join(';')}`;
+}
+
+export interface RequestStats {
+  analyticsRequested: number; // getAnalyticsData calls
+  analyticsSent: number;      // analytics HTTP requests after batching
+  deduplicated: number;       // requests answered by an identical in-flight request
+}
+
 class DHIS2Service {
   private config: DHIS2Config | null = null;
   private authHeader: string | null = null;
   private isProduction: boolean = false;
+  private inFlightRequests = new Map<string, Promise<unknown>>();
+  private analyticsBatches = new Map<string, AnalyticsBatch>();
+  private analyticsFlushTimer: ReturnType<typeof setTimeout> | null = null;
+  // Organisation unit details are metadata, looked up once per session
+  private organisationUnits = new Map<string, OrganisationUnitDetails>();
+  private requestStats: RequestStats = { analyticsRequested: 0, analyticsSent: 0, deduplicated: 0 };
+  // Analytics results by request, exported with offline snapshots
+  private recordedAnalytics = new Map<string, RecordedAnalytics>();
+  // Set while an offline snapshot is open; requests are answered from it instead of DHIS2
+  private offlineSnapshot: ProfileSnapshot | null = null;
 
   setConfig(config: DHIS2Config) {
     this.config = config;
     this.isProduction = false;
+    this.clearRequestCache();
     
     if (config.token) {
       this.authHeader = 'Bearer ' + config.token;
@@ -128,10 +181,14 @@ class DHIS2Service {
       }
 
       const userData = await response.json();
+      // Cached responses are only shared with requests of the same user
+      responseCacheService.setUser(userData.id || 'demo-user');
       return {
         id: userData.id || 'demo-user',
         displayName: userData.displayName || (this.isProduction ? 'DHIS2 User' : 'Demo User (Connected)'),
         username: userData.username || this.config.username || 'token-user',
+        uiLocale: userData.settings?.keyUiLocale,
+        authorities: Array.isArray(userData.authorities) ? userData.authorities : [],
       };
     } catch (error) {
       if (error instanceof TypeError && error.message.includes('fetch')) {
@@ -178,7 +235,7 @@ class DHIS2Service {
 
       // Get the dataset organization units with path for hierarchy checking
       const datasetResponse = await fetch(
-        `${this.config.baseUrl}/api/dataSets/CWuqJ3dtQC4?fields=organisationUnits[id,displayName,shortName,code,level,path]`,
+        `${this.config.baseUrl}/api/dataSets/${COUNTRY_PROFILE_DATASET}?fields=organisationUnits[id,displayName,shortName,code,level,path]`,
         {
           headers: this.isProduction ? {
             'Content-Type': 'application/json',
@@ -231,8 +288,7 @@ class DHIS2Service {
 
       // Manually add Tanzania Mainland and Zanzibar (level 4 entities)
       // These are level 4 but should appear in the country dropdown
-      const tanzaniaMainlandCode = 'TZA-4-1';
-      const tanzaniaZanzibarCode = 'TZA-4-2';
+      const [tanzaniaMainlandCode, tanzaniaZanzibarCode] = SUBNATIONAL_COUNTRY_CODES;
       
       const tanzaniaMainland = accessibleOrgUnits.find((ou: any) => ou.code === tanzaniaMainlandCode);
       const tanzaniaZanzibar = accessibleOrgUnits.find((ou: any) => ou.code === tanzaniaZanzibarCode);
@@ -265,47 +321,177 @@ class DHIS2Service {
   }
 
 
+  /**
+   * Analytics for one or more data elements and periods. Each call is cached on its own
+   * data elements and periods; concurrent calls that miss the cache are merged into as
+   * few requests per org unit as possible, and each caller only receives its own rows.
+   * Periods must be fixed periods (e.g. '2024'), since rows are matched on them.
+   * The source (profile section or chart id) is recorded with the response for the completeness report.
+   */
   async getAnalyticsData(
     dataElements: string[],
     orgUnit: string,
     period: string,
-    skipRounding?: boolean
-  ): Promise<AnalyticsResponse> {
+    skipRounding?: boolean,
+    source?: string
+  ): Promise<AnalyticsResult> {
+    const request: AnalyticsRequest = { dataElements, orgUnit, period, skipRounding: !!skipRounding };
+    if (this.offlineSnapshot) {
+      return new AnalyticsResult(this.getSnapshotAnalytics(request));
+    }
+
     if (!this.config || (!this.authHeader && !this.isProduction)) {
       throw new Error('DHIS2 not configured');
     }
 
+    this.requestStats.analyticsRequested++;
+
+    const periods = period.split(';');
+    // Keyed on the call itself rather than on the merged batch, so a revisit hits the
+    // cache whatever other requests it was batched with the first time
+    const cacheKey = this.buildAnalyticsUrl([...dataElements].sort(), orgUnit, [...periods].sort(), !!skipRounding);
+    const response = await this.withResponseCache(cacheKey, this.getAnalyticsCachePolicy(periods), () =>
+      new Promise<AnalyticsResponse>((resolve, reject) => {
+        const batchKey = `${orgUnit}|${skipRounding ? 1 : 0}`;
+        let batch = this.analyticsBatches.get(batchKey);
+        if (!batch) {
+          batch = { orgUnit, skipRounding: !!skipRounding, requests: [] };
+          this.analyticsBatches.set(batchKey, batch);
+        }
+        batch.requests.push({ dataElements, periods, resolve, reject });
+
+        if (!this.analyticsFlushTimer) {
+          this.analyticsFlushTimer = setTimeout(() => this.flushAnalyticsBatches(), ANALYTICS_BATCH_WINDOW_MS);
+        }
+      })
+    );
+    this.recordedAnalytics.set(getAnalyticsRequestKey(request), { ...request, source, response });
+    return new AnalyticsResult(response);
+  }
+
+  /**
+   * Analytics results recorded for an org unit whose latest period is the given
+   * period, i.e. the profile, chart and map requests of that country profile.
+   * While offline these are the analytics stored in the snapshot.
+   */
+  getRecordedAnalytics(orgUnit: string, period: string): RecordedAnalytics[] {
+    const entries = this.offlineSnapshot ? this.offlineSnapshot.analytics : Array.from(this.recordedAnalytics.values());
+    return entries
+      .filter(entry => entry.orgUnit === orgUnit && entry.period.split(';').sort().pop() === period);
+  }
+
+  /**
+   * Answer analytics and organisation unit requests from an offline snapshot
+   * instead of DHIS2; null goes back online
+   */
+  setOfflineSnapshot(snapshot: ProfileSnapshot | null) {
+    this.offlineSnapshot = snapshot;
+  }
+
+  isOffline(): boolean {
+    return this.offlineSnapshot !== null;
+  }
+
+  getOfflineSnapshot(): ProfileSnapshot | null {
+    return this.offlineSnapshot;
+  }
+
+  private getSnapshotAnalytics(request: AnalyticsRequest): AnalyticsResponse {
+    // Match regardless of data element order, which snapshots from older versions may differ in
+    const sorted = (entry: AnalyticsRequest) => getAnalyticsRequestKey({ ...entry, dataElements: [...entry.dataElements].sort() });
+    const key = sorted(request);
+    const entry = this.offlineSnapshot!.analytics.find(candidate => sorted(candidate) === key);
+    if (!entry) {
+      throw new Error('Analytics data not included in the offline snapshot');
+    }
+    return entry.response;
+  }
+
+  private flushAnalyticsBatches() {
+    const batches = Array.from(this.analyticsBatches.values());
+    this.analyticsBatches.clear();
+    this.analyticsFlushTimer = null;
+    batches.forEach(batch => this.runAnalyticsBatch(batch));
+  }
+
+  private async runAnalyticsBatch({ orgUnit, skipRounding, requests }: AnalyticsBatch) {
+    const dataElements = Array.from(new Set(requests.flatMap(request => request.dataElements)));
+    const periods = Array.from(new Set(requests.flatMap(request => request.periods)));
+
     try {
-      const dx = dataElements.join(';');
-      let url = `${this.config.baseUrl}/api/analytics?dimension=dx:${dx}&dimension=ou:${orgUnit}&dimension=pe:${period}`;
-      
-      if (skipRounding) {
-        url += '&skipRounding=true';
+      const responses = await Promise.all(
+        this.splitDataElements(dataElements, orgUnit, periods, skipRounding)
+          .map(chunk => this.fetchAnalytics(chunk, orgUnit, periods, skipRounding))
+      );
+      const merged = AnalyticsResult.merge(responses);
+      requests.forEach(request => request.resolve(merged.select(request.dataElements, request.periods)));
+    } catch (error) {
+      if (requests.length === 1) {
+        requests[0].reject(error);
+        return;
       }
-      
-      const response = await fetch(url, {
-        headers: this.isProduction ? {
-          'Content-Type': 'application/json',
-        } : {
-          'Authorization': this.authHeader!,
-          'Content-Type': 'application/json',
-        },
-        credentials: this.isProduction ? 'include' : 'omit',
-        cache: 'no-cache',
-        mode: this.isProduction ? 'same-origin' : 'cors'
+      // One invalid data element fails the merged request, so retry each call on its own
+      requests.forEach(request => {
+        this.fetchAnalytics(request.dataElements, orgUnit, request.periods, skipRounding)
+          .then(request.resolve, request.reject);
       });
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch analytics data: ${response.status} ${response.statusText}`);
-      }
+  private buildAnalyticsUrl(dataElements: string[], orgUnit: string, periods: string[], skipRounding: boolean): string {
+    const url = `${this.config!.baseUrl}/api/analytics?dimension=dx:${dataElements.join(';')}&dimension=ou:${orgUnit}&dimension=pe:${periods.join(';')}`;
+    return skipRounding ? `${url}&skipRounding=true` : url;
+  }
 
-      const responseData = await response.json();
-      
-      return responseData;
-    } catch (error) {
-      console.error('Failed to fetch analytics data:', error);
-      throw error;
+  private splitDataElements(dataElements: string[], orgUnit: string, periods: string[], skipRounding: boolean): string[][] {
+    const chunks: string[][] = [];
+    let current: string[] = [];
+    dataElements.forEach(dataElement => {
+      const candidate = [...current, dataElement];
+      if (current.length > 0 && this.buildAnalyticsUrl(candidate, orgUnit, periods, skipRounding).length > MAX_ANALYTICS_URL_LENGTH) {
+        chunks.push(current);
+        current = [dataElement];
+      } else {
+        current = candidate;
+      }
+    });
+    if (current.length > 0) {
+      chunks.push(current);
     }
+    return chunks;
+  }
+
+  private fetchAnalytics(dataElements: string[], orgUnit: string, periods: string[], skipRounding: boolean): Promise<AnalyticsResponse> {
+    const url = this.buildAnalyticsUrl(dataElements, orgUnit, periods, skipRounding);
+
+    // Cached per caller in getAnalyticsData, not per merged request
+    return this.deduplicate(url, async () => {
+      this.requestStats.analyticsSent++;
+      try {
+        const response = await fetch(url, {
+          headers: this.isProduction ? {
+            'Content-Type': 'application/json',
+          } : {
+            'Authorization': this.authHeader!,
+            'Content-Type': 'application/json',
+          },
+          credentials: this.isProduction ? 'include' : 'omit',
+          cache: 'no-cache',
+          mode: this.isProduction ? 'same-origin' : 'cors'
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to fetch analytics data: ${response.status} ${response.statusText}`);
+        }
+
+        const responseData = await response.json();
+
+        return responseData;
+      } catch (error) {
+        console.error('Failed to fetch analytics data:', error);
+        throw error;
+      }
+    });
   }
 
   async getOptionSet(id: string): Promise<OptionSet> {
@@ -313,10 +499,11 @@ class DHIS2Service {
       throw new Error('DHIS2 not configured');
     }
 
-    try {
-      const response = await fetch(
-        `${this.config.baseUrl}/api/optionSets/${id}?fields=id,options[code,displayName]`,
-        {
+    const url = `${this.config.baseUrl}/api/optionSets/${id}?fields=id,options[code,displayName]`;
+
+    return this.deduplicate(url, () => this.withResponseCache(url, METADATA_CACHE_POLICY, async () => {
+      try {
+        const response = await fetch(url, {
           headers: this.isProduction ? {
             'Content-Type': 'application/json',
           } : {
@@ -326,29 +513,42 @@ class DHIS2Service {
           credentials: this.isProduction ? 'include' : 'omit',
           cache: 'no-cache',
           mode: this.isProduction ? 'same-origin' : 'cors'
+        });
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch option set');
         }
-      );
 
-      if (!response.ok) {
-        throw new Error('Failed to fetch option set');
+        return await response.json();
+      } catch (error) {
+        console.error('Failed to fetch option set:', error);
+        throw error;
       }
-
-      return await response.json();
-    } catch (error) {
-      console.error('Failed to fetch option set:', error);
-      throw error;
-    }
+    }));
   }
 
   async getOrganisationUnit(id: string): Promise<OrganisationUnitDetails> {
+    if (this.offlineSnapshot) {
+      if (this.offlineSnapshot.country.id !== id) {
+        throw new Error('Organisation unit not included in the offline snapshot');
+      }
+      return this.offlineSnapshot.orgUnit;
+    }
+
     if (!this.config || (!this.authHeader && !this.isProduction)) {
       throw new Error('DHIS2 not configured');
     }
 
-    try {
-      const response = await fetch(
-        `${this.config.baseUrl}/api/organisationUnits/${id}?fields=code,parent[id,code,displayName]`,
-        {
+    const cached = this.organisationUnits.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    const url = `${this.config.baseUrl}/api/organisationUnits/${id}?fields=code,parent[id,code,displayName]`;
+
+    return this.deduplicate(url, () => this.withResponseCache(url, METADATA_CACHE_POLICY, async () => {
+      try {
+        const response = await fetch(url, {
           headers: this.isProduction ? {
             'Content-Type': 'application/json',
           } : {
@@ -358,18 +558,20 @@ class DHIS2Service {
           credentials: this.isProduction ? 'include' : 'omit',
           cache: 'no-cache',
           mode: this.isProduction ? 'same-origin' : 'cors'
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to fetch organisation unit: ${response.status} ${response.statusText}`);
         }
-      );
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch organisation unit: ${response.status} ${response.statusText}`);
+        const details: OrganisationUnitDetails = await response.json();
+        this.organisationUnits.set(id, details);
+        return details;
+      } catch (error) {
+        console.error('Failed to fetch organisation unit:', error);
+        throw error;
       }
-
-      return await response.json();
-    } catch (error) {
-      console.error('Failed to fetch organisation unit:', error);
-      throw error;
-    }
+    }));
   }
 
   async getDataElement(uid: string): Promise<{ comment?: string }> {
@@ -377,10 +579,11 @@ class DHIS2Service {
       throw new Error('DHIS2 not configured');
     }
 
-    try {
-      const response = await fetch(
-        `${this.config.baseUrl}/api/dataElements/${uid}?fields=comment`,
-        {
+    const url = `${this.config.baseUrl}/api/dataElements/${uid}?fields=comment`;
+
+    return this.deduplicate(url, () => this.withResponseCache(url, METADATA_CACHE_POLICY, async () => {
+      try {
+        const response = await fetch(url, {
           headers: this.isProduction ? {
             'Content-Type': 'application/json',
           } : {
@@ -390,18 +593,86 @@ class DHIS2Service {
           credentials: this.isProduction ? 'include' : 'omit',
           cache: 'no-cache',
           mode: this.isProduction ? 'same-origin' : 'cors'
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to fetch data element: ${response.status} ${response.statusText}`);
         }
-      );
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch data element: ${response.status} ${response.statusText}`);
+        return await response.json();
+      } catch (error) {
+        console.error('Failed to fetch data element:', error);
+        throw error;
       }
+    }));
+  }
 
-      return await response.json();
-    } catch (error) {
-      console.error('Failed to fetch data element:', error);
-      throw error;
+  /**
+   * Value type, aggregation type and option set of the given data elements.
+   * Not cached, so a check run again right after fixing the metadata sees the change.
+   */
+  async getDataElementMetadata(uids: string[]): Promise<DataElementMetadata[]> {
+    return this.getDataElementList<DataElementMetadata>(uids, 'fields=id,displayName,valueType,aggregationType,optionSet[id]', null);
+  }
+
+  /**
+   * Name and short name of the given data elements, translated to the locale.
+   * While offline these are the names stored in the snapshot, if it was exported in that locale.
+   */
+  async getDataElementNames(uids: string[], locale: string): Promise<DataElementNames[]> {
+    if (this.offlineSnapshot) {
+      const labels = this.offlineSnapshot.labels;
+      return labels?.locale === locale ? labels.names.filter(names => uids.includes(names.id)) : [];
     }
+    return this.getDataElementList<DataElementNames>(uids, `fields=id,displayName,displayShortName&locale=${encodeURIComponent(locale)}`, METADATA_CACHE_POLICY);
+  }
+
+  /**
+   * Data elements with the given UIDs, requested in chunks. Data elements that do not
+   * exist or are not shared with the user are left out of the result.
+   */
+  private async getDataElementList<T>(uids: string[], query: string, cachePolicy: CachePolicy | null): Promise<T[]> {
+    if (!this.config || (!this.authHeader && !this.isProduction)) {
+      throw new Error('DHIS2 not configured');
+    }
+
+    const chunks: string[][] = [];
+    for (let i = 0; i < uids.length; i += DATA_ELEMENTS_PER_METADATA_REQUEST) {
+      chunks.push(uids.slice(i, i + DATA_ELEMENTS_PER_METADATA_REQUEST));
+    }
+
+    const responses = await Promise.all(chunks.map(chunk => {
+      const url = `${this.config!.baseUrl}/api/dataElements?filter=id:in:[${chunk.join(',')}]&${query}&paging=false`;
+
+      const request = async () => {
+        try {
+          const response = await fetch(url, {
+            headers: this.isProduction ? {
+              'Content-Type': 'application/json',
+            } : {
+              'Authorization': this.authHeader!,
+              'Content-Type': 'application/json',
+            },
+            credentials: this.isProduction ? 'include' : 'omit',
+            cache: 'no-cache',
+            mode: this.isProduction ? 'same-origin' : 'cors'
+          });
+
+          if (!response.ok) {
+            throw new Error(`Failed to fetch data elements: ${response.status} ${response.statusText}`);
+          }
+
+          return await response.json() as { dataElements: T[] };
+        } catch (error) {
+          console.error('Failed to fetch data elements:', error);
+          throw error;
+        }
+      };
+
+      return this.deduplicate(url, cachePolicy ? () => this.withResponseCache(url, cachePolicy, request) : request);
+    }));
+
+    return responses.flatMap(response => response.dataElements);
   }
 
   async getSQLViewData(sqlViewId: string, variables: Record<string, string> = {}): Promise<any> {
@@ -409,39 +680,117 @@ class DHIS2Service {
       throw new Error('DHIS2 not configured');
     }
 
-    try {
-      // Construct query parameters from variables
-      const queryParams = new URLSearchParams();
-      Object.entries(variables).forEach(([key, value]) => {
-        queryParams.append('var', `${key}:${value}`);
-      });
-      
-      const queryString = queryParams.toString();
-      const url = `${this.config.baseUrl}/api/sqlViews/${sqlViewId}/data.json${queryString ? `?${queryString}` : ''}`;
+    // Construct query parameters from variables
+    const queryParams = new URLSearchParams();
+    Object.entries(variables).forEach(([key, value]) => {
+      queryParams.append('var', `${key}:${value}`);
+    });
+    
+    const queryString = queryParams.toString();
+    const url = `${this.config.baseUrl}/api/sqlViews/${sqlViewId}/data.json${queryString ? `?${queryString}` : ''}`;
+
+    return this.deduplicate(url, () => this.withResponseCache(url, METADATA_CACHE_POLICY, async () => {
+      try {
+        const response = await fetch(url, {
+          headers: this.isProduction ? {
+            'Content-Type': 'application/json',
+          } : {
+            'Authorization': this.authHeader!,
+            'Content-Type': 'application/json',
+          },
+          credentials: this.isProduction ? 'include' : 'omit',
+          cache: 'no-cache',
+          mode: this.isProduction ? 'same-origin' : 'cors'
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to fetch SQL view data: ${response.status} ${response.statusText}`);
+        }
+
+        const responseData = await response.json();
       
-      const response = await fetch(url, {
-        headers: this.isProduction ? {
-          'Content-Type': 'application/json',
-        } : {
-          'Authorization': this.authHeader!,
-          'Content-Type': 'application/json',
-        },
-        credentials: this.isProduction ? 'include' : 'omit',
-        cache: 'no-cache',
-        mode: this.isProduction ? 'same-origin' : 'cors'
-      });
+        return responseData;
+      } catch (error) {
+        console.error('Failed to fetch SQL view data:', error);
+        throw error;
+      }
+    }));
+  }
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch SQL view data: ${response.status} ${response.statusText}`);
+  async getDataStoreKeys(namespace: string): Promise<string[]> {
+    if (!this.config || (!this.authHeader && !this.isProduction)) {
+      throw new Error('DHIS2 not configured');
+    }
+
+    const url = `${this.config.baseUrl}/api/dataStore/${encodeURIComponent(namespace)}`;
+
+    return this.deduplicate(url, async () => {
+      try {
+        const response = await fetch(url, {
+          headers: this.isProduction ? {
+            'Content-Type': 'application/json',
+          } : {
+            'Authorization': this.authHeader!,
+            'Content-Type': 'application/json',
+          },
+          credentials: this.isProduction ? 'include' : 'omit',
+          cache: 'no-cache',
+          mode: this.isProduction ? 'same-origin' : 'cors'
+        });
+
+        // Namespace has not been created on this instance
+        if (response.status === 404) {
+          return [];
+        }
+
+        if (!response.ok) {
+          throw new Error(`Failed to fetch dataStore keys: ${response.status} ${response.statusText}`);
+        }
+
+        return await response.json();
+      } catch (error) {
+        console.error('Failed to fetch dataStore keys:', error);
+        throw error;
       }
+    });
+  }
 
-      const responseData = await response.json();
-      
-      return responseData;
-    } catch (error) {
-      console.error('Failed to fetch SQL view data:', error);
-      throw error;
+  async getDataStoreValue<T = unknown>(namespace: string, key: string): Promise<T | null> {
+    if (!this.config || (!this.authHeader && !this.isProduction)) {
+      throw new Error('DHIS2 not configured');
     }
+
+    const url = `${this.config.baseUrl}/api/dataStore/${encodeURIComponent(namespace)}/${encodeURIComponent(key)}`;
+
+    return this.deduplicate(url, async () => {
+      try {
+        const response = await fetch(url, {
+          headers: this.isProduction ? {
+            'Content-Type': 'application/json',
+          } : {
+            'Authorization': this.authHeader!,
+            'Content-Type': 'application/json',
+          },
+          credentials: this.isProduction ? 'include' : 'omit',
+          cache: 'no-cache',
+          mode: this.isProduction ? 'same-origin' : 'cors'
+        });
+
+        // Missing keys are expected, callers fall back to their defaults
+        if (response.status === 404) {
+          return null;
+        }
+
+        if (!response.ok) {
+          throw new Error(`Failed to fetch dataStore value: ${response.status} ${response.statusText}`);
+        }
+
+        return await response.json();
+      } catch (error) {
+        console.error('Failed to fetch dataStore value:', error);
+        throw error;
+      }
+    });
   }
 
   disconnect() {
@@ -451,6 +800,70 @@ class DHIS2Service {
     }
     this.config = null;
     this.authHeader = null;
+    this.clearRequestCache();
+  }
+
+  getRequestStats(): RequestStats {
+    return { ...this.requestStats };
+  }
+
+  resetRequestStats() {
+    this.requestStats = { analyticsRequested: 0, analyticsSent: 0, deduplicated: 0 };
+  }
+
+  /**
+   * Drop cached and in-memory responses, and the dataStore definitions, so the next
+   * requests go to the server
+   */
+  async refreshData() {
+    await responseCacheService.clear();
+    this.clearRequestCache();
+  }
+
+  private clearRequestCache() {
+    this.inFlightRequests.clear();
+    profileDefinitionService.clearCache();
+    this.organisationUnits.clear();
+    this.recordedAnalytics.clear();
+  }
+
+  // Analytics are cached per edition, identified by the latest requested period
+  private getAnalyticsCachePolicy(periods: string[]): CachePolicy {
+    const latestPeriod = [...periods].sort().pop() || '';
+    const edition = getEditionByDataYear(latestPeriod);
+    if (!edition) {
+      return { edition: `period-${latestPeriod}`, ttlMs: UNPUBLISHED_EDITION_TTL_MS };
+    }
+    return { edition: edition.id, ttlMs: edition.published ? PUBLISHED_EDITION_TTL_MS : UNPUBLISHED_EDITION_TTL_MS };
+  }
+
+  /**
+   * Serve a GET response from the persistent cache, storing it on a miss
+   */
+  private async withResponseCache<T>(url: string, policy: CachePolicy, request: () => Promise<T>): Promise<T> {
+    const cached = await responseCacheService.get<T>(url, policy.edition);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const data = await request();
+    responseCacheService.set(url, policy, data);
+    return data;
+  }
+
+  /**
+   * Share one request between identical concurrent calls
+   */
+  private deduplicate<T>(key: string, request: () => Promise<T>): Promise<T> {
+    const pending = this.inFlightRequests.get(key);
+    if (pending) {
+      this.requestStats.deduplicated++;
+      return pending as Promise<T>;
+    }
+
+    const promise = request().finally(() => this.inFlightRequests.delete(key));
+    this.inFlightRequests.set(key, promise);
+    return promise;
   }
 }
 
@@ -0,0 +1,113 @@
+// Label Service
+// Resolves the chart and profile labels of config/labels for the active locale:
+// text for the locale (dataStore first, then built-in), else the DHIS2 name of the label's
+// data element in that locale, else the English text. Also translates policy text and
+// provides the text direction and number format of the locale.
+
+import { dhis2Service } from './dhis2Service';
+import { profileDefinitionService } from './profileDefinitionService';
+import { DataElementNames } from '../types/dhis2';
+import { SnapshotLabels } from '../types/snapshot';
+import { LABELS, LabelDefinition, LabelKey, LabelOverrides } from '../config/labels';
+import { DEFAULT_LOCALE, TextDirection, getLocaleDefinition } from '../config/locales';
+import { TRANSLATIONS } from '../config/translations';
+import { PolicyDefinition, TreatmentPolicyDefinition } from '../config/profileDefinition';
+
+class LabelService {
+  private locale = DEFAULT_LOCALE;
+  private overrides: LabelOverrides = {};
+  // DHIS2 names in the active locale, by data element UID
+  private names = new Map<string, DataElementNames>();
+
+  getLocale(): string {
+    return this.locale;
+  }
+
+  getDirection(): TextDirection {
+    return getLocaleDefinition(this.locale)?.direction || 'ltr';
+  }
+
+  /**
+   * Locale numberFormatService formats with, so numbers use the grouping of the active locale
+   */
+  getNumberLocale(): string {
+    return getLocaleDefinition(this.locale)?.numberLocale || this.locale;
+  }
+
+  /**
+   * Switch the locale; names loaded for the previous locale are dropped
+   */
+  setLocale(locale: string) {
+    if (locale === this.locale) return;
+    this.locale = locale;
+    this.names.clear();
+  }
+
+  /**
+   * Load the dataStore text and the DHIS2 names needed to resolve the given labels.
+   * Failures are logged and leave the labels in English, so a chart never fails on a label.
+   */
+  async load(keys: LabelKey[]): Promise<void> {
+    try {
+      this.overrides = (await profileDefinitionService.getDefinitions()).labels;
+
+      const uids = keys
+        .filter(key => this.getLocaleText(key) === undefined)
+        .map(key => (LABELS[key] as LabelDefinition).uid)
+        .filter((uid): uid is string => !!uid && !this.names.has(uid));
+      if (uids.length === 0) return;
+
+      const locale = this.locale;
+      const names = await dhis2Service.getDataElementNames(Array.from(new Set(uids)), locale);
+      // Ignore names that arrive after the locale was switched
+      if (locale === this.locale) {
+        names.forEach(dataElement => this.names.set(dataElement.id, dataElement));
+      }
+    } catch (error) {
+      console.warn('Failed to load label names, using English labels:', error);
+    }
+  }
+
+  /**
+   * Label text for the active locale, with {placeholders} replaced by the given values
+   */
+  get(key: LabelKey, values: Record<string, string | number> = {}): string {
+    const definition: LabelDefinition = LABELS[key];
+    const names = definition.uid ? this.names.get(definition.uid) : undefined;
+    const dhis2Name = definition.short ? names?.displayShortName || names?.displayName : names?.displayName;
+    const text = this.getLocaleText(key) ?? dhis2Name ?? this.overrides[key]?.en ?? definition.text.en;
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => name in values ? String(values[name]) : placeholder);
+  }
+
+  /**
+   * Intervention and strategy of a policy in the active locale, English when untranslated
+   */
+  getPolicyText(policy: PolicyDefinition): { intervention: string; strategy: string } {
+    const translations = TRANSLATIONS[this.locale];
+    const text = policy.translations?.[this.locale];
+    return {
+      intervention: text?.intervention ?? translations?.interventions[policy.intervention.trim()] ?? policy.intervention,
+      strategy: text?.strategy ?? translations?.policies[policy.policyUID] ?? policy.strategy,
+    };
+  }
+
+  getTreatmentCategory(definition: TreatmentPolicyDefinition): string {
+    return definition.translations?.[this.locale] ??
+      TRANSLATIONS[this.locale]?.treatmentPolicies[definition.medicineUID] ??
+      definition.category;
+  }
+
+  /**
+   * Locale and DHIS2 names of the loaded labels, stored with offline snapshots
+   */
+  getSnapshotLabels(): SnapshotLabels {
+    return { locale: this.locale, names: Array.from(this.names.values()) };
+  }
+
+  private getLocaleText(key: LabelKey): string | undefined {
+    const definition: LabelDefinition = LABELS[key];
+    return this.overrides[key]?.[this.locale] ?? definition.text[this.locale] ?? TRANSLATIONS[this.locale]?.labels[key];
+  }
+}
+
+export const labelService = new LabelService();
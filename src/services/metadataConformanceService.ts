@@ -0,0 +1,112 @@
+// Metadata Conformance Service
+// Compares the DHIS2 value type, aggregation type and option set of every data element
+// the app reads with what the profile expects, e.g. year ranges need a TEXT data element.
+
+import { dhis2Service } from './dhis2Service';
+import { profileDefinitionService } from './profileDefinitionService';
+import { DataElementMetadata } from '../types/dhis2';
+import { ProfileValueType, getProfileSectionList, getSectionFields } from '../config/profileDefinition';
+import { ACCEPTED_VALUE_TYPES, CHART_DATA_ELEMENTS, MAP_DATA_ELEMENTS, TEXT_AGGREGATION_TYPES } from '../config/dataElementTypes';
+import { getPolicyYear } from '../config/wmrEditions';
+import { CsvValue } from '../utils/csvExport';
+
+export interface DataElementExpectation {
+  uid: string;
+  label: string;
+  usedIn: string; // Profile section, chart or map
+  valueType: ProfileValueType;
+  optionSetId?: string;
+}
+
+export interface ConformanceIssue extends DataElementExpectation {
+  message: string; // e.g. "l7q5DJ4yQMP is NUMBER but must be TEXT"
+}
+
+export interface ConformanceReport {
+  checked: number;
+  issues: ConformanceIssue[];
+}
+
+/**
+ * Mismatches between a data element's metadata and the expectation, as readable messages
+ */
+function getMismatches(expectation: DataElementExpectation, metadata: DataElementMetadata | undefined): string[] {
+  const { uid, valueType, optionSetId } = expectation;
+  if (!metadata) {
+    return [`${uid} does not exist or is not shared with you`];
+  }
+
+  const messages: string[] = [];
+  const acceptedValueTypes = ACCEPTED_VALUE_TYPES[valueType];
+  if (!acceptedValueTypes.includes(metadata.valueType)) {
+    messages.push(`${uid} is ${metadata.valueType} but must be ${acceptedValueTypes[0]}`);
+  }
+
+  const isText = valueType === 'text' || valueType === 'optionSet';
+  if (isText && !TEXT_AGGREGATION_TYPES.includes(metadata.aggregationType)) {
+    messages.push(`${uid} has aggregation type ${metadata.aggregationType} but text values need ${TEXT_AGGREGATION_TYPES[0]}`);
+  }
+
+  if (optionSetId && metadata.optionSet?.id !== optionSetId) {
+    messages.push(metadata.optionSet
+      ? `${uid} uses option set ${metadata.optionSet.id} but must use ${optionSetId}`
+      : `${uid} has no option set but must use ${optionSetId}`);
+  }
+  return messages;
+}
+
+class MetadataConformanceService {
+  /**
+   * Every data element read for a profile of the given period, with the expected type.
+   * A UID used in several places is listed once, at its first use.
+   */
+  async getExpectations(period: string): Promise<DataElementExpectation[]> {
+    const sections = getProfileSectionList(getPolicyYear(period), await profileDefinitionService.getDefinitions());
+
+    const expectations = new Map<string, DataElementExpectation>();
+    const add = (expectation: DataElementExpectation) => {
+      if (!expectations.has(expectation.uid)) {
+        expectations.set(expectation.uid, expectation);
+      }
+    };
+
+    sections.forEach(section => {
+      getSectionFields(section).forEach(field => add({
+        uid: field.uid,
+        label: field.label,
+        usedIn: section.label,
+        valueType: field.valueType,
+        optionSetId: field.optionSetId,
+      }));
+    });
+
+    Object.values(MAP_DATA_ELEMENTS).forEach(uid => add({ uid, label: uid, usedIn: 'Maps', valueType: 'text' }));
+    Object.entries(CHART_DATA_ELEMENTS).forEach(([chartId, uids]) => {
+      uids.forEach(uid => add({ uid, label: uid, usedIn: chartId.replace(/^chart(\d+)$/, 'Chart $1'), valueType: 'number' }));
+    });
+
+    return Array.from(expectations.values());
+  }
+
+  async check(period: string): Promise<ConformanceReport> {
+    const expectations = await this.getExpectations(period);
+    const metadata = await dhis2Service.getDataElementMetadata(expectations.map(expectation => expectation.uid));
+    const metadataByUid = new Map(metadata.map(dataElement => [dataElement.id, dataElement]));
+
+    const issues = expectations.flatMap(expectation => {
+      const dataElement = metadataByUid.get(expectation.uid);
+      // Chart and map labels are UIDs until the DHIS2 name is known
+      const label = dataElement && expectation.label === expectation.uid ? dataElement.displayName : expectation.label;
+      return getMismatches(expectation, dataElement).map(message => ({ ...expectation, label, message }));
+    });
+
+    return { checked: expectations.length, issues };
+  }
+
+  toCsvRows(report: ConformanceReport): CsvValue[][] {
+    const header = ['Used in', 'Data element', 'UID', 'Expected value type', 'Problem'];
+    return [header, ...report.issues.map(issue => [issue.usedIn, issue.label, issue.uid, issue.valueType, issue.message])];
+  }
+}
+
+export const metadataConformanceService = new MetadataConformanceService();
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { numberFormatService } from './numberFormatService';
+import { labelService } from './labelService';
+
+// French groups with (narrow) no-break spaces; plain spaces keep the expectations readable
+const plainSpaces = (text: string) => text.replace(/[\u00a0\u202f]/g, ' ');
+
+describe('numberFormatService', () => {
+  afterEach(() => {
+    labelService.setLocale('en');
+  });
+
+  it('prints full numbers with grouping and optional decimals', () => {
+    expect(numberFormatService.full(1234567)).toBe('1,234,567');
+    expect(numberFormatService.full(1234.567)).toBe('1,235');
+    expect(numberFormatService.full(1234.567, 2)).toBe('1,234.57');
+  });
+
+  it('prints compact numbers with at most one decimal', () => {
+    expect(numberFormatService.compact(1234567)).toBe('1.2M');
+    expect(numberFormatService.compact(950)).toBe('950');
+    expect(numberFormatService.compact(12.54)).toBe('12.5');
+  });
+
+  it('prints values already in percent, and shares of a total', () => {
+    expect(numberFormatService.percent(45.25)).toBe('45.3%');
+    expect(numberFormatService.percent(45, { minimumFractionDigits: 0 })).toBe('45%');
+    expect(numberFormatService.share(1, 3)).toBe('33.3%');
+    expect(numberFormatService.share(5, 0)).toBe('0%');
+  });
+
+  it('prints US dollars, compact unless asked otherwise', () => {
+    expect(numberFormatService.currency(1234567)).toBe('$1.2M');
+    expect(numberFormatService.currency(1234567, false)).toBe('$1,234,567');
+  });
+
+  it('rounds estimates to three significant figures', () => {
+    expect(numberFormatService.estimate(1234567)).toBe('1.23M');
+    expect(numberFormatService.estimate(98765)).toBe('98.8K');
+    expect(numberFormatService.estimate(987)).toBe('987');
+    expect(numberFormatService.estimate(0.5)).toBe('0.5');
+  });
+
+  it('follows the active locale', () => {
+    expect(numberFormatService.full(1234.5, 1)).toBe('1,234.5');
+    labelService.setLocale('fr');
+    expect(plainSpaces(numberFormatService.full(1234.5, 1))).toBe('1 234,5');
+    expect(plainSpaces(numberFormatService.percent(45.25))).toBe('45,3 %');
+    expect(plainSpaces(numberFormatService.currency(1234567))).toBe('1,2 M $US');
+    expect(plainSpaces(numberFormatService.estimate(1234567))).toBe('1,23 M');
+  });
+
+  it('keeps Latin digits in Arabic', () => {
+    labelService.setLocale('ar');
+    expect(numberFormatService.full(1234567)).toBe('1,234,567');
+    expect(plainSpaces(numberFormatService.estimate(1234567))).toMatch(/^1\.23 /);
+  });
+});
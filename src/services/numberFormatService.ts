@@ -0,0 +1,80 @@
+// Number Format Service
+// One place for how the profile tables and charts print numbers, in the active locale:
+// full numbers with grouping, compact notation (1.2M, 950K), percentages, USD amounts and
+// WHO estimates rounded to significant figures.
+
+import { labelService } from './labelService';
+
+interface FractionDigits {
+  minimumFractionDigits?: number;
+  maximumFractionDigits?: number;
+}
+
+// Estimates are modelled, so more digits would suggest a precision they do not have
+const ESTIMATE_SIGNIFICANT_DIGITS = 3;
+
+class NumberFormatService {
+  // Intl formatters are costly to create and charts format every tick and tooltip
+  private formats = new Map<string, Intl.NumberFormat>();
+
+  /**
+   * Full number with the grouping of the locale, e.g. 1,234,567
+   */
+  full(value: number, maximumFractionDigits = 0): string {
+    return this.getFormat({ maximumFractionDigits }).format(value);
+  }
+
+  /**
+   * Compact number with at most one decimal, e.g. 1.2M, 950K or 12.5
+   */
+  compact(value: number, maximumFractionDigits = 1): string {
+    return this.getFormat({ notation: 'compact', maximumFractionDigits }).format(value);
+  }
+
+  /**
+   * Value already expressed in percent, e.g. 45.25 -> 45.3%
+   */
+  percent(value: number, { minimumFractionDigits = 1, maximumFractionDigits = 1 }: FractionDigits = {}): string {
+    return this.getFormat({ style: 'percent', minimumFractionDigits, maximumFractionDigits }).format(value / 100);
+  }
+
+  /**
+   * Share of a total as a percentage; a zero total gives 0%
+   */
+  share(part: number, total: number): string {
+    return total === 0 ? this.percent(0, { minimumFractionDigits: 0 }) : this.percent((part / total) * 100);
+  }
+
+  /**
+   * Amount in US dollars, compact by default, e.g. $1.2M
+   */
+  currency(value: number, compact = true): string {
+    return this.getFormat({
+      style: 'currency',
+      currency: 'USD',
+      ...(compact ? { notation: 'compact' as const } : {}),
+      minimumFractionDigits: 0,
+      maximumFractionDigits: compact ? 1 : 0,
+    }).format(value);
+  }
+
+  /**
+   * WHO estimate rounded to three significant figures, e.g. 1,234,567 -> 1.23M
+   */
+  estimate(value: number): string {
+    return this.getFormat({ notation: 'compact', maximumSignificantDigits: ESTIMATE_SIGNIFICANT_DIGITS }).format(value);
+  }
+
+  private getFormat(options: Intl.NumberFormatOptions): Intl.NumberFormat {
+    const locale = labelService.getNumberLocale();
+    const key = `${locale}|${JSON.stringify(options)}`;
+    let format = this.formats.get(key);
+    if (!format) {
+      format = new Intl.NumberFormat(locale, options);
+      this.formats.set(key, format);
+    }
+    return format;
+  }
+}
+
+export const numberFormatService = new NumberFormatService();
@@ -0,0 +1,195 @@
+// Profile Definition Service
+// Loads profile, policy, chart and label definitions from the DHIS2 dataStore so they can be
+// maintained without rebuilding the app. Anything missing or invalid falls back to the
+// built-in defaults in src/config.
+
+import { dhis2Service } from './dhis2Service';
+import {
+  DEFAULT_PROFILE_DEFINITIONS,
+  PolicyDefinition,
+  ProfileDefinitions,
+  ProfileFieldOverride,
+  TreatmentPolicyDefinition,
+} from '../config/profileDefinition';
+import { ChartDefinitions } from '../config/chartDefinitions';
+import { LabelOverrides } from '../config/labels';
+
+export const DATASTORE_NAMESPACE = 'wmr-country-profiles';
+
+// dataStore keys read from the namespace
+export const DATASTORE_KEYS = {
+  PROFILE: 'profile',   // { fields?: Record<string, ProfileFieldOverride>, treatmentPolicies?: TreatmentPolicyDefinition[] }
+  POLICIES: 'policies', // PolicyDefinition[]
+  CHARTS: 'charts',     // Partial<ChartDefinitions>
+  LABELS: 'labels',     // LabelOverrides, e.g. { "chart4.title": { "fr": "Positivité des tests" } }
+} as const;
+
+interface StoredProfileDefinition {
+  fields?: Record<string, ProfileFieldOverride>;
+  treatmentPolicies?: TreatmentPolicyDefinition[];
+}
+
+type StoredObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is StoredObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isPolicyDefinition(value: unknown): value is PolicyDefinition {
+  return isObject(value) &&
+    typeof value.intervention === 'string' &&
+    typeof value.strategy === 'string' &&
+    typeof value.policyUID === 'string' &&
+    typeof value.yearUID === 'string' &&
+    (value.translations === undefined || isObject(value.translations));
+}
+
+function isTreatmentPolicyDefinition(value: unknown): value is TreatmentPolicyDefinition {
+  return isObject(value) &&
+    typeof value.category === 'string' &&
+    typeof value.medicineUID === 'string' &&
+    (value.yearUID === null || typeof value.yearUID === 'string') &&
+    (value.translations === undefined || isObject(value.translations));
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+class ProfileDefinitionService {
+  private definitionsPromise: Promise<ProfileDefinitions> | null = null;
+
+  /**
+   * Get the active definitions. The dataStore is read once, until the cache is cleared
+   * (see dhis2Service.refreshData); when it cannot be read, the built-in defaults are
+   * returned but not kept, so the next call tries again.
+   * While an offline snapshot is open, the definitions stored in the snapshot are used.
+   */
+  getDefinitions(): Promise<ProfileDefinitions> {
+    if (dhis2Service.isOffline()) {
+      // Snapshots exported before definitions were stored fall back to the built-in defaults
+      return Promise.resolve(dhis2Service.getOfflineSnapshot()?.definitions ?? DEFAULT_PROFILE_DEFINITIONS);
+    }
+    if (!this.definitionsPromise) {
+      const promise: Promise<ProfileDefinitions> = this.loadDefinitions().catch(error => {
+        console.error('Failed to load profile definitions from dataStore, using built-in defaults:', error);
+        if (this.definitionsPromise === promise) {
+          this.definitionsPromise = null;
+        }
+        return DEFAULT_PROFILE_DEFINITIONS;
+      });
+      this.definitionsPromise = promise;
+    }
+    return this.definitionsPromise;
+  }
+
+  /**
+   * Drop the cached definitions so the next call re-reads the dataStore
+   */
+  clearCache(): void {
+    this.definitionsPromise = null;
+  }
+
+  private async loadDefinitions(): Promise<ProfileDefinitions> {
+    const keys = await dhis2Service.getDataStoreKeys(DATASTORE_NAMESPACE);
+    const readKey = <T>(key: string): Promise<T | null> =>
+      keys.includes(key) ? dhis2Service.getDataStoreValue<T>(DATASTORE_NAMESPACE, key) : Promise.resolve(null);
+
+    const [profile, policies, charts, labels] = await Promise.all([
+      readKey<StoredProfileDefinition>(DATASTORE_KEYS.PROFILE),
+      readKey<PolicyDefinition[]>(DATASTORE_KEYS.POLICIES),
+      readKey<Partial<ChartDefinitions>>(DATASTORE_KEYS.CHARTS),
+      readKey<LabelOverrides>(DATASTORE_KEYS.LABELS),
+    ]);
+
+    return {
+      policies: this.validatePolicies(policies),
+      treatmentPolicies: this.validateTreatmentPolicies(profile?.treatmentPolicies),
+      fieldOverrides: this.validateFieldOverrides(profile?.fields),
+      charts: this.mergeChartDefinitions(charts),
+      labels: this.validateLabels(labels),
+    };
+  }
+
+  private validatePolicies(policies: unknown): PolicyDefinition[] {
+    if (policies === null || policies === undefined) {
+      return DEFAULT_PROFILE_DEFINITIONS.policies;
+    }
+    if (!Array.isArray(policies) || !policies.every(isPolicyDefinition)) {
+      console.warn(`Invalid "${DATASTORE_KEYS.POLICIES}" definition in dataStore, using built-in policies`);
+      return DEFAULT_PROFILE_DEFINITIONS.policies;
+    }
+    return policies;
+  }
+
+  private validateTreatmentPolicies(treatmentPolicies: unknown): TreatmentPolicyDefinition[] {
+    if (treatmentPolicies === null || treatmentPolicies === undefined) {
+      return DEFAULT_PROFILE_DEFINITIONS.treatmentPolicies;
+    }
+    if (!Array.isArray(treatmentPolicies) || !treatmentPolicies.every(isTreatmentPolicyDefinition)) {
+      console.warn(`Invalid "${DATASTORE_KEYS.PROFILE}.treatmentPolicies" definition in dataStore, using built-in treatment policies`);
+      return DEFAULT_PROFILE_DEFINITIONS.treatmentPolicies;
+    }
+    return treatmentPolicies;
+  }
+
+  private validateFieldOverrides(fields: unknown): Record<string, ProfileFieldOverride> {
+    if (!isObject(fields)) {
+      return DEFAULT_PROFILE_DEFINITIONS.fieldOverrides;
+    }
+
+    // Keep only the uid/label properties of each override
+    const overrides: Record<string, ProfileFieldOverride> = {};
+    Object.entries(fields).forEach(([key, override]) => {
+      if (!isObject(override)) return;
+      const { uid, label } = override;
+      overrides[key] = {
+        ...(typeof uid === 'string' ? { uid } : {}),
+        ...(typeof label === 'string' ? { label } : {}),
+      };
+    });
+    return overrides;
+  }
+
+  private validateLabels(labels: unknown): LabelOverrides {
+    if (!isObject(labels)) {
+      return DEFAULT_PROFILE_DEFINITIONS.labels;
+    }
+
+    // Keep only the text values of each label
+    const overrides: LabelOverrides = {};
+    Object.entries(labels).forEach(([key, text]) => {
+      if (!isObject(text)) return;
+      overrides[key] = Object.fromEntries(
+        Object.entries(text).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+      );
+    });
+    return overrides;
+  }
+
+  private mergeChartDefinitions(charts: Partial<ChartDefinitions> | null): ChartDefinitions {
+    const defaults = DEFAULT_PROFILE_DEFINITIONS.charts;
+    if (!isObject(charts)) {
+      return defaults;
+    }
+
+    const chartSources = { ...defaults.chartSources };
+    Object.entries(charts.chartSources || {}).forEach(([chartId, dataElements]) => {
+      if (isStringArray(dataElements)) {
+        chartSources[chartId] = dataElements;
+      }
+    });
+
+    const storedSurveySources: Partial<ChartDefinitions['surveySources']> = charts.surveySources || {};
+    return {
+      chartSources,
+      surveySources: {
+        common: isStringArray(storedSurveySources.common) ? storedSurveySources.common : defaults.surveySources.common,
+        e2025: isStringArray(storedSurveySources.e2025) ? storedSurveySources.e2025 : defaults.surveySources.e2025,
+        nonE2025: isStringArray(storedSurveySources.nonE2025) ? storedSurveySources.nonE2025 : defaults.surveySources.nonE2025,
+      },
+    };
+  }
+}
+
+export const profileDefinitionService = new ProfileDefinitionService();
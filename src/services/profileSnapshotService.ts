@@ -0,0 +1,74 @@
+// Profile Snapshot Service
+// Exports a country profile as a self-contained JSON file and reads it back, so the
+// profile can be reviewed and printed without a connection to DHIS2.
+
+import { dhis2Service } from './dhis2Service';
+import { profileDefinitionService } from './profileDefinitionService';
+import { Country, CountryProfileData, MapData, OrganisationUnitDetails } from '../types/dhis2';
+import { ProfileSnapshot, SNAPSHOT_FORMAT, SNAPSHOT_VERSION } from '../types/snapshot';
+import { getEditionId } from '../config/wmrEditions';
+import { downloadBlob } from '../utils/downloadBlob';
+
+export interface SnapshotContent {
+  country: Country;
+  period: string;
+  profile: CountryProfileData;
+  orgUnit: OrganisationUnitDetails;
+  maps: MapData;
+  sources: ProfileSnapshot['sources'];
+  labels: ProfileSnapshot['labels'];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+class ProfileSnapshotService {
+  /**
+   * Snapshot of a loaded profile, including the analytics responses its charts used
+   * and the definitions its policies, fields, charts and labels were built from
+   */
+  async createSnapshot(content: SnapshotContent): Promise<ProfileSnapshot> {
+    return {
+      format: SNAPSHOT_FORMAT,
+      version: SNAPSHOT_VERSION,
+      exportedAt: new Date().toISOString(),
+      edition: getEditionId(content.period),
+      ...content,
+      analytics: dhis2Service.getRecordedAnalytics(content.country.id, content.period),
+      definitions: await profileDefinitionService.getDefinitions(),
+    };
+  }
+
+  downloadSnapshot(snapshot: ProfileSnapshot): void {
+    const blob = new Blob([JSON.stringify(snapshot)], { type: 'application/json' });
+    downloadBlob(`${snapshot.edition}_${snapshot.country.code}_snapshot.json`, blob);
+  }
+
+  /**
+   * Parse a snapshot file, rejecting files that are not snapshots of this version
+   */
+  async readSnapshot(file: File): Promise<ProfileSnapshot> {
+    let snapshot: unknown;
+    try {
+      snapshot = JSON.parse(await file.text());
+    } catch {
+      throw new Error(`${file.name} is not a valid JSON file`);
+    }
+
+    if (!isObject(snapshot) || snapshot.format !== SNAPSHOT_FORMAT) {
+      throw new Error(`${file.name} is not a country profile snapshot`);
+    }
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Snapshot version ${snapshot.version} is not supported by this version of the app`);
+    }
+    if (!isObject(snapshot.country) || !isObject(snapshot.profile) || !isObject(snapshot.orgUnit) ||
+        !isObject(snapshot.maps) || !isObject(snapshot.sources) || !Array.isArray(snapshot.analytics) ||
+        typeof snapshot.period !== 'string' || (snapshot.definitions !== undefined && !isObject(snapshot.definitions))) {
+      throw new Error(`${file.name} is an incomplete country profile snapshot`);
+    }
+    return snapshot as unknown as ProfileSnapshot;
+  }
+}
+
+export const profileSnapshotService = new ProfileSnapshotService();
@@ -0,0 +1,177 @@
+// Profile Workbook Service
+// Exports whole profiles as Excel workbooks for the WMR annex: one sheet per profile section
+// plus the series of every chart. The multi-country variant keeps one sheet per section, with
+// the country in the first columns.
+
+import { CHART_SPECS, resolveChartLayout } from '../config/chartSpecs';
+import { ProfileFieldGroup, getProfileSections } from '../config/profileDefinition';
+import { getEditionId, getPolicyYear } from '../config/wmrEditions';
+import { Country, CountryProfileData } from '../types/dhis2';
+import { CsvValue } from '../utils/csvExport';
+import { XlsxSheet } from '../utils/xlsxExport';
+import { ChartData, chartDataService } from './chartDataService';
+import { dataProcessingService } from './dataProcessingService';
+import { dhis2Service } from './dhis2Service';
+import { labelService } from './labelService';
+import { profileDefinitionService } from './profileDefinitionService';
+
+export interface ProfileWorkbookEntry {
+  country: Country;
+  profile: CountryProfileData;
+  charts: ChartData[];
+}
+
+export interface ProfileWorkbookLoad {
+  entries: ProfileWorkbookEntry[];
+  failed: { country: Country; message: string }[];
+}
+
+type ProfileSections = ReturnType<typeof getProfileSections>;
+
+const FIELD_HEADER = ['Field', 'UID', 'Value'];
+
+class ProfileWorkbookService {
+  /**
+   * Profile and chart series of a country; pass the profile and WHO region when already loaded
+   */
+  async loadEntry(country: Country, period: string, loaded?: { profile: CountryProfileData; region: string }): Promise<ProfileWorkbookEntry> {
+    const profile = loaded?.profile ?? await dataProcessingService.processCountryData(country.id, period);
+    const region = loaded?.region ?? (await dhis2Service.getOrganisationUnit(country.id)).parent?.code ?? '';
+    const context = { countryCode: country.code, region, paramEpiDisplay: profile.cases.paramEpiDisplay };
+    const charts = await Promise.all(
+      CHART_SPECS.map(spec => chartDataService.getChartData(spec, resolveChartLayout(spec, context), country.id, period))
+    );
+    return { country, profile, charts };
+  }
+
+  /**
+   * Entries of several countries, one country at a time; countries that fail are listed, not thrown
+   */
+  async loadEntries(countries: Country[], period: string, onProgress?: (done: number) => void): Promise<ProfileWorkbookLoad> {
+    const result: ProfileWorkbookLoad = { entries: [], failed: [] };
+    for (const country of countries) {
+      try {
+        result.entries.push(await this.loadEntry(country, period));
+      } catch (error) {
+        result.failed.push({ country, message: error instanceof Error ? error.message : 'Failed to load profile' });
+      }
+      onProgress?.(result.entries.length + result.failed.length);
+    }
+    return result;
+  }
+
+  /**
+   * Sheets of one country's workbook
+   */
+  async toSheets(entry: ProfileWorkbookEntry, period: string): Promise<XlsxSheet[]> {
+    const sections = await this.getSections(period);
+    return this.getTables(entry, sections, period);
+  }
+
+  /**
+   * Sheets of a multi-country workbook: the same sheets as for one country, with every
+   * country's rows below each other and the country name and ISO3 code in front, and the
+   * countries that could not be loaded on a last sheet
+   */
+  async toMultiCountrySheets({ entries, failed }: ProfileWorkbookLoad, period: string): Promise<XlsxSheet[]> {
+    const sections = await this.getSections(period);
+    const tablesByCountry = entries.map(entry => ({ entry, tables: this.getTables(entry, sections, period) }));
+    const sheetNames = tablesByCountry[0]?.tables.map(table => table.name) || [];
+    const sheets = sheetNames.map((name, index) => ({
+      name,
+      rows: [
+        ['Country', 'ISO3', ...tablesByCountry[0].tables[index].rows[0]],
+        ...tablesByCountry.flatMap(({ entry, tables }) =>
+          tables[index].rows.slice(1).map(row => [entry.country.shortName, entry.country.code, ...row])
+        ),
+      ],
+    }));
+    if (failed.length > 0) {
+      sheets.push({
+        name: 'Countries left out',
+        rows: [['Country', 'ISO3', 'Error'], ...failed.map(({ country, message }) => [country.shortName, country.code, message])],
+      });
+    }
+    return sheets;
+  }
+
+  /**
+   * File name without extension, e.g. WMR2025_GHA_profile_data or WMR2025_AFR_profile_data
+   */
+  getFileName(scope: string, period: string): string {
+    return `${getEditionId(period)}_${scope}_profile_data`;
+  }
+
+  private async getSections(period: string): Promise<ProfileSections> {
+    return getProfileSections(getPolicyYear(period), await profileDefinitionService.getDefinitions());
+  }
+
+  private getTables({ profile, charts }: ProfileWorkbookEntry, sections: ProfileSections, period: string): XlsxSheet[] {
+    return [
+      { name: 'Population', rows: this.getFieldRows(sections.population.fields, profile.population) },
+      {
+        name: 'Parasites and vectors',
+        rows: [
+          ...this.getFieldRows(sections.parasites.fields, profile.parasites),
+          ...profile.parasites.anophelesSpecies.map(species => ['Anopheles species', '', species]),
+        ],
+      },
+      { name: 'Cases', rows: this.getFieldRows(sections.cases.fields, profile.cases) },
+      {
+        name: 'Estimates',
+        // Left empty where the profile does not show estimates
+        rows: profile.showEstimates ? this.getFieldRows(sections.estimates.fields, profile.estimates) : [FIELD_HEADER],
+      },
+      {
+        name: 'Policies',
+        rows: [
+          ['Intervention', 'Strategy', 'Policy', 'Implemented', 'Year adopted'],
+          ...profile.policies.map(policy => [policy.intervention, policy.strategy, policy.policy, policy.implemented, policy.yearAdopted]),
+        ],
+      },
+      {
+        name: 'Treatment policy',
+        rows: [
+          ['Category', 'Medicine', 'Year adopted'],
+          ...profile.treatment.map(treatment => [treatment.category, treatment.medicine, treatment.yearAdopted]),
+        ],
+      },
+      {
+        name: 'Therapeutic efficacy',
+        rows: [
+          ['Medicine', 'Year', 'Min', 'Median', 'Max', 'Follow-up', 'Number of studies', 'Species'],
+          ...profile.therapeuticEfficacy.map(study => [
+            study.medicine, study.year, study.min, study.median, study.max, study.followUp, study.numberOfStudies, study.species,
+          ]),
+        ],
+      },
+      {
+        name: 'Resistance status',
+        rows: [
+          ['Insecticide class', 'Years', 'Sites', 'Vectors', 'Used'],
+          ...profile.resistanceStatus.map(status => [status.insecticideClass, status.years, status.sites, status.vectors, status.used]),
+        ],
+      },
+      {
+        name: 'Chart series',
+        rows: [
+          ['Chart', 'Series', 'UID', 'Year', 'Value', 'Raw value'],
+          ...charts.flatMap(chart => {
+            const title = labelService.get(chart.layout.title, { period });
+            return chart.series.flatMap(({ series, values, rawValues }) =>
+              chart.periods.map((year, index) => [title, labelService.get(series.label), series.uid, parseInt(year), values[index], rawValues[index]])
+            );
+          }),
+        ],
+      },
+    ];
+  }
+
+  // One row per field of the section, with its value in the profile
+  private getFieldRows(fields: ProfileFieldGroup, values: object): CsvValue[][] {
+    const valueByKey = values as Record<string, CsvValue>;
+    return [FIELD_HEADER, ...Object.entries(fields).map(([key, field]) => [field.label, field.uid, valueByKey[key]])];
+  }
+}
+
+export const profileWorkbookService = new ProfileWorkbookService();
@@ -0,0 +1,76 @@
+import { Country } from '../types/dhis2';
+import { dhis2Service } from './dhis2Service';
+import { dataTransformationService } from './dataTransformationService';
+import { REGIONAL_INDICATORS } from '../config/regionalIndicators';
+import { labelService } from './labelService';
+import { getRegionLabelKey } from '../config/whoRegions';
+
+export interface RegionInfo {
+  id: string;
+  code: string;
+  name: string;
+}
+
+export interface RegionalCountryRow {
+  country: Country;
+  values: Record<string, number | null>; // Keyed by RegionalIndicator id
+}
+
+// Keep analytics URLs well below server limits when a region has many countries
+const ORG_UNITS_PER_REQUEST = 25;
+
+class RegionalDataService {
+  /**
+   * Resolve the WHO region a country belongs to
+   */
+  async getRegion(country: Country): Promise<RegionInfo | null> {
+    // Region is the level 2 ancestor: /<global>/<region>/<country>[/<sub-national>]
+    const regionId = country.path?.split('/')[2];
+    if (regionId && regionId !== country.id) {
+      const region = await dhis2Service.getOrganisationUnit(regionId);
+      return { id: regionId, code: region.code, name: this.getRegionName(region.code) };
+    }
+
+    const details = await dhis2Service.getOrganisationUnit(country.id);
+    if (!details.parent) return null;
+    return { id: details.parent.id, code: details.parent.code, name: this.getRegionName(details.parent.code) };
+  }
+
+  private getRegionName(regionCode: string): string {
+    const labelKey = getRegionLabelKey(regionCode);
+    return labelKey ? labelService.get(labelKey) : '';
+  }
+
+  /**
+   * Countries from the accessible list that belong to the given region
+   */
+  getRegionCountries(countries: Country[], region: RegionInfo): Country[] {
+    return countries.filter(country => country.path?.includes(`/${region.id}/`));
+  }
+
+  async getRegionalIndicators(countries: Country[], period: string): Promise<RegionalCountryRow[]> {
+    const dataElements = REGIONAL_INDICATORS.map(indicator => indicator.uid);
+
+    const batches: Country[][] = [];
+    for (let i = 0; i < countries.length; i += ORG_UNITS_PER_REQUEST) {
+      batches.push(countries.slice(i, i + ORG_UNITS_PER_REQUEST));
+    }
+
+    const responses = await Promise.all(
+      batches.map(batch => dhis2Service.getAnalyticsData(dataElements, batch.map(country => country.id).join(';'), period))
+    );
+
+    return countries.map((country, index) => {
+      // Batches hold consecutive countries, in the same order as the list
+      const analyticsData = responses[Math.floor(index / ORG_UNITS_PER_REQUEST)];
+      const values: Record<string, number | null> = {};
+      REGIONAL_INDICATORS.forEach(indicator => {
+        const rawValue = analyticsData.getNumber(indicator.uid, period, country.id);
+        values[indicator.id] = dataTransformationService.transformValue(rawValue, indicator.uid);
+      });
+      return { country, values };
+    });
+  }
+}
+
+export const regionalDataService = new RegionalDataService();
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { responseCacheService } from './responseCacheService';
+
+const HOUR_MS = 60 * 60 * 1000;
+const ANALYTICS_URL = 'https://dhis2.test/api/analytics?dimension=dx:de1';
+
+// Without IndexedDB (as in Node) the cache keeps entries in memory only
+describe('responseCacheService', () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    responseCacheService.setUser('user1');
+    await responseCacheService.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns a stored response until it expires', async () => {
+    await responseCacheService.set(ANALYTICS_URL, { edition: '2024', ttlMs: HOUR_MS }, { rows: [] });
+
+    vi.advanceTimersByTime(HOUR_MS - 1);
+    expect(await responseCacheService.get(ANALYTICS_URL, '2024')).toEqual({ rows: [] });
+    vi.advanceTimersByTime(1);
+    expect(await responseCacheService.get(ANALYTICS_URL, '2024')).toBeUndefined();
+  });
+
+  it('deletes a response once it is found expired', async () => {
+    await responseCacheService.set(ANALYTICS_URL, { edition: '2024', ttlMs: HOUR_MS }, 'old');
+    vi.advanceTimersByTime(HOUR_MS);
+    await responseCacheService.get(ANALYTICS_URL, '2024');
+    // Back before the expiry, the response is gone rather than hidden
+    vi.setSystemTime(0);
+    expect(await responseCacheService.get(ANALYTICS_URL, '2024')).toBeUndefined();
+  });
+
+  it('keys responses by edition', async () => {
+    await responseCacheService.set(ANALYTICS_URL, { edition: '2024', ttlMs: HOUR_MS }, '2024 data');
+    expect(await responseCacheService.get(ANALYTICS_URL, '2025')).toBeUndefined();
+    expect(await responseCacheService.get(ANALYTICS_URL, '2024')).toBe('2024 data');
+  });
+
+  it('never returns the responses of another user', async () => {
+    await responseCacheService.set(ANALYTICS_URL, { edition: '2024', ttlMs: HOUR_MS }, 'user1 data');
+    responseCacheService.setUser('user2');
+    expect(await responseCacheService.get(ANALYTICS_URL, '2024')).toBeUndefined();
+
+    await responseCacheService.set(ANALYTICS_URL, { edition: '2024', ttlMs: HOUR_MS }, 'user2 data');
+    expect(await responseCacheService.get(ANALYTICS_URL, '2024')).toBe('user2 data');
+  });
+
+  it('drops every response on clear', async () => {
+    await responseCacheService.set(ANALYTICS_URL, { edition: '2024', ttlMs: HOUR_MS }, 'data');
+    await responseCacheService.set(`${ANALYTICS_URL};de2`, { edition: 'metadata', ttlMs: HOUR_MS }, 'metadata');
+    await responseCacheService.clear();
+    expect(await responseCacheService.get(ANALYTICS_URL, '2024')).toBeUndefined();
+    expect(await responseCacheService.get(`${ANALYTICS_URL};de2`, 'metadata')).toBeUndefined();
+  });
+
+  it('counts hits and misses, resets them on clear and notifies listeners', async () => {
+    const listener = vi.fn();
+    const unsubscribe = responseCacheService.subscribe(listener);
+    await responseCacheService.set(ANALYTICS_URL, { edition: '2024', ttlMs: HOUR_MS }, 'data');
+    await responseCacheService.get(ANALYTICS_URL, '2024');
+    await responseCacheService.get(`${ANALYTICS_URL};de2`, '2024');
+
+    expect(responseCacheService.getStats()).toEqual({ hits: 1, misses: 1 });
+    expect(listener).toHaveBeenLastCalledWith({ hits: 1, misses: 1 });
+
+    await responseCacheService.clear();
+    expect(listener).toHaveBeenLastCalledWith({ hits: 0, misses: 0 });
+    unsubscribe();
+    await responseCacheService.get(ANALYTICS_URL, '2024');
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+});
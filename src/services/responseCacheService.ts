@@ -0,0 +1,178 @@
+// Persistent cache for DHIS2 GET responses, stored in IndexedDB with an
+// in-memory copy so revisiting a country during a session is instant.
+// Entries belong to the DHIS2 user that fetched them, since sharing rights
+// decide which data a response holds.
+
+const DB_NAME = 'wmr-country-profiles';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+
+interface CacheEntry {
+  key: string;
+  url: string;
+  user: string;      // DHIS2 user id (from /api/me) whose request filled the entry
+  edition: string;   // Edition id, or a fixed scope such as 'metadata'
+  storedAt: number;
+  expiresAt: number;
+  data: unknown;
+}
+
+export interface CachePolicy {
+  edition: string;
+  ttlMs: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+type CacheListener = (stats: CacheStats) => void;
+
+class ResponseCacheService {
+  private memory = new Map<string, CacheEntry>();
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private stats: CacheStats = { hits: 0, misses: 0 };
+  private listeners = new Set<CacheListener>();
+  private user = '';
+
+  /**
+   * Serve and store responses for the given DHIS2 user from now on. Entries of
+   * other users are never returned.
+   */
+  setUser(userId: string) {
+    if (userId === this.user) return;
+    this.user = userId;
+    this.memory.clear();
+  }
+
+  /**
+   * Cached response for the URL within the given edition, or undefined when
+   * missing or expired
+   */
+  async get<T>(url: string, edition: string): Promise<T | undefined> {
+    const key = this.getKey(url, edition);
+    const entry = this.memory.get(key) || await this.read(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.delete(key);
+      }
+      this.record('misses');
+      return undefined;
+    }
+
+    this.memory.set(key, entry);
+    this.record('hits');
+    return entry.data as T;
+  }
+
+  async set(url: string, { edition, ttlMs }: CachePolicy, data: unknown): Promise<void> {
+    const storedAt = Date.now();
+    const entry: CacheEntry = { key: this.getKey(url, edition), url, user: this.user, edition, storedAt, expiresAt: storedAt + ttlMs, data };
+    this.memory.set(entry.key, entry);
+
+    const db = await this.open();
+    if (!db) return;
+    try {
+      await this.run(db, 'readwrite', store => store.put(entry));
+    } catch (error) {
+      // Quota errors only cost us persistence, the in-memory copy is still used
+      console.warn('Failed to persist cached response:', error);
+    }
+  }
+
+  /**
+   * Drop every cached response, e.g. when the user asks for fresh data
+   */
+  async clear(): Promise<void> {
+    this.memory.clear();
+    this.stats = { hits: 0, misses: 0 };
+    this.notify();
+
+    const db = await this.open();
+    if (!db) return;
+    await this.run(db, 'readwrite', store => store.clear());
+  }
+
+  getStats(): CacheStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Listen for hit/miss changes; returns the unsubscribe function
+   */
+  subscribe(listener: CacheListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private getKey(url: string, edition: string): string {
+    return `${this.user}|${edition}|${url}`;
+  }
+
+  private record(result: keyof CacheStats) {
+    this.stats = { ...this.stats, [result]: this.stats[result] + 1 };
+    this.notify();
+  }
+
+  private notify() {
+    const stats = this.getStats();
+    this.listeners.forEach(listener => listener(stats));
+  }
+
+  private async read(key: string): Promise<CacheEntry | undefined> {
+    const db = await this.open();
+    if (!db) return undefined;
+    try {
+      return await this.run<CacheEntry | undefined>(db, 'readonly', store => store.get(key));
+    } catch (error) {
+      console.warn('Failed to read cached response:', error);
+      return undefined;
+    }
+  }
+
+  private delete(key: string) {
+    this.memory.delete(key);
+    this.open().then(db => db && this.run(db, 'readwrite', store => store.delete(key))).catch(() => undefined);
+  }
+
+  // Resolves to null where IndexedDB is unavailable (private browsing, tests), leaving a memory-only cache
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        try {
+          const request = indexedDB.open(DB_NAME, DB_VERSION);
+          request.onupgradeneeded = () => {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          };
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => {
+            console.warn('Response cache unavailable:', request.error);
+            resolve(null);
+          };
+        } catch (error) {
+          console.warn('Response cache unavailable:', error);
+          resolve(null);
+        }
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private run<T>(db: IDBDatabase, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export const responseCacheService = new ResponseCacheService();
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { validationService } from './validationService';
+import { AnalyticsResult } from './analyticsResult';
+import { CountryProfileData } from '../types/dhis2';
+import { ProfileValidationRule, SeriesValidationRule } from '../config/validationRules';
+
+// Profile with only the numeric sections the rules read
+function profile(values: Record<string, Record<string, number | null>>): CountryProfileData {
+  return { population: {}, parasites: {}, cases: {}, estimates: {}, ...values } as unknown as CountryProfileData;
+}
+
+function analytics(rows: [string, string, string][]): AnalyticsResult {
+  return new AnalyticsResult({
+    headers: ['dx', 'pe', 'ou', 'value'].map(name => ({ name, column: name, valueType: 'TEXT' })),
+    rows: rows.map(([dataElement, period, value]) => [dataElement, period, 'ou1', value]),
+  });
+}
+
+describe('validationService.validateProfile', () => {
+  const notGreaterThan: ProfileValidationRule = {
+    id: 'confirmedWithinTotal', type: 'notGreaterThan', value: 'cases.totalConfirmedCases', limit: 'cases.totalCases', message: 'Confirmed cases exceed total cases',
+  };
+  const sumEquals: ProfileValidationRule = {
+    id: 'strata', type: 'sumEquals', values: ['population.highTransmission', 'population.lowTransmission'], total: 'population.total', tolerance: 0.01, message: 'Strata do not add up',
+  };
+  const sumAtMost: ProfileValidationRule = {
+    id: 'shares', type: 'sumAtMost', values: ['parasites.pFalciparum', 'parasites.pVivax'], max: 100, message: 'Shares exceed 100%',
+  };
+  const range: ProfileValidationRule = {
+    id: 'share', type: 'range', value: 'parasites.pFalciparum', min: 0, max: 100, message: 'Share outside 0-100%',
+  };
+
+  it('flags a value above its limit', () => {
+    expect(validationService.validateProfile(profile({ cases: { totalConfirmedCases: 1500, totalCases: 1200 } }), [notGreaterThan])).toEqual([
+      { ruleId: 'confirmedWithinTotal', message: 'Confirmed cases exceed total cases (1,500 > 1,200)', refs: ['cases.totalConfirmedCases'] },
+    ]);
+    expect(validationService.validateProfile(profile({ cases: { totalConfirmedCases: 1200, totalCases: 1200 } }), [notGreaterThan])).toEqual([]);
+  });
+
+  it('skips a comparison when either value is not reported', () => {
+    expect(validationService.validateProfile(profile({ cases: { totalConfirmedCases: 1500, totalCases: null } }), [notGreaterThan])).toEqual([]);
+  });
+
+  it('allows sums within the tolerance of the total', () => {
+    const data = (low: number) => profile({ population: { highTransmission: 600, lowTransmission: low, total: 1000 } });
+    expect(validationService.validateProfile(data(410), [sumEquals])).toEqual([]);
+    expect(validationService.validateProfile(data(411), [sumEquals])).toEqual([
+      { ruleId: 'strata', message: 'Strata do not add up (1,011 vs 1,000)', refs: ['population.total'] },
+    ]);
+  });
+
+  it('skips a sum when a part is not reported', () => {
+    expect(validationService.validateProfile(profile({ population: { highTransmission: 600, lowTransmission: null, total: 1000 } }), [sumEquals])).toEqual([]);
+  });
+
+  it('counts parts that are not reported as 0 in an upper bound on a sum', () => {
+    expect(validationService.validateProfile(profile({ parasites: { pFalciparum: 60.5, pVivax: 40 } }), [sumAtMost])).toEqual([
+      { ruleId: 'shares', message: 'Shares exceed 100% (100.5 > 100)', refs: ['parasites.pFalciparum', 'parasites.pVivax'] },
+    ]);
+    expect(validationService.validateProfile(profile({ parasites: { pFalciparum: 100, pVivax: null } }), [sumAtMost])).toEqual([]);
+    expect(validationService.validateProfile(profile({ parasites: { pFalciparum: null, pVivax: null } }), [sumAtMost])).toEqual([]);
+  });
+
+  it('flags values outside a range, bounds included in the range', () => {
+    const data = (pFalciparum: number | null) => profile({ parasites: { pFalciparum } });
+    expect(validationService.validateProfile(data(0), [range])).toEqual([]);
+    expect(validationService.validateProfile(data(100), [range])).toEqual([]);
+    expect(validationService.validateProfile(data(null), [range])).toEqual([]);
+    expect(validationService.validateProfile(data(-0.25), [range])).toEqual([
+      { ruleId: 'share', message: 'Share outside 0-100% (-0.25)', refs: ['parasites.pFalciparum'] },
+    ]);
+  });
+
+  it('checks a range with one bound only', () => {
+    const atLeastZero: ProfileValidationRule = { ...range, max: undefined };
+    expect(validationService.validateProfile(profile({ parasites: { pFalciparum: 250 } }), [atLeastZero])).toEqual([]);
+  });
+
+  it('returns a warning per failing rule, in rule order', () => {
+    const data = profile({ cases: { totalConfirmedCases: 1500, totalCases: 1200 }, parasites: { pFalciparum: 120, pVivax: 0 } });
+    expect(validationService.validateProfile(data, [range, notGreaterThan, sumAtMost]).map(warning => warning.ruleId))
+      .toEqual(['share', 'confirmedWithinTotal', 'shares']);
+  });
+});
+
+describe('validationService.validateSeries', () => {
+  const rules: SeriesValidationRule[] = [
+    { id: 'publicWithinAny', type: 'notGreaterThan', value: 'public', limit: 'any', message: 'Public exceeds any provider' },
+    { id: 'anyPercentage', type: 'range', value: 'any', min: 0, max: 100, message: 'Any provider outside 0-100%' },
+  ];
+  const data = analytics([
+    ['public', '2021', '40'], ['any', '2021', '60'],
+    ['public', '2022', '70'], ['any', '2022', '65'],
+    ['public', '2023', '90'], ['any', '2023', '101'],
+  ]);
+
+  it('lists the failing years of each rule', () => {
+    expect(validationService.validateSeries(data, ['public', 'any'], ['2021', '2022', '2023'], rules)).toEqual([
+      { ruleId: 'publicWithinAny', message: 'Public exceeds any provider (2022: 70 > 65)', refs: ['public'] },
+      { ruleId: 'anyPercentage', message: 'Any provider outside 0-100% (2023: 101)', refs: ['any'] },
+    ]);
+  });
+
+  it('only checks the requested periods', () => {
+    expect(validationService.validateSeries(data, ['public', 'any'], ['2021'], rules)).toEqual([]);
+  });
+
+  it('skips rules on data elements that were not requested', () => {
+    expect(validationService.validateSeries(data, ['any'], ['2021', '2022', '2023'], rules).map(warning => warning.ruleId)).toEqual(['anyPercentage']);
+  });
+});
@@ -0,0 +1,164 @@
+// Validation Service
+// Runs the rules from config/validationRules over profile values and chart series and
+// returns warnings keyed by the value they should be shown next to.
+
+import { CountryProfileData } from '../types/dhis2';
+import { RecordedAnalytics } from '../types/snapshot';
+import { AnalyticsResult } from './analyticsResult';
+import { dhis2Service } from './dhis2Service';
+import { dataTransformationService } from './dataTransformationService';
+import { numberFormatService } from './numberFormatService';
+import {
+  PROFILE_VALIDATION_RULES,
+  ProfileValidationRule,
+  ProfileValuePath,
+  SERIES_VALIDATION_RULES,
+  SeriesValidationRule,
+  ValidationRule,
+} from '../config/validationRules';
+
+export interface ValidationWarning<Ref extends string = string> {
+  ruleId: string;
+  message: string; // Rule message followed by the offending values
+  refs: Ref[];     // Values the warning is shown next to
+}
+
+export type ProfileValidationWarning = ValidationWarning<ProfileValuePath>;
+
+function formatValue(value: number): string {
+  return numberFormatService.full(value, 2);
+}
+
+function getReferencedRefs<Ref extends string>(rule: ValidationRule<Ref>): Ref[] {
+  switch (rule.type) {
+    case 'notGreaterThan':
+      return [rule.value, rule.limit];
+    case 'sumEquals':
+      return [...rule.values, rule.total];
+    case 'sumAtMost':
+      return rule.values;
+    case 'range':
+      return [rule.value];
+  }
+}
+
+// The value a reader should correct; for sums this is the total or every part
+function getFlaggedRefs<Ref extends string>(rule: ValidationRule<Ref>): Ref[] {
+  switch (rule.type) {
+    case 'sumEquals':
+      return [rule.total];
+    case 'sumAtMost':
+      return rule.values;
+    default:
+      return [rule.value];
+  }
+}
+
+/**
+ * Description of the offending values, or null when the rule passes or cannot be checked
+ */
+function evaluateRule<Ref extends string>(rule: ValidationRule<Ref>, getValue: (ref: Ref) => number | null): string | null {
+  switch (rule.type) {
+    case 'notGreaterThan': {
+      const value = getValue(rule.value);
+      const limit = getValue(rule.limit);
+      if (value === null || limit === null) return null;
+      return value > limit ? `${formatValue(value)} > ${formatValue(limit)}` : null;
+    }
+    case 'sumEquals': {
+      const values = rule.values.map(getValue);
+      const total = getValue(rule.total);
+      if (total === null || values.some(value => value === null)) return null;
+      const sum = values.reduce<number>((result, value) => result + (value ?? 0), 0);
+      return Math.abs(sum - total) > rule.tolerance * total ? `${formatValue(sum)} vs ${formatValue(total)}` : null;
+    }
+    case 'sumAtMost': {
+      // Parts that are not reported count as 0
+      const values = rule.values.map(getValue).filter((value): value is number => value !== null);
+      if (values.length === 0) return null;
+      const sum = values.reduce((result, value) => result + value, 0);
+      return sum > rule.max ? `${formatValue(sum)} > ${formatValue(rule.max)}` : null;
+    }
+    case 'range': {
+      const value = getValue(rule.value);
+      if (value === null) return null;
+      const outside = (rule.min !== undefined && value < rule.min) || (rule.max !== undefined && value > rule.max);
+      return outside ? formatValue(value) : null;
+    }
+  }
+}
+
+class ValidationService {
+  validateProfile(data: CountryProfileData, rules: ProfileValidationRule[] = PROFILE_VALIDATION_RULES): ProfileValidationWarning[] {
+    const getValue = (path: ProfileValuePath): number | null => {
+      const [section, key] = path.split('.');
+      const value = (data[section as keyof CountryProfileData] as unknown as Record<string, unknown>)[key];
+      return typeof value === 'number' ? value : null;
+    };
+
+    const warnings: ProfileValidationWarning[] = [];
+    rules.forEach(rule => {
+      const detail = evaluateRule(rule, getValue);
+      if (detail) {
+        warnings.push({ ruleId: rule.id, message: `${rule.message} (${detail})`, refs: getFlaggedRefs(rule) });
+      }
+    });
+    return warnings;
+  }
+
+  /**
+   * Check the series of the given data elements year by year, on the values after
+   * transformations. Only rules whose data elements were all requested are run.
+   */
+  validateSeries(
+    analyticsData: AnalyticsResult,
+    dataElements: string[],
+    periods: string[],
+    rules: SeriesValidationRule[] = SERIES_VALIDATION_RULES
+  ): ValidationWarning[] {
+    const requested = new Set(dataElements);
+    const warnings: ValidationWarning[] = [];
+
+    rules
+      .filter(rule => getReferencedRefs(rule).every(uid => requested.has(uid)))
+      .forEach(rule => {
+        const failures = periods
+          .map(period => {
+            const detail = evaluateRule(rule, uid => dataTransformationService.transformValue(analyticsData.getNumber(uid, period), uid));
+            return detail && `${period}: ${detail}`;
+          })
+          .filter((failure): failure is string => !!failure);
+        if (failures.length > 0) {
+          warnings.push({ ruleId: rule.id, message: `${rule.message} (${failures.join('; ')})`, refs: getFlaggedRefs(rule) });
+        }
+      });
+    return warnings;
+  }
+
+  /**
+   * Series warnings for each chart of a loaded profile, keyed by chart id, based on the
+   * analytics recorded while the charts were loading
+   */
+  validateRecordedCharts(orgUnit: string, period: string): Record<string, ValidationWarning[]> {
+    const entriesBySource = new Map<string, RecordedAnalytics[]>();
+    dhis2Service.getRecordedAnalytics(orgUnit, period).forEach(entry => {
+      if (!entry.source) return;
+      entriesBySource.set(entry.source, [...(entriesBySource.get(entry.source) || []), entry]);
+    });
+
+    const warningsBySource: Record<string, ValidationWarning[]> = {};
+    entriesBySource.forEach((entries, source) => {
+      const warnings = this.validateSeries(
+        AnalyticsResult.merge(entries.map(entry => entry.response)),
+        Array.from(new Set(entries.flatMap(entry => entry.dataElements))),
+        Array.from(new Set(entries.flatMap(entry => entry.period.split(';')))).sort()
+      );
+      if (warnings.length > 0) {
+        warningsBySource[source] = warnings;
+      }
+    });
+    return warningsBySource;
+  }
+}
+
+export const validationService = new ValidationService();
@@ -16,6 +16,8 @@ export interface DHIS2User {
   id: string;
   displayName: string;
   username: string;
+  uiLocale?: string; // keyUiLocale user setting, e.g. "fr" or "pt_BR"
+  authorities?: string[]; // e.g. "ALL" for superusers
 }
 
 export interface Country {
@@ -23,6 +25,8 @@ export interface Country {
   displayName: string;
   shortName: string;
   code: string;
+  level?: number;
+  path?: string; // e.g. /<global>/<region>/<country>
 }
 
 export interface DataValue {
@@ -32,9 +36,21 @@ export interface DataValue {
   value: string;
 }
 
+export interface AnalyticsHeader {
+  name: string;
+  column: string;
+  valueType: string;
+}
+
+export interface AnalyticsMetaData {
+  items?: Record<string, { name: string }>;
+  dimensions?: Record<string, string[]>;
+}
+
 export interface AnalyticsResponse {
-  headers: Array<{ name: string; column: string; valueType: string }>;
+  headers: AnalyticsHeader[];
   rows: string[][];
+  metaData?: AnalyticsMetaData;
 }
 
 export interface OptionSetValue {
@@ -47,6 +63,21 @@ export interface OptionSet {
   options: OptionSetValue[];
 }
 
+export interface DataElementMetadata {
+  id: string;
+  displayName: string;
+  valueType: string;       // e.g. 'TEXT', 'NUMBER'
+  aggregationType: string; // e.g. 'SUM', 'NONE'
+  optionSet?: { id: string };
+}
+
+// Names of a data element in the requested locale
+export interface DataElementNames {
+  id: string;
+  displayName: string;
+  displayShortName?: string;
+}
+
 export interface OrganisationUnitDetails {
   code: string;
   parent?: {
@@ -56,40 +87,42 @@ export interface OrganisationUnitDetails {
   };
 }
 
+// Reported values are null when the country did not report them, never 0
+
 export interface PopulationData {
-  highTransmission: number;
-  lowTransmission: number;
-  malariaFree: number;
-  total: number;
+  highTransmission: number | null;
+  lowTransmission: number | null;
+  malariaFree: number | null;
+  total: number | null;
 }
 
 export interface ParasiteData {
-  pFalciparum: number;
-  pVivax: number;
+  pFalciparum: number | null;
+  pVivax: number | null;
   anophelesSpecies: string[];
 }
 
 export interface CasesData {
-  totalCases: number;
-  totalConfirmedCases: number;
-  reportedIndigenousConfirmedCases: number;
-  confirmedHealthFacility: number;
-  confirmedCommunity: number;
-  confirmedPrivateSector: number;
-  reportedDeaths: number;
-  indigenousDeaths: number;
+  totalCases: number | null;
+  totalConfirmedCases: number | null;
+  reportedIndigenousConfirmedCases: number | null;
+  confirmedHealthFacility: number | null;
+  confirmedCommunity: number | null;
+  confirmedPrivateSector: number | null;
+  reportedDeaths: number | null;
+  indigenousDeaths: number | null;
   paramEpiDisplay: number;
   footnoteText: string | null;
   indigSource: number; // Keep for charts
 }
 
 export interface EstimatesData {
-  estimatedCases: number;
-  casesLowerBound: number;
-  casesUpperBound: number;
-  estimatedDeaths: number;
-  deathsLowerBound: number;
-  deathsUpperBound: number;
+  estimatedCases: number | null;
+  casesLowerBound: number | null;
+  casesUpperBound: number | null;
+  estimatedDeaths: number | null;
+  deathsLowerBound: number | null;
+  deathsUpperBound: number | null;
 }
 
 export interface PolicyData {
@@ -137,4 +170,12 @@ export interface CountryProfileData {
   rdtType: string;
   showEstimates: boolean;
   countryCode: string;
-}
\ No newline at end of file
+}
+export interface MapData {
+  map1Name: string;
+  map2Name: string;
+  map1Legend: string;
+  map2Legend: string;
+  map1Year: string;
+  map2Year: string;
+}
@@ -0,0 +1,45 @@
+import { AnalyticsResponse, Country, CountryProfileData, DataElementNames, MapData, OrganisationUnitDetails } from './dhis2';
+import { ProfileDefinitions } from '../config/profileDefinition';
+
+export const SNAPSHOT_FORMAT = 'wmr-country-profile-snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+export interface AnalyticsRequest {
+  dataElements: string[];
+  orgUnit: string;
+  period: string; // Semicolon separated periods, as passed to getAnalyticsData
+  skipRounding: boolean;
+}
+
+export interface RecordedAnalytics extends AnalyticsRequest {
+  source?: string; // Profile section or chart id that made the request
+  response: AnalyticsResponse;
+}
+
+// DHIS2 names used for the chart and table labels, for profiles in a locale other than English
+export interface SnapshotLabels {
+  locale: string;
+  names: DataElementNames[];
+}
+
+/**
+ * Everything CountryProfile needs to render a country without DHIS2
+ */
+export interface ProfileSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: typeof SNAPSHOT_VERSION;
+  exportedAt: string;
+  edition: string;
+  period: string;
+  country: Country;
+  profile: CountryProfileData;
+  orgUnit: OrganisationUnitDetails;
+  maps: MapData;
+  sources: {
+    chart2: string;
+    survey: string;
+  };
+  analytics: RecordedAnalytics[]; // Chart and map analytics, replayed by dhis2Service
+  labels?: SnapshotLabels; // Missing in snapshots exported before labels were localized
+  definitions?: ProfileDefinitions; // dataStore definitions the profile was rendered with, missing in older snapshots
+}
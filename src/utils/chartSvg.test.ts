@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SvgContext } from './chartSvg';
+
+// Path data of the shape drawn by draw, as the SVG records it
+function pathOf(draw: (context: SvgContext) => void): string | null {
+  const context = new SvgContext({} as HTMLCanvasElement, 'test');
+  context.beginPath();
+  draw(context);
+  context.fill();
+  return context.toSvg(100, 100).match(/<path d="([^"]*)"/)?.[1] ?? null;
+}
+
+describe('SvgContext.ellipse', () => {
+  beforeEach(() => {
+    // Only text measurement needs a real canvas
+    vi.stubGlobal('document', { createElement: () => ({ getContext: () => null }) });
+    return () => vi.unstubAllGlobals();
+  });
+
+  it('draws a clockwise quarter in one arc', () => {
+    expect(pathOf(context => context.arc(50, 50, 10, 0, Math.PI / 2))).toBe('M60 50A10 10 0 0 1 50 60');
+  });
+
+  it('draws the long way round counterclockwise, in halves', () => {
+    expect(pathOf(context => context.arc(50, 50, 10, 0, Math.PI / 2, true)))
+      .toBe('M60 50A10 10 0 0 0 42.93 42.93A10 10 0 0 0 50 60');
+  });
+
+  it('wraps a clockwise sweep with the end before the start', () => {
+    expect(pathOf(context => context.arc(50, 50, 10, Math.PI / 2, 0)))
+      .toBe('M50 60A10 10 0 0 1 42.93 42.93A10 10 0 0 1 60 50');
+  });
+
+  it('caps sweeps of a full turn or more at one turn', () => {
+    const circle = 'M60 50A10 10 0 0 1 40 50A10 10 0 0 1 60 50';
+    expect(pathOf(context => context.arc(50, 50, 10, 0, Math.PI * 2))).toBe(circle);
+    expect(pathOf(context => context.arc(50, 50, 10, 0, Math.PI * 5))).toBe(circle);
+    expect(pathOf(context => context.arc(50, 50, 10, 0, -Math.PI * 3, true)))
+      .toBe('M60 50A10 10 0 0 0 40 50A10 10 0 0 0 60 50');
+  });
+
+  it('reduces sweeps against the drawing direction modulo one turn', () => {
+    expect(pathOf(context => context.arc(50, 50, 10, 0, Math.PI * 2.5, true)))
+      .toBe('M60 50A10 10 0 0 0 42.93 42.93A10 10 0 0 0 50 60');
+    expect(pathOf(context => context.arc(50, 50, 10, 0, -Math.PI * 2.5)))
+      .toBe('M60 50A10 10 0 0 1 42.93 57.07A10 10 0 0 1 50 40');
+  });
+
+  it('draws only the start point for an empty sweep', () => {
+    expect(pathOf(context => context.arc(50, 50, 10, 1, 1))).toBe('M55.4 58.41');
+  });
+
+  it('connects the arc to the current point', () => {
+    expect(pathOf(context => {
+      context.moveTo(50, 50);
+      context.arc(50, 50, 10, 0, Math.PI / 2);
+      context.closePath();
+    })).toBe('M50 50L60 50A10 10 0 0 1 50 60Z');
+  });
+
+  it('applies the rotation and radii of an ellipse', () => {
+    expect(pathOf(context => context.ellipse(50, 50, 20, 10, Math.PI / 2, 0, Math.PI / 2)))
+      .toBe('M50 70A20 10 90 0 1 40 50');
+  });
+
+  it('ignores arcs with non-finite values, like a canvas', () => {
+    expect(pathOf(context => context.arc(50, 50, NaN, 0, Math.PI))).toBeNull();
+    expect(pathOf(context => context.arc(50, 50, 10, 0, Infinity))).toBeNull();
+  });
+});
@@ -0,0 +1,348 @@
+import { BasicPlatform, Chart as ChartJS, ChartConfiguration, ChartType } from 'chart.js';
+import { downloadBlob } from './downloadBlob';
+
+const TAU = Math.PI * 2;
+
+type Matrix = [number, number, number, number, number, number];
+
+interface DrawingState {
+  matrix: Matrix;
+  fillStyle: string;
+  strokeStyle: string;
+  lineWidth: number;
+  lineCap: string;
+  lineJoin: string;
+  miterLimit: number;
+  lineDash: number[];
+  lineDashOffset: number;
+  font: string;
+  textAlign: string;
+  textBaseline: string;
+  globalAlpha: number;
+  clipGroups: number; // <g clip-path> elements opened since the matching save()
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' })[char]!);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// rgba() split into an rgb colour and an opacity, which more design tools understand
+function paint(kind: 'fill' | 'stroke', color: string, alpha: number): string {
+  const match = color.match(/^rgba\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*\)$/);
+  const opacity = (match ? parseFloat(match[4]) : 1) * alpha;
+  const value = match ? `rgb(${match[1]}, ${match[2]}, ${match[3]})` : color;
+  return `${kind}="${escapeXml(value)}"${opacity < 1 ? ` ${kind}-opacity="${round(opacity)}"` : ''}`;
+}
+
+// Chart.js fonts are "[style] [weight] <size>px <family>"
+function fontAttributes(font: string): { attributes: string; size: number } {
+  const match = font.match(/^(italic|oblique|normal)?\s*(bold|normal|\d{3})?\s*([\d.]+)px\s+(.+)$/);
+  if (!match) return { attributes: `style="font: ${escapeXml(font)}"`, size: 10 };
+  const [, style, weight, size, family] = match;
+  return {
+    attributes: `font-family="${escapeXml(family)}" font-size="${size}"` +
+      (weight && weight !== 'normal' ? ` font-weight="${weight}"` : '') +
+      (style && style !== 'normal' ? ` font-style="${style}"` : ''),
+    size: parseFloat(size),
+  };
+}
+
+/**
+ * The part of CanvasRenderingContext2D Chart.js draws with, recorded as SVG elements.
+ * Paths are stored in chart pixels, with the transform already applied.
+ */
+export class SvgContext {
+  readonly canvas: HTMLCanvasElement;
+  private elements: string[] = [];
+  private definitions: string[] = [];
+  private path: string[] = [];
+  private hasCurrentPoint = false;
+  private state: DrawingState = {
+    matrix: [1, 0, 0, 1, 0, 0],
+    fillStyle: '#000000',
+    strokeStyle: '#000000',
+    lineWidth: 1,
+    lineCap: 'butt',
+    lineJoin: 'miter',
+    miterLimit: 10,
+    lineDash: [],
+    lineDashOffset: 0,
+    font: '10px sans-serif',
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+    globalAlpha: 1,
+    clipGroups: 0,
+  };
+  private stack: DrawingState[] = [];
+  private clipCount = 0;
+  // Text is measured on a real canvas so labels are laid out as on screen
+  private measureContext = document.createElement('canvas').getContext('2d');
+
+  constructor(canvas: HTMLCanvasElement, private idPrefix: string) {
+    this.canvas = canvas;
+  }
+
+  get fillStyle() { return this.state.fillStyle; }
+  set fillStyle(value: string) { this.state.fillStyle = String(value); }
+  get strokeStyle() { return this.state.strokeStyle; }
+  set strokeStyle(value: string) { this.state.strokeStyle = String(value); }
+  get lineWidth() { return this.state.lineWidth; }
+  set lineWidth(value: number) { this.state.lineWidth = value; }
+  get lineCap() { return this.state.lineCap; }
+  set lineCap(value: string) { this.state.lineCap = value; }
+  get lineJoin() { return this.state.lineJoin; }
+  set lineJoin(value: string) { this.state.lineJoin = value; }
+  get miterLimit() { return this.state.miterLimit; }
+  set miterLimit(value: number) { this.state.miterLimit = value; }
+  get lineDashOffset() { return this.state.lineDashOffset; }
+  set lineDashOffset(value: number) { this.state.lineDashOffset = value; }
+  get font() { return this.state.font; }
+  set font(value: string) { this.state.font = value; }
+  get textAlign() { return this.state.textAlign; }
+  set textAlign(value: string) { this.state.textAlign = value; }
+  get textBaseline() { return this.state.textBaseline; }
+  set textBaseline(value: string) { this.state.textBaseline = value; }
+  get globalAlpha() { return this.state.globalAlpha; }
+  set globalAlpha(value: number) { this.state.globalAlpha = value; }
+
+  save() {
+    this.stack.push(this.state);
+    this.state = { ...this.state, lineDash: [...this.state.lineDash], clipGroups: 0 };
+  }
+
+  restore() {
+    const previous = this.stack.pop();
+    if (!previous) return;
+    for (let i = 0; i < this.state.clipGroups; i++) this.elements.push('</g>');
+    this.state = previous;
+  }
+
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number) {
+    this.state.matrix = [a, b, c, d, e, f];
+  }
+
+  resetTransform() {
+    this.setTransform(1, 0, 0, 1, 0, 0);
+  }
+
+  transform(a: number, b: number, c: number, d: number, e: number, f: number) {
+    const [ma, mb, mc, md, me, mf] = this.state.matrix;
+    this.state.matrix = [ma * a + mc * b, mb * a + md * b, ma * c + mc * d, mb * c + md * d, ma * e + mc * f + me, mb * e + md * f + mf];
+  }
+
+  translate(x: number, y: number) {
+    this.transform(1, 0, 0, 1, x, y);
+  }
+
+  rotate(angle: number) {
+    this.transform(Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0);
+  }
+
+  scale(x: number, y: number) {
+    this.transform(x, 0, 0, y, 0, 0);
+  }
+
+  setLineDash(segments: number[]) {
+    this.state.lineDash = [...segments];
+  }
+
+  getLineDash() {
+    return [...this.state.lineDash];
+  }
+
+  beginPath() {
+    this.path = [];
+    this.hasCurrentPoint = false;
+  }
+
+  closePath() {
+    if (this.path.length) this.path.push('Z');
+  }
+
+  moveTo(x: number, y: number) {
+    const [px, py] = this.point(x, y);
+    this.path.push(`M${px} ${py}`);
+    this.hasCurrentPoint = true;
+  }
+
+  lineTo(x: number, y: number) {
+    if (!this.hasCurrentPoint) return this.moveTo(x, y);
+    const [px, py] = this.point(x, y);
+    this.path.push(`L${px} ${py}`);
+  }
+
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number) {
+    if (!this.hasCurrentPoint) this.moveTo(cp1x, cp1y);
+    this.path.push(`C${this.point(cp1x, cp1y).join(' ')} ${this.point(cp2x, cp2y).join(' ')} ${this.point(x, y).join(' ')}`);
+  }
+
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number) {
+    if (!this.hasCurrentPoint) this.moveTo(cpx, cpy);
+    this.path.push(`Q${this.point(cpx, cpy).join(' ')} ${this.point(x, y).join(' ')}`);
+  }
+
+  rect(x: number, y: number, width: number, height: number) {
+    this.moveTo(x, y);
+    this.lineTo(x + width, y);
+    this.lineTo(x + width, y + height);
+    this.lineTo(x, y + height);
+    this.closePath();
+    this.moveTo(x, y);
+  }
+
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise = false) {
+    this.ellipse(x, y, radius, radius, 0, startAngle, endAngle, counterclockwise);
+  }
+
+  ellipse(x: number, y: number, radiusX: number, radiusY: number, rotation: number, startAngle: number, endAngle: number, counterclockwise = false) {
+    // Like a canvas, ignore arcs with non-finite values (Chart.js draws pie centres with them)
+    if (![x, y, radiusX, radiusY, rotation, startAngle, endAngle].every(Number.isFinite)) return;
+    // Sweep as the canvas specification defines it: a full turn at most
+    let sweep = endAngle - startAngle;
+    if (!counterclockwise && sweep >= TAU) sweep = TAU;
+    else if (counterclockwise && -sweep >= TAU) sweep = -TAU;
+    else if (!counterclockwise) sweep = ((sweep % TAU) + TAU) % TAU;
+    else sweep = -((((-sweep) % TAU) + TAU) % TAU);
+
+    const pointAt = (angle: number): [number, number] => {
+      const ex = radiusX * Math.cos(angle);
+      const ey = radiusY * Math.sin(angle);
+      return [x + ex * Math.cos(rotation) - ey * Math.sin(rotation), y + ex * Math.sin(rotation) + ey * Math.cos(rotation)];
+    };
+    const [a, b] = this.state.matrix;
+    const scale = Math.hypot(a, b);
+    const axisRotation = ((rotation + Math.atan2(b, a)) * 180) / Math.PI;
+
+    this.lineTo(...pointAt(startAngle));
+    if (sweep === 0) return;
+    // An SVG arc cannot draw a full turn, so the sweep is drawn in halves
+    const steps = Math.abs(sweep) > Math.PI ? 2 : 1;
+    for (let step = 1; step <= steps; step++) {
+      const [px, py] = this.point(...pointAt(startAngle + (sweep * step) / steps));
+      this.path.push(`A${round(radiusX * scale)} ${round(radiusY * scale)} ${round(axisRotation)} 0 ${sweep > 0 ? 1 : 0} ${px} ${py}`);
+    }
+  }
+
+  fill(fillRule?: CanvasFillRule) {
+    if (!this.path.length) return;
+    this.elements.push(`<path d="${this.path.join('')}" ${paint('fill', this.state.fillStyle, this.state.globalAlpha)}${fillRule === 'evenodd' ? ' fill-rule="evenodd"' : ''}/>`);
+  }
+
+  stroke() {
+    if (!this.path.length || this.state.lineWidth <= 0) return;
+    this.elements.push(`<path d="${this.path.join('')}" fill="none" ${this.strokeAttributes()}/>`);
+  }
+
+  fillRect(x: number, y: number, width: number, height: number) {
+    const path = this.path;
+    this.beginPath();
+    this.rect(x, y, width, height);
+    this.fill();
+    this.path = path;
+  }
+
+  strokeRect(x: number, y: number, width: number, height: number) {
+    const path = this.path;
+    this.beginPath();
+    this.rect(x, y, width, height);
+    this.stroke();
+    this.path = path;
+  }
+
+  clearRect() {
+    // The SVG starts empty and charts never clear part of the drawing
+  }
+
+  clip() {
+    const id = `${this.idPrefix}-clip-${++this.clipCount}`;
+    this.definitions.push(`<clipPath id="${id}"><path d="${this.path.join('')}"/></clipPath>`);
+    this.elements.push(`<g clip-path="url(#${id})">`);
+    this.state.clipGroups++;
+  }
+
+  fillText(text: string, x: number, y: number) {
+    this.elements.push(this.text(text, x, y, paint('fill', this.state.fillStyle, this.state.globalAlpha)));
+  }
+
+  strokeText(text: string, x: number, y: number) {
+    this.elements.push(this.text(text, x, y, `fill="none" ${this.strokeAttributes()}`));
+  }
+
+  measureText(text: string): TextMetrics {
+    this.measureContext!.font = this.state.font;
+    return this.measureContext!.measureText(text);
+  }
+
+  drawImage() {
+    // Image point styles are not used by the profile charts
+  }
+
+  toSvg(width: number, height: number): string {
+    const open = this.elements.filter(element => element.startsWith('<g ')).length - this.elements.filter(element => element === '</g>').length;
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+      (this.definitions.length ? `<defs>${this.definitions.join('')}</defs>` : '') +
+      this.elements.join('') + '</g>'.repeat(Math.max(open, 0)) +
+      '</svg>';
+  }
+
+  private point(x: number, y: number): [number, number] {
+    const [a, b, c, d, e, f] = this.state.matrix;
+    return [round(a * x + c * y + e), round(b * x + d * y + f)];
+  }
+
+  private strokeAttributes(): string {
+    const { lineWidth, lineCap, lineJoin, miterLimit, lineDash, lineDashOffset } = this.state;
+    return `${paint('stroke', this.state.strokeStyle, this.state.globalAlpha)} stroke-width="${round(lineWidth)}"` +
+      (lineCap !== 'butt' ? ` stroke-linecap="${lineCap}"` : '') +
+      (lineJoin !== 'miter' ? ` stroke-linejoin="${lineJoin}"` : ` stroke-miterlimit="${miterLimit}"`) +
+      (lineDash.length ? ` stroke-dasharray="${lineDash.join(' ')}" stroke-dashoffset="${lineDashOffset}"` : '');
+  }
+
+  private text(text: string, x: number, y: number, paintAttributes: string): string {
+    const { attributes, size } = fontAttributes(this.state.font);
+    const anchor = { center: 'middle', right: 'end', end: 'end' }[this.state.textAlign] || 'start';
+    // Baselines are applied as offsets, since dominant-baseline is not supported everywhere
+    const offset = { top: 0.8, hanging: 0.8, middle: 0.35, bottom: -0.2, ideographic: -0.2 }[this.state.textBaseline] || 0;
+    return `<text x="${round(x)}" y="${round(y + offset * size)}" transform="matrix(${this.state.matrix.map(round).join(' ')})" ` +
+      `text-anchor="${anchor}" ${attributes} ${paintAttributes}>${escapeXml(text)}</text>`;
+  }
+}
+
+/**
+ * Draw a chart configuration as SVG, at the given size in CSS pixels. The chart is drawn
+ * by Chart.js itself, on an SVG recording context, so it matches the canvas on screen.
+ * idPrefix keeps clip path ids unique when several SVGs share a page.
+ */
+export function renderChartSvg<TType extends ChartType>(config: ChartConfiguration<TType>, width: number, height: number, idPrefix = 'chart'): string {
+  // Chart.js reads the size and direction from the canvas and draws on its 2D context
+  const canvas = { width, height, style: document.createElement('div').style } as unknown as HTMLCanvasElement;
+  const context = new SvgContext(canvas, idPrefix);
+  canvas.getContext = (() => context) as unknown as HTMLCanvasElement['getContext'];
+
+  const chart = new ChartJS(canvas, {
+    ...config,
+    // Own copy of the data, since Chart.js attaches listeners to the arrays it draws
+    data: structuredClone(config.data),
+    platform: BasicPlatform,
+    options: {
+      ...config.options,
+      responsive: false,
+      animation: false,
+      devicePixelRatio: 1,
+      events: [],
+    },
+  } as ChartConfiguration<TType>);
+  try {
+    return context.toSvg(width, height);
+  } finally {
+    chart.destroy();
+  }
+}
+
+/**
+ * Trigger a browser download of an SVG document
+ */
+export function downloadSvg(filename: string, svg: string): void {
+  downloadBlob(filename, new Blob([svg], { type: 'image/svg+xml' }));
+}
@@ -0,0 +1,22 @@
+import { downloadBlob } from './downloadBlob';
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  // Quote values containing separators, quotes or line breaks
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+/**
+ * Trigger a browser download of the given rows as a CSV file
+ */
+export function downloadCsv(filename: string, rows: CsvValue[][]): void {
+  // BOM so Excel opens UTF-8 country names correctly
+  downloadBlob(filename, new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' }));
+}
@@ -0,0 +1,114 @@
+import { CountryProfileData } from '../types/dhis2';
+import { NO_DATA_MARKER } from '../services/dataProcessingService';
+import { numberFormatService } from '../services/numberFormatService';
+import { labelService } from '../services/labelService';
+import { LABELS, LabelKey } from '../config/labels';
+import { CASES_SECTION, ESTIMATES_SECTION, POPULATION_SECTION, ProfileFieldGroup } from '../config/profileDefinition';
+
+export type ComparisonSectionId = 'population' | 'cases' | 'estimates' | 'policies' | 'treatment';
+
+export interface ComparisonRow {
+  key: string;
+  label: string;
+  group?: string;          // e.g. policy intervention
+  previous: string;
+  current: string;
+  changed: boolean;
+}
+
+export interface ComparisonSection {
+  id: ComparisonSectionId;
+  label: string;
+  rows: ComparisonRow[];
+}
+
+function formatCount(value: number | null | undefined): string {
+  // Full numbers so small changes are not hidden by rounding to K/M
+  return value === null || value === undefined ? NO_DATA_MARKER : numberFormatService.full(value);
+}
+
+function formatText(value: string | number | null | undefined): string {
+  if (value === null || value === undefined || value === '') return NO_DATA_MARKER;
+  return String(value);
+}
+
+// Value with its adoption year, e.g. "Yes (2015)"
+function formatAdopted(value: string | undefined, yearAdopted: number | null | undefined): string {
+  const text = formatText(value);
+  return yearAdopted && text !== NO_DATA_MARKER ? `${text} (${yearAdopted})` : text;
+}
+
+function compareRow(key: string, label: string, previous: string, current: string, group?: string): ComparisonRow {
+  return { key, label, group, previous, current, changed: previous !== current };
+}
+
+// Profile label of a field where config/labels has one, e.g. profile.totalCases, else the definition label
+function fieldLabel(key: string, label: string): string {
+  const labelKey = key === 'total' ? 'profile.populationTotal' : `profile.${key}`;
+  return labelKey in LABELS ? labelService.get(labelKey as LabelKey) : label;
+}
+
+// Only numeric fields are compared (e.g. the cases footnote text is skipped)
+function compareNumericGroup(
+  fields: ProfileFieldGroup,
+  previous: Record<string, unknown>,
+  current: Record<string, unknown>
+): ComparisonRow[] {
+  return Object.entries(fields)
+    .filter(([, field]) => field.valueType === 'number')
+    .map(([key, field]) => compareRow(key, fieldLabel(key, field.label), formatCount(previous[key] as number), formatCount(current[key] as number)));
+}
+
+function comparePolicies(previous: CountryProfileData, current: CountryProfileData): ComparisonRow[] {
+  // Policies are matched by strategy since each edition can add or retire rows
+  const previousByStrategy = new Map(previous.policies.map(policy => [policy.strategy, policy]));
+  const currentStrategies = new Set(current.policies.map(policy => policy.strategy));
+  const rows = current.policies.map(policy => {
+    const before = previousByStrategy.get(policy.strategy);
+    return compareRow(policy.strategy, policy.strategy, formatAdopted(before?.policy, before?.yearAdopted), formatAdopted(policy.policy, policy.yearAdopted), policy.intervention);
+  });
+  previous.policies
+    .filter(policy => !currentStrategies.has(policy.strategy))
+    .forEach(policy => rows.push(compareRow(policy.strategy, policy.strategy, formatAdopted(policy.policy, policy.yearAdopted), NO_DATA_MARKER, policy.intervention)));
+  return rows;
+}
+
+function compareTreatment(previous: CountryProfileData, current: CountryProfileData): ComparisonRow[] {
+  const previousByCategory = new Map(previous.treatment.map(treatment => [treatment.category, treatment]));
+  return current.treatment.map(treatment => {
+    const before = previousByCategory.get(treatment.category);
+    return compareRow(treatment.category, treatment.category, formatAdopted(before?.medicine, before?.yearAdopted), formatAdopted(treatment.medicine, treatment.yearAdopted));
+  });
+}
+
+/**
+ * Compare two editions of the same country profile section by section
+ */
+export function compareProfiles(previous: CountryProfileData, current: CountryProfileData): ComparisonSection[] {
+  const sections: ComparisonSection[] = [
+    {
+      id: 'population',
+      label: labelService.get('profile.populationDistribution'),
+      rows: compareNumericGroup(POPULATION_SECTION.fields, { ...previous.population }, { ...current.population }),
+    },
+    {
+      id: 'cases',
+      label: labelService.get('profile.reportedCasesAndDeaths'),
+      rows: compareNumericGroup(CASES_SECTION.fields, { ...previous.cases }, { ...current.cases }),
+    },
+    {
+      id: 'estimates',
+      label: labelService.get('profile.whoEstimates'),
+      rows: compareNumericGroup(ESTIMATES_SECTION.fields, { ...previous.estimates }, { ...current.estimates }),
+    },
+    { id: 'policies', label: labelService.get('profile.interventionsAndPolicies'), rows: comparePolicies(previous, current) },
+    { id: 'treatment', label: labelService.get('profile.treatmentPolicy'), rows: compareTreatment(previous, current) },
+  ];
+
+  // Estimates are not shown for countries where they are hidden in both editions
+  return sections.filter(section => section.id !== 'estimates' || previous.showEstimates || current.showEstimates);
+}
+
+export function countChanges(sections: ComparisonSection[]): number {
+  return sections.reduce((total, section) => total + section.rows.filter(row => row.changed).length, 0);
+}
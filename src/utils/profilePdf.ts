@@ -0,0 +1,117 @@
+// Profile content is always laid out at this width, then scaled onto the page,
+// so the PDF does not depend on the browser window size
+const CONTENT_WIDTH = 1100;
+// Viewport width used for Tailwind breakpoints while rendering (desktop layout)
+const RENDER_WINDOW_WIDTH = 1280;
+const PAGE_MARGIN_MM = 8;
+const PAGE_RATIO = (297 - 2 * PAGE_MARGIN_MM) / (210 - 2 * PAGE_MARGIN_MM);
+
+// Elements marked with data-pdf-page="2" are moved to the second page
+const SECOND_PAGE_SELECTOR = '[data-pdf-page="2"]';
+
+/**
+ * Copy of the profile as laid out for print: screen-only controls removed, charts
+ * drawn from their print SVG, and remaining canvases replaced by their snapshot PNGs
+ * (canvas contents are not copied by cloneNode)
+ */
+function cloneWithSnapshots(source: HTMLElement, snapshots: Map<HTMLCanvasElement, string>): HTMLElement {
+  const canvases = Array.from(snapshots.keys());
+  canvases.forEach((canvas, index) => canvas.setAttribute("data-snapshot-index", String(index)));
+  const clone = source.cloneNode(true) as HTMLElement;
+  canvases.forEach(canvas => canvas.removeAttribute("data-snapshot-index"));
+
+  clone.removeAttribute("id");
+  // Also removes the canvases of charts that print as SVG
+  clone.querySelectorAll(".print\\:hidden, .print\\:\\!hidden").forEach(element => element.remove());
+  clone.querySelectorAll("[data-print-svg]").forEach(element => element.classList.remove("hidden"));
+  clone.querySelectorAll("canvas[data-snapshot-index]").forEach(canvas => {
+    const image = document.createElement("img");
+    image.src = snapshots.get(canvases[Number(canvas.getAttribute("data-snapshot-index"))]) || "";
+    image.style.width = "100%";
+    image.style.height = "100%";
+    image.style.objectFit = "contain";
+    canvas.replaceWith(image);
+  });
+  return clone;
+}
+
+function createPage(content: HTMLElement[]): HTMLElement {
+  const page = document.createElement("div");
+  page.className = "pdf-page";
+  const inner = document.createElement("div");
+  inner.className = "space-y-8";
+  content.forEach(element => inner.appendChild(element));
+  page.appendChild(inner);
+  return page;
+}
+
+/**
+ * Split the profile into two A4 pages: profile and policies first, charts and footnotes second
+ */
+function buildPages(clone: HTMLElement): HTMLElement[] {
+  const secondPage = Array.from(clone.querySelectorAll<HTMLElement>(SECOND_PAGE_SELECTOR));
+  secondPage.forEach(element => element.remove());
+  return [createPage([clone]), createPage(secondPage)];
+}
+
+// Runs on html2canvas' copy of the page, where breakpoints follow RENDER_WINDOW_WIDTH
+function fitPageToA4(clonedDocument: Document) {
+  const page = clonedDocument.querySelector<HTMLElement>(".pdf-page");
+  const content = page?.firstElementChild as HTMLElement | null;
+  if (!page || !content || !page.parentElement) return;
+
+  const pageWidth = page.parentElement.clientWidth;
+  // Leave a pixel of slack so rounding never spills onto an extra page
+  const pageHeight = Math.floor(pageWidth * PAGE_RATIO) - 2;
+
+  content.style.width = `${CONTENT_WIDTH}px`;
+  const scale = Math.min(pageWidth / CONTENT_WIDTH, pageHeight / content.scrollHeight);
+
+  content.style.transformOrigin = "top left";
+  content.style.transform = `scale(${scale})`;
+  content.style.marginLeft = `${(pageWidth - CONTENT_WIDTH * scale) / 2}px`;
+  page.style.width = `${pageWidth}px`;
+  page.style.height = `${Math.floor(content.scrollHeight * scale)}px`;
+  page.style.overflow = "hidden";
+}
+
+/**
+ * Render the profile to a two-page A4 PDF from the chart snapshots and download it.
+ * Layout is fixed so every browser produces the same file, independent of print settings.
+ */
+export async function downloadProfilePdf(
+  source: HTMLElement,
+  snapshots: Map<HTMLCanvasElement, string>,
+  filename: string
+): Promise<void> {
+  // Loaded on demand, jsPDF is large and only needed for this export
+  const { default: html2pdf } = await import("html2pdf.js");
+  const pages = buildPages(cloneWithSnapshots(source, snapshots));
+
+  // Kept out of the set() call since the bundled typings do not declare pagebreak
+  const options = {
+    margin: PAGE_MARGIN_MM,
+    filename,
+    image: { type: "jpeg" as const, quality: 0.95 },
+    html2canvas: {
+      scale: 2,
+      useCORS: true,
+      backgroundColor: "#ffffff",
+      windowWidth: RENDER_WINDOW_WIDTH,
+      onclone: fitPageToA4,
+    },
+    jsPDF: { unit: "mm", format: "a4", orientation: "portrait" as const },
+    // Each page is scaled to fit, so html2pdf must not insert its own breaks
+    pagebreak: { mode: [] },
+  };
+  const worker = html2pdf().set(options);
+
+  for (const [index, page] of pages.entries()) {
+    if (index > 0) {
+      const pdf = await worker.get("pdf");
+      pdf.addPage();
+    }
+    await worker.from(page).toContainer().toCanvas().toPdf();
+  }
+  await worker.save();
+}
@@ -0,0 +1,131 @@
+import { useRef, useState, useEffect, useCallback } from "react";
+
+export type SectionStatus = "loading" | "ready" | "error";
+
+export interface SectionError {
+  section: string;
+  message: string;
+}
+
+export interface ProfileReadyDetail {
+  status: Exclude<SectionStatus, "loading">;
+  country: string;
+  period: string;
+  errors: SectionError[];
+}
+
+/** Reports a section's status; null removes the section (e.g. on unmount) */
+export type ReportSectionStatus = (id: string, status: SectionStatus | null, error?: string | null) => void;
+
+// Fired on window with a ProfileReadyDetail (or { status: "loading" }) whenever the profile status changes
+export const PROFILE_STATUS_EVENT = "wmr:profile-status";
+// Attribute set on <html> for callers that poll the DOM
+export const PROFILE_STATUS_ATTRIBUTE = "data-profile-status";
+
+declare global {
+  interface Window {
+    /** Resolves once the current profile has finished loading, successfully or not */
+    wmrProfileReady?: Promise<ProfileReadyDetail>;
+  }
+}
+
+/**
+ * Tracks when the profile, its charts, sources and map images have settled and
+ * publishes it for automated rendering (batch PDF generation, screenshots).
+ * The profile is settled when every reported section is ready or errored, or
+ * as soon as the "profile" section errors since nothing else will render.
+ * Also returns the profile status for controls that need a fully loaded profile.
+ */
+export function useProfileReadiness(country: string, period: string) {
+  const sections = useRef<Map<string, { status: SectionStatus; error?: string }>>(new Map());
+  const context = useRef({ country, period });
+  const active = useRef(false);
+  const settled = useRef(false);
+  const resolveReady = useRef<((detail: ProfileReadyDetail) => void) | null>(null);
+  const [status, setStatus] = useState<SectionStatus>("loading");
+
+  context.current = { country, period };
+
+  const startLoading = useCallback(() => {
+    settled.current = false;
+    // Keep handing out the same promise until it resolves
+    if (!resolveReady.current) {
+      window.wmrProfileReady = new Promise(resolve => {
+        resolveReady.current = resolve;
+      });
+    }
+    setStatus("loading");
+    document.documentElement.setAttribute(PROFILE_STATUS_ATTRIBUTE, "loading");
+    window.dispatchEvent(new CustomEvent(PROFILE_STATUS_EVENT, { detail: { status: "loading" } }));
+  }, []);
+
+  const evaluate = useCallback(() => {
+    if (!active.current) return;
+
+    const entries = Array.from(sections.current.entries());
+    const profileFailed = sections.current.get("profile")?.status === "error";
+    const isSettled = profileFailed || (entries.length > 0 && entries.every(([, section]) => section.status !== "loading"));
+
+    if (!isSettled) {
+      if (settled.current) startLoading();
+      return;
+    }
+    if (settled.current) return;
+
+    const errors = entries
+      .filter(([, section]) => section.status === "error")
+      .map(([id, section]) => ({ section: id, message: section.error || "Failed to load" }));
+    const detail: ProfileReadyDetail = {
+      status: errors.length > 0 ? "error" : "ready",
+      ...context.current,
+      errors,
+    };
+
+    settled.current = true;
+    setStatus(detail.status);
+    document.documentElement.setAttribute(PROFILE_STATUS_ATTRIBUTE, detail.status);
+    window.dispatchEvent(new CustomEvent(PROFILE_STATUS_EVENT, { detail }));
+    resolveReady.current?.(detail);
+    resolveReady.current = null;
+  }, [startLoading]);
+
+  const reportSection = useCallback<ReportSectionStatus>((id, status, error) => {
+    if (status === null) {
+      sections.current.delete(id);
+    } else {
+      sections.current.set(id, { status, error: error || undefined });
+    }
+    evaluate();
+  }, [evaluate]);
+
+  useEffect(() => {
+    active.current = true;
+    startLoading();
+    evaluate();
+    return () => {
+      active.current = false;
+      document.documentElement.removeAttribute(PROFILE_STATUS_ATTRIBUTE);
+    };
+  }, [startLoading, evaluate]);
+
+  return { reportSection, status };
+}
+
+/**
+ * Reports a component's loading/error state as a readiness section and
+ * removes the section when the component unmounts.
+ */
+export function useSectionStatus(
+  id: string,
+  loading: boolean,
+  error: string | null,
+  reportStatus?: ReportSectionStatus
+) {
+  useEffect(() => {
+    reportStatus?.(id, loading ? "loading" : error ? "error" : "ready", error);
+  }, [id, loading, error, reportStatus]);
+
+  useEffect(() => {
+    return () => reportStatus?.(id, null);
+  }, [id, reportStatus]);
+}
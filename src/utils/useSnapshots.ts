@@ -1,8 +1,6 @@
 import { useRef, useState, useCallback } from "react";
-import html2canvas from "html2canvas";
 
-export type ChartRefLike = { toBase64Image: (opts?: any) => string } | null;
-export type ContainerRefLike = HTMLDivElement | null;
+export type ChartRefLike = { toBase64Image: (opts?: any) => string; canvas?: HTMLCanvasElement } | null;
 
 /**
  * Provides setters for chart refs and returns PNG data URLs to use in print.
@@ -10,19 +8,16 @@ export type ContainerRefLike = HTMLDivElement | null;
  */
 export function useSnapshots() {
   const chartRefs = useRef<Map<string, ChartRefLike>>(new Map());
-  const containerRefs = useRef<Map<string, ContainerRefLike>>(new Map());
   const [chartPngs, setChartPngs] = useState<Map<string, string>>(new Map());
 
   const setChartRef = useCallback((id: string, ref: ChartRefLike) => {
     chartRefs.current.set(id, ref);
   }, []);
-
-  const setContainerRef = useCallback((id: string, ref: ContainerRefLike) => {
-    containerRefs.current.set(id, ref);
-  }, []);
   const getChartPng = useCallback((id: string) => chartPngs.get(id) || "", [chartPngs]);
+  const getChartCanvas = useCallback((id: string) => chartRefs.current.get(id)?.canvas || null, []);
 
-  const prepareSnapshots = useCallback(async () => {
+  // Resolves with the new PNGs, since chartPngs only updates on the next render
+  const prepareSnapshots = useCallback(async (): Promise<Map<string, string>> => {
     const oldDpr = window.devicePixelRatio;
     Object.defineProperty(window, "devicePixelRatio", { value: 2, configurable: true });
 
@@ -35,33 +30,20 @@ export function useSnapshots() {
           newChartPngs.set(id, png);
         }
       }
-      
-      // Capture container divs (for components like Chart9 with custom legends)
-      for (const [id, ref] of containerRefs.current.entries()) {
-        if (ref) {
-          const canvas = await html2canvas(ref, {
-            scale: 2, // 2x DPR for print quality
-            useCORS: true,
-            allowTaint: true,
-            backgroundColor: '#ffffff'
-          });
-          const png = canvas.toDataURL('image/png');
-          newChartPngs.set(id, png);
-        }
-      }
-      
+
       setChartPngs(newChartPngs);
     } catch (error) {
       console.error("[useSnapshots] Error during snapshot preparation:", error);
     } finally {
       Object.defineProperty(window, "devicePixelRatio", { value: oldDpr, configurable: true });
     }
+    return newChartPngs;
   }, []);
 
   return {
     setChartRef,
-    setContainerRef,
     getChartPng,
+    getChartCanvas,
     prepareSnapshots,
   };
 }
\ No newline at end of file
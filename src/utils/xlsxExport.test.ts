@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, toSheetNames, toXlsx, toZip } from './xlsxExport';
+
+const decoder = new TextDecoder();
+
+interface ZipEntry {
+  name: string;
+  content: string;
+  crc: number;
+}
+
+// Reads a stored zip through its central directory, checking each local header on the way
+function readZip(zip: Uint8Array<ArrayBuffer>): ZipEntry[] {
+  const view = new DataView(zip.buffer);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  const centralSize = view.getUint32(end + 12, true);
+  let central = view.getUint32(end + 16, true);
+  expect(central + centralSize).toBe(end);
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(central, true)).toBe(0x02014b50);
+    const crc = view.getUint32(central + 16, true);
+    const size = view.getUint32(central + 24, true);
+    const nameLength = view.getUint16(central + 28, true);
+    const local = view.getUint32(central + 42, true);
+    const name = decoder.decode(zip.subarray(central + 46, central + 46 + nameLength));
+
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    expect(view.getUint32(local + 14, true)).toBe(crc);
+    expect(view.getUint32(local + 22, true)).toBe(size);
+    expect(decoder.decode(zip.subarray(local + 30, local + 30 + nameLength))).toBe(name);
+    const data = zip.subarray(local + 30 + nameLength, local + 30 + nameLength + size);
+    expect(crc32(data)).toBe(crc);
+
+    entries.push({ name, content: decoder.decode(data), crc });
+    central += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('is 0 for no data', () => {
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('toZip', () => {
+  it('stores every file with its name and content', () => {
+    const files: [string, string][] = [['a.txt', 'hello'], ['dir/é.xml', '<x>ü</x>'], ['empty', '']];
+    const entries = readZip(toZip(files));
+    expect(entries.map(entry => [entry.name, entry.content])).toEqual(files);
+  });
+
+  it('writes only the end record for no files', () => {
+    const zip = toZip([]);
+    expect(zip.length).toBe(22);
+    expect(readZip(zip)).toEqual([]);
+  });
+});
+
+describe('toSheetNames', () => {
+  it('replaces invalid characters and truncates to 31 characters', () => {
+    expect(toSheetNames(['Cases [2023]: a/b', 'x'.repeat(40)])).toEqual(['Cases  2023  a b', 'x'.repeat(31)]);
+  });
+
+  it('falls back to the sheet position for empty names', () => {
+    expect(toSheetNames(['Data', ' ', '?'])).toEqual(['Data', 'Sheet2', 'Sheet3']);
+  });
+
+  it('gives names that collide after truncation a suffix', () => {
+    const prefix = 'Democratic Republic of the Congo';
+    const names = toSheetNames([`${prefix} 2022`, `${prefix} 2023`, `${prefix} 2024`]);
+    expect(names).toEqual(['Democratic Republic of the Cong', 'Democratic Republic of the (2)', 'Democratic Republic of the (3)']);
+    names.forEach(name => expect(name.length).toBeLessThanOrEqual(31));
+  });
+
+  it('treats names differing only in case as duplicates', () => {
+    expect(toSheetNames(['Summary', 'SUMMARY', 'Summary (2)'])).toEqual(['Summary', 'SUMMARY (2)', 'Summary (2) (2)']);
+  });
+});
+
+describe('toXlsx', () => {
+  it('writes one worksheet per sheet with unique sheet names', () => {
+    const entries = readZip(toXlsx([
+      { name: 'Profile', rows: [['Indicator', 'Value'], ['Cases', 1200], ['Reported', true]] },
+      { name: 'profile', rows: [] },
+    ]));
+    expect(entries.map(entry => entry.name)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/worksheets/sheet1.xml',
+      'xl/worksheets/sheet2.xml',
+    ]);
+
+    const workbook = entries.find(entry => entry.name === 'xl/workbook.xml')!.content;
+    expect(workbook).toContain('<sheet name="Profile" sheetId="1" r:id="rId1"/>');
+    expect(workbook).toContain('<sheet name="profile (2)" sheetId="2" r:id="rId2"/>');
+
+    const sheet = entries.find(entry => entry.name === 'xl/worksheets/sheet1.xml')!.content;
+    expect(sheet).toContain('<c r="B2"><v>1200</v></c>');
+    expect(sheet).toContain('<c r="B3" t="b"><v>1</v></c>');
+    expect(sheet).toContain('<c r="A1" t="inlineStr"><is><t xml:space="preserve">Indicator</t></is></c>');
+  });
+});
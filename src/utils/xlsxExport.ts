@@ -0,0 +1,165 @@
+import { CsvValue } from './csvExport';
+import { downloadBlob } from './downloadBlob';
+
+export interface XlsxSheet {
+  name: string;
+  rows: CsvValue[][];
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const MAX_SHEET_NAME_LENGTH = 31;
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' })[char]!);
+}
+
+// A, B, ..., Z, AA, AB, ...
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function toCell(value: CsvValue, ref: string): string {
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${ref}"><v>${value}</v></c>` : '';
+  }
+  if (typeof value === 'boolean') return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  // Inline strings, so the workbook needs no shared string table
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function toSheetXml(rows: CsvValue[][]): string {
+  const body = rows.map((row, rowIndex) =>
+    `<row r="${rowIndex + 1}">${row.map((value, columnIndex) => toCell(value, `${columnName(columnIndex)}${rowIndex + 1}`)).join('')}</row>`
+  ).join('');
+  return `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${body}</sheetData></worksheet>`;
+}
+
+// Excel rejects sheet names over 31 characters or with []:*?/\
+function toSheetName(name: string, index: number): string {
+  return name.replace(/[[\]:*?/\\]+/g, ' ').trim().slice(0, MAX_SHEET_NAME_LENGTH) || `Sheet${index + 1}`;
+}
+
+/**
+ * Valid sheet names for the given names. Excel also rejects duplicates (ignoring case),
+ * which truncation can create, so repeated names get a " (2)", " (3)", ... suffix.
+ */
+export function toSheetNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name, index) => {
+    const base = toSheetName(name, index);
+    let sheetName = base;
+    for (let copy = 2; used.has(sheetName.toLowerCase()); copy++) {
+      const suffix = ` (${copy})`;
+      sheetName = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length).trimEnd() + suffix;
+    }
+    used.add(sheetName.toLowerCase());
+    return sheetName;
+  });
+}
+
+function toWorkbookFiles(sheets: XlsxSheet[]): [string, string][] {
+  const sheetNames = toSheetNames(sheets.map(sheet => sheet.name));
+  const sheetFiles = sheets.map((sheet, index): [string, string] => [`xl/worksheets/sheet${index + 1}.xml`, toSheetXml(sheet.rows)]);
+  return [
+    ['[Content_Types].xml', `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      sheets.map((_, index) => `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+      '</Types>'],
+    ['_rels/.rels', `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'],
+    ['xl/workbook.xml', `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>` +
+      sheetNames.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('') +
+      '</sheets></workbook>'],
+    ['xl/_rels/workbook.xml.rels', `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      sheets.map((_, index) => `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`).join('') +
+      '</Relationships>'],
+    ...sheetFiles,
+  ];
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Zip archive of the given files, stored without compression (a workbook is small)
+ */
+export function toZip(files: [string, string][]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const entries = files.map(([name, content]) => ({ name: encoder.encode(name), data: encoder.encode(content) }));
+  const localSize = entries.reduce((size, entry) => size + 30 + entry.name.length + entry.data.length, 0);
+  const centralSize = entries.reduce((size, entry) => size + 46 + entry.name.length, 0);
+  const zip = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(zip.buffer);
+
+  let offset = 0;
+  let centralOffset = localSize;
+  for (const entry of entries) {
+    const crc = crc32(entry.data);
+    // Local file header: version 2.0, UTF-8 names, stored, 1980-01-01 00:00
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, 0x0800, true);
+    view.setUint16(offset + 12, 0x0021, true);
+    view.setUint32(offset + 14, crc, true);
+    view.setUint32(offset + 18, entry.data.length, true);
+    view.setUint32(offset + 22, entry.data.length, true);
+    view.setUint16(offset + 26, entry.name.length, true);
+    zip.set(entry.name, offset + 30);
+    zip.set(entry.data, offset + 30 + entry.name.length);
+
+    // Central directory header pointing back to it
+    view.setUint32(centralOffset, 0x02014b50, true);
+    view.setUint16(centralOffset + 4, 20, true);
+    view.setUint16(centralOffset + 6, 20, true);
+    view.setUint16(centralOffset + 8, 0x0800, true);
+    view.setUint16(centralOffset + 14, 0x0021, true);
+    view.setUint32(centralOffset + 16, crc, true);
+    view.setUint32(centralOffset + 20, entry.data.length, true);
+    view.setUint32(centralOffset + 24, entry.data.length, true);
+    view.setUint16(centralOffset + 28, entry.name.length, true);
+    view.setUint32(centralOffset + 42, offset, true);
+    zip.set(entry.name, centralOffset + 46);
+
+    offset += 30 + entry.name.length + entry.data.length;
+    centralOffset += 46 + entry.name.length;
+  }
+
+  // End of central directory
+  view.setUint32(centralOffset, 0x06054b50, true);
+  view.setUint16(centralOffset + 8, entries.length, true);
+  view.setUint16(centralOffset + 10, entries.length, true);
+  view.setUint32(centralOffset + 12, centralSize, true);
+  view.setUint32(centralOffset + 16, localSize, true);
+  return zip;
+}
+
+/**
+ * Excel workbook (.xlsx) with one worksheet per sheet; numbers stay numeric
+ */
+export function toXlsx(sheets: XlsxSheet[]): Uint8Array<ArrayBuffer> {
+  return toZip(toWorkbookFiles(sheets));
+}
+
+/**
+ * Trigger a browser download of the given sheets as an Excel workbook
+ */
+export function downloadXlsx(filename: string, sheets: XlsxSheet[]): void {
+  downloadBlob(filename, new Blob([toXlsx(sheets)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }));
+}
@@ -18,15 +18,10 @@ export default defineConfig({
           'utils-vendor': ['html2canvas', 'lucide-react'],
           // App chunks
           'charts': [
-            './src/components/Chart1.tsx',
-            './src/components/Chart2.tsx',
-            './src/components/Chart3.tsx',
-            './src/components/Chart4.tsx',
-            './src/components/Chart5.tsx',
-            './src/components/Chart6.tsx',
-            './src/components/Chart7.tsx',
-            './src/components/Chart8.tsx',
-            './src/components/Chart9.tsx'
+            './src/components/ProfileChart.tsx',
+            './src/config/chartSpecs.ts',
+            './src/services/chartDataService.ts',
+            './src/utils/chartSvg.ts'
           ],
           'services': [
             './src/services/dhis2Service.ts',